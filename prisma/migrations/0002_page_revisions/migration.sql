@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "page_revisions" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "pageType" "ContentType" NOT NULL,
+    "tags" TEXT[],
+    "createdById" TEXT NOT NULL,
+    "restoredFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "page_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_revisions_pageId_revisionNumber_key" ON "page_revisions"("pageId", "revisionNumber");
+
+-- CreateIndex
+CREATE INDEX "page_revisions_pageId_createdAt_idx" ON "page_revisions"("pageId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "page_revisions_createdById_idx" ON "page_revisions"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "page_revisions" ADD CONSTRAINT "page_revisions_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "page_revisions" ADD CONSTRAINT "page_revisions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: snapshot the current state of every existing page as revision 1
+INSERT INTO "page_revisions" ("id", "pageId", "revisionNumber", "title", "content", "pageType", "tags", "createdById", "createdAt")
+SELECT 'c' || substr(md5(random()::text || "id"), 1, 24), "id", 1, "title", "content", "pageType", "tags", "authorId", "updatedAt"
+FROM "pages";
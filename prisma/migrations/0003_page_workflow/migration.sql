@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "PageStatus" AS ENUM ('DRAFT', 'IN_REVIEW', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN "status" "PageStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "reviewedById" TEXT,
+ADD COLUMN "reviewedAt" TIMESTAMP(3),
+ADD COLUMN "reviewComment" TEXT;
+
+-- Existing unpublished pages become drafts
+UPDATE "pages" SET "status" = 'DRAFT' WHERE "published" = false;
+
+-- CreateIndex
+CREATE INDEX "pages_status_idx" ON "pages"("status");
+
+-- AddForeignKey
+ALTER TABLE "pages" ADD CONSTRAINT "pages_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "pages_status_publishAt_idx" ON "pages"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "pages_status_expiresAt_idx" ON "pages"("status", "expiresAt");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN "parentId" TEXT,
+ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing pages become root pages ordered by creation date
+UPDATE "pages" SET "position" = ordered."rowNumber" - 1
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (ORDER BY "createdAt") AS "rowNumber"
+  FROM "pages"
+) AS ordered
+WHERE "pages"."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "pages_parentId_position_idx" ON "pages"("parentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "pages" ADD CONSTRAINT "pages_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "pages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
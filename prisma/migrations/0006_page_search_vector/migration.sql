@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN "searchVector" tsvector;
+
+-- Build the weighted search document: title (A) > tags (B) > content (C).
+-- Content is stored as HTML, so tags and entities are stripped first.
+CREATE OR REPLACE FUNCTION pages_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('turkish', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('turkish', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+    setweight(to_tsvector('turkish',
+      regexp_replace(
+        regexp_replace(coalesce(NEW."content", ''), '<[^>]*>', ' ', 'g'),
+        '&[a-zA-Z0-9#]+;', ' ', 'g'
+      )
+    ), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pages_search_vector_trigger ON "pages";
+CREATE TRIGGER pages_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF "title", "content", "tags" ON "pages"
+  FOR EACH ROW EXECUTE FUNCTION pages_search_vector_update();
+
+-- Backfill existing pages through the trigger
+UPDATE "pages" SET "title" = "title";
+
+-- CreateIndex
+CREATE INDEX "pages_searchVector_idx" ON "pages" USING GIN ("searchVector");
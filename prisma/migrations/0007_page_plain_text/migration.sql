@@ -0,0 +1,13 @@
+-- Plain text of a page's HTML content, used to build search result snippets.
+-- Tags become spaces, common entities are decoded and the rest dropped.
+CREATE OR REPLACE FUNCTION page_plain_text(html text) RETURNS text AS $$
+  SELECT btrim(regexp_replace(
+    replace(replace(replace(replace(replace(
+      regexp_replace(
+        regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'),
+        '&(nbsp|#160);|&(?!(amp|lt|gt|quot|#39);)[a-zA-Z0-9#]+;', ' ', 'g'
+      ),
+      '&quot;', '"'), '&#39;', ''''), '&lt;', '<'), '&gt;', '>'), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,18 @@
+-- Trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lowercase text with Turkish letters folded to ASCII (ı/i, ş/s, ğ/g, ü/u,
+-- ö/o, ç/c) so "gumruk" matches "gümrük". Mirrored by foldTurkish() in
+-- src/lib/page-search.ts.
+CREATE OR REPLACE FUNCTION turkish_fold(input text) RETURNS text AS $$
+  SELECT lower(translate(coalesce(input, ''), 'İIıŞşĞğÜüÖöÇç', 'iiissgguuoocc'))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Folded title, tags and plain content of a page for trigram matching
+CREATE OR REPLACE FUNCTION page_search_text(title text, tags text[], content text) RETURNS text AS $$
+  SELECT turkish_fold(coalesce(title, '') || ' ' || coalesce(array_to_string(tags, ' '), '') || ' ' || page_plain_text(content))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- CreateIndex
+CREATE INDEX "pages_search_text_trgm_idx" ON "pages"
+  USING GIN (page_search_text("title", "tags", "content") gin_trgm_ops);
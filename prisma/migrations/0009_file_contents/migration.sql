@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "file_contents" (
+    "fileId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "searchVector" tsvector,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_contents_pkey" PRIMARY KEY ("fileId")
+);
+
+-- AddForeignKey
+ALTER TABLE "file_contents" ADD CONSTRAINT "file_contents_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Search document for extracted attachment text
+CREATE OR REPLACE FUNCTION file_contents_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := setweight(to_tsvector('turkish', coalesce(NEW."content", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS file_contents_search_vector_trigger ON "file_contents";
+CREATE TRIGGER file_contents_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF "content" ON "file_contents"
+  FOR EACH ROW EXECUTE FUNCTION file_contents_search_vector_update();
+
+-- CreateIndex
+CREATE INDEX "file_contents_searchVector_idx" ON "file_contents" USING GIN ("searchVector");
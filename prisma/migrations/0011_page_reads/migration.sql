@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "page_reads" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "revisionNumber" INTEGER,
+    "readAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "page_reads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_reads_userId_pageId_key" ON "page_reads"("userId", "pageId");
+
+-- CreateIndex
+CREATE INDEX "page_reads_pageId_idx" ON "page_reads"("pageId");
+
+-- AddForeignKey
+ALTER TABLE "page_reads" ADD CONSTRAINT "page_reads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "page_reads" ADD CONSTRAINT "page_reads_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one read per user and page from the PAGE_VIEWED activity logs,
+-- at the time of the latest view and the revision that was current then
+INSERT INTO "page_reads" ("id", "userId", "pageId", "revisionNumber", "readAt")
+SELECT
+    'c' || substr(md5(random()::text || v."userId" || v."pageId"), 1, 24),
+    v."userId",
+    v."pageId",
+    (
+        SELECT max(r."revisionNumber")
+        FROM "page_revisions" r
+        WHERE r."pageId" = v."pageId" AND r."createdAt" <= v."readAt"
+    ),
+    v."readAt"
+FROM (
+    SELECT l."userId", l."resourceId" AS "pageId", max(l."createdAt") AS "readAt"
+    FROM "activity_logs" l
+    JOIN "pages" p ON p."id" = l."resourceId"
+    WHERE l."action" = 'PAGE_VIEWED' AND l."resourceType" = 'PAGE'
+    GROUP BY l."userId", l."resourceId"
+) v;
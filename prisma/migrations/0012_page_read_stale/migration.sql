@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "page_reads" ADD COLUMN "stale" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "acknowledgement_campaigns" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "targetRoles" "UserRole"[],
+    "targetUserIds" TEXT[],
+    "createdById" TEXT NOT NULL,
+    "reminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "acknowledgement_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "page_acknowledgements" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "revisionNumber" INTEGER,
+    "acknowledgedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "page_acknowledgements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "acknowledgement_campaigns_pageId_key" ON "acknowledgement_campaigns"("pageId");
+
+-- CreateIndex
+CREATE INDEX "acknowledgement_campaigns_deadline_idx" ON "acknowledgement_campaigns"("deadline");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_acknowledgements_campaignId_userId_key" ON "page_acknowledgements"("campaignId", "userId");
+
+-- CreateIndex
+CREATE INDEX "page_acknowledgements_userId_idx" ON "page_acknowledgements"("userId");
+
+-- AddForeignKey
+ALTER TABLE "acknowledgement_campaigns" ADD CONSTRAINT "acknowledgement_campaigns_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "acknowledgement_campaigns" ADD CONSTRAINT "acknowledgement_campaigns_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "page_acknowledgements" ADD CONSTRAINT "page_acknowledgements_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "acknowledgement_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "page_acknowledgements" ADD CONSTRAINT "page_acknowledgements_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN "editedAt" TIMESTAMP(3),
+ADD COLUMN "hiddenAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "comment_revisions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "editedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "comment_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "comment_reports" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "comment_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "comment_revisions_commentId_createdAt_idx" ON "comment_revisions"("commentId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comment_reports_commentId_reporterId_key" ON "comment_reports"("commentId", "reporterId");
+
+-- CreateIndex
+CREATE INDEX "comment_reports_resolvedAt_idx" ON "comment_reports"("resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment_reports" ADD CONSTRAINT "comment_reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN "anchorQuote" TEXT,
+ADD COLUMN "anchorPrefix" TEXT,
+ADD COLUMN "anchorSuffix" TEXT,
+ADD COLUMN "anchorStart" INTEGER,
+ADD COLUMN "resolvedAt" TIMESTAMP(3),
+ADD COLUMN "resolvedById" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "comments" ADD CONSTRAINT "comments_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "EmailFrequency" AS ENUM ('OFF', 'IMMEDIATE', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN "emailFrequency" "EmailFrequency" NOT NULL DEFAULT 'OFF',
+ADD COLUMN "lastEmailedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "notification_preferences_emailFrequency_idx" ON "notification_preferences"("emailFrequency");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN "inApp" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "byEmail" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN "mutedInAppTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "mutedEmailTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "quietHoursStart" INTEGER,
+ADD COLUMN "quietHoursEnd" INTEGER;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "notification_broadcasts" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "excludeUserId" TEXT,
+    "cursor" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_broadcasts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_broadcasts_completedAt_idx" ON "notification_broadcasts"("completedAt");
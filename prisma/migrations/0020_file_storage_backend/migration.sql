@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "StorageBackend" AS ENUM ('LOCAL', 'S3');
+
+-- AlterTable
+ALTER TABLE "files" ADD COLUMN "storageBackend" "StorageBackend" NOT NULL DEFAULT 'LOCAL';
+
+-- CreateIndex
+CREATE INDEX "files_storageBackend_idx" ON "files"("storageBackend");
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "file_versions" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "filename" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "mimeType" TEXT,
+    "fileSize" BIGINT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "storageBackend" "StorageBackend" NOT NULL DEFAULT 'LOCAL',
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_versions_fileId_versionNumber_key" ON "file_versions"("fileId", "versionNumber");
+
+-- CreateIndex
+CREATE INDEX "file_versions_uploadedById_idx" ON "file_versions"("uploadedById");
+
+-- CreateIndex
+CREATE INDEX "file_versions_storageBackend_idx" ON "file_versions"("storageBackend");
+
+-- AddForeignKey
+ALTER TABLE "file_versions" ADD CONSTRAINT "file_versions_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "file_versions" ADD CONSTRAINT "file_versions_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: every existing file becomes version 1 of itself
+INSERT INTO "file_versions" ("id", "fileId", "versionNumber", "filename", "originalName", "mimeType", "fileSize", "filePath", "storageBackend", "uploadedById", "createdAt")
+SELECT 'c' || substr(md5(random()::text || "id"), 1, 24), "id", 1, "filename", "originalName", "mimeType", "fileSize", "filePath", "storageBackend", "uploadedById", "createdAt"
+FROM "files";
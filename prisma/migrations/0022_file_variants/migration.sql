@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "file_variants" (
+    "id" TEXT NOT NULL,
+    "fileVersionId" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileSize" BIGINT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "storageBackend" "StorageBackend" NOT NULL DEFAULT 'LOCAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_variants_fileVersionId_width_key" ON "file_variants"("fileVersionId", "width");
+
+-- AddForeignKey
+ALTER TABLE "file_variants" ADD CONSTRAINT "file_variants_fileVersionId_fkey" FOREIGN KEY ("fileVersionId") REFERENCES "file_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
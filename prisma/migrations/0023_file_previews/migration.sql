@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "file_previews" (
+    "id" TEXT NOT NULL,
+    "fileVersionId" TEXT NOT NULL,
+    "page" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileSize" BIGINT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "storageBackend" "StorageBackend" NOT NULL DEFAULT 'LOCAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_previews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_previews_fileVersionId_page_key" ON "file_previews"("fileVersionId", "page");
+
+-- AddForeignKey
+ALTER TABLE "file_previews" ADD CONSTRAINT "file_previews_fileVersionId_fkey" FOREIGN KEY ("fileVersionId") REFERENCES "file_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "ScanStatus" AS ENUM ('UNSCANNED', 'PENDING', 'CLEAN', 'INFECTED');
+
+-- AlterTable: existing files stay downloadable as UNSCANNED until the file
+-- scanner's backfill gets to them; new uploads start PENDING
+ALTER TABLE "files" ADD COLUMN "scanStatus" "ScanStatus" NOT NULL DEFAULT 'UNSCANNED';
+ALTER TABLE "files" ALTER COLUMN "scanStatus" SET DEFAULT 'PENDING';
+
+-- AlterTable
+ALTER TABLE "file_versions" ADD COLUMN "scanStatus" "ScanStatus" NOT NULL DEFAULT 'UNSCANNED',
+ADD COLUMN "scanSignature" TEXT,
+ADD COLUMN "scannedAt" TIMESTAMP(3),
+ADD COLUMN "scanLockedUntil" TIMESTAMP(3);
+ALTER TABLE "file_versions" ALTER COLUMN "scanStatus" SET DEFAULT 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "file_versions_scanStatus_idx" ON "file_versions"("scanStatus");
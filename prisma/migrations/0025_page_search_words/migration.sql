@@ -0,0 +1,20 @@
+-- Words of live pages for "did you mean" suggestions, so a search without
+-- results does not re-tokenize every page. Refreshed by the app whenever live
+-- content changes (refreshSearchWords() in src/lib/page-search.ts).
+CREATE MATERIALIZED VIEW "page_search_words" AS
+  SELECT word, turkish_fold(word) AS "folded", nentry
+  FROM ts_stat($$
+    SELECT to_tsvector('simple', "title" || ' ' || array_to_string("tags", ' '))
+      || to_tsvector('simple', page_plain_text("content"))
+    FROM "pages"
+    WHERE "published" = true
+      AND ("publishAt" IS NULL OR "publishAt" <= now())
+      AND ("expiresAt" IS NULL OR "expiresAt" > now())
+  $$);
+
+-- CreateIndex: required for REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX "page_search_words_word_key" ON "page_search_words"("word");
+
+-- CreateIndex
+CREATE INDEX "page_search_words_folded_trgm_idx" ON "page_search_words"
+  USING GIN ("folded" gin_trgm_ops);
@@ -45,4 +45,117 @@ CREATE INDEX IF NOT EXISTS "pages_tags_gin_idx" ON "pages" USING GIN ("tags");
 
 -- Partial indexes for better performance on common queries
 CREATE INDEX IF NOT EXISTS "pages_published_true_createdAt_idx" ON "pages"("createdAt") WHERE "published" = true;
-CREATE INDEX IF NOT EXISTS "notifications_unread_userId_idx" ON "notifications"("userId", "createdAt") WHERE "read" = false;
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS "notifications_unread_userId_idx" ON "notifications"("userId", "createdAt") WHERE "read" = false;
+
+-- Full-text search (same as migrations/0006_page_search_vector, for
+-- environments set up with `prisma db push`)
+CREATE OR REPLACE FUNCTION pages_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('turkish', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('turkish', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+    setweight(to_tsvector('turkish',
+      regexp_replace(
+        regexp_replace(coalesce(NEW."content", ''), '<[^>]*>', ' ', 'g'),
+        '&[a-zA-Z0-9#]+;', ' ', 'g'
+      )
+    ), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pages_search_vector_trigger ON "pages";
+CREATE TRIGGER pages_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF "title", "content", "tags" ON "pages"
+  FOR EACH ROW EXECUTE FUNCTION pages_search_vector_update();
+
+UPDATE "pages" SET "title" = "title" WHERE "searchVector" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "pages_searchVector_idx" ON "pages" USING GIN ("searchVector");
+
+
+-- Plain text of page content for search result snippets
+CREATE OR REPLACE FUNCTION page_plain_text(html text) RETURNS text AS $$
+  SELECT btrim(regexp_replace(
+    replace(replace(replace(replace(replace(
+      regexp_replace(
+        regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'),
+        '&(nbsp|#160);|&(?!(amp|lt|gt|quot|#39);)[a-zA-Z0-9#]+;', ' ', 'g'
+      ),
+      '&quot;', '"'), '&#39;', ''''), '&lt;', '<'), '&gt;', '>'), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Diacritic-insensitive, typo-tolerant search (same as
+-- migrations/0008_page_search_fuzzy)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION turkish_fold(input text) RETURNS text AS $$
+  SELECT lower(translate(coalesce(input, ''), 'İIıŞşĞğÜüÖöÇç', 'iiissgguuoocc'))
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION page_search_text(title text, tags text[], content text) RETURNS text AS $$
+  SELECT turkish_fold(coalesce(title, '') || ' ' || coalesce(array_to_string(tags, ' '), '') || ' ' || page_plain_text(content))
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS "pages_search_text_trgm_idx" ON "pages"
+  USING GIN (page_search_text("title", "tags", "content") gin_trgm_ops);
+
+-- Attachment text search (same as migrations/0009_file_contents)
+CREATE OR REPLACE FUNCTION file_contents_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := setweight(to_tsvector('turkish', coalesce(NEW."content", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS file_contents_search_vector_trigger ON "file_contents";
+CREATE TRIGGER file_contents_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF "content" ON "file_contents"
+  FOR EACH ROW EXECUTE FUNCTION file_contents_search_vector_update();
+
+UPDATE "file_contents" SET "content" = "content" WHERE "searchVector" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "file_contents_searchVector_idx" ON "file_contents" USING GIN ("searchVector");
+
+-- Words of live pages for "did you mean" suggestions (same as
+-- migrations/0025_page_search_words)
+CREATE MATERIALIZED VIEW IF NOT EXISTS "page_search_words" AS
+  SELECT word, turkish_fold(word) AS "folded", nentry
+  FROM ts_stat($$
+    SELECT to_tsvector('simple', "title" || ' ' || array_to_string("tags", ' '))
+      || to_tsvector('simple', page_plain_text("content"))
+    FROM "pages"
+    WHERE "published" = true
+      AND ("publishAt" IS NULL OR "publishAt" <= now())
+      AND ("expiresAt" IS NULL OR "expiresAt" > now())
+  $$);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "page_search_words_word_key" ON "page_search_words"("word");
+
+CREATE INDEX IF NOT EXISTS "page_search_words_folded_trgm_idx" ON "page_search_words"
+  USING GIN ("folded" gin_trgm_ops);
+
+-- Read status backfill from PAGE_VIEWED logs (same as
+-- migrations/0011_page_reads). Only runs while page_reads is still empty so
+-- later resets are not undone.
+INSERT INTO "page_reads" ("id", "userId", "pageId", "revisionNumber", "readAt")
+SELECT
+  'c' || substr(md5(random()::text || v."userId" || v."pageId"), 1, 24),
+  v."userId",
+  v."pageId",
+  (
+    SELECT max(r."revisionNumber")
+    FROM "page_revisions" r
+    WHERE r."pageId" = v."pageId" AND r."createdAt" <= v."readAt"
+  ),
+  v."readAt"
+FROM (
+  SELECT l."userId", l."resourceId" AS "pageId", max(l."createdAt") AS "readAt"
+  FROM "activity_logs" l
+  JOIN "pages" p ON p."id" = l."resourceId"
+  WHERE l."action" = 'PAGE_VIEWED' AND l."resourceType" = 'PAGE'
+  GROUP BY l."userId", l."resourceId"
+) v
+WHERE NOT EXISTS (SELECT 1 FROM "page_reads");
@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+
+/**
+ * Extract and index the text of attachments uploaded before text extraction
+ * existed, so their contents show up in search
+ *
+ * Usage:
+ *   npm run search:index-files [-- --reindex]
+ *
+ * Only files without indexed text are processed unless --reindex is given.
+ * Files the malware scanner has not found clean are skipped.
+ * Files that fail stay unindexed; run the command again to retry them.
+ */
+
+import { indexExistingFileContents } from '@/lib/file-text-extraction';
+import { prisma } from '@/lib/prisma';
+
+async function main() {
+  const reindex = process.argv.includes('--reindex');
+
+  console.log(
+    `🔎 Indexing ${reindex ? 'all' : 'unindexed'} attachment contents...`
+  );
+
+  const result = await indexExistingFileContents({
+    reindex,
+    onProgress: (file, outcome, error) => {
+      if (outcome === 'failed') {
+        console.error(`❌ ${file.originalName} (${file.id}):`, error);
+      } else if (outcome === 'skipped') {
+        console.log(`⏭️  ${file.originalName} (${file.id}): no text found`);
+      } else {
+        console.log(`✅ ${file.originalName} (${file.id})`);
+      }
+    },
+  });
+
+  console.log(
+    `\n📊 ${result.indexed} file(s) indexed, ${result.skipped} without text, ${result.failed} failed`
+  );
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('File content indexing failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+
+/**
+ * Move uploaded files between storage backends
+ *
+ * Usage:
+ *   npm run storage:migrate -- --from local --to s3 [--delete-source] [--dry-run]
+ *
+ * The S3 backend is configured with the same S3_* environment variables as
+ * the app. Files that fail to copy stay on the source backend; run the
+ * command again to retry them.
+ */
+
+import { StorageBackend } from '@prisma/client';
+import { migrateFileStorage } from '@/lib/file-storage';
+import { prisma } from '@/lib/prisma';
+
+const BACKENDS: Record<string, StorageBackend> = {
+  local: StorageBackend.LOCAL,
+  s3: StorageBackend.S3,
+};
+
+function getOption(name: string) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const from = BACKENDS[getOption('from')?.toLowerCase() || ''];
+  const to = BACKENDS[getOption('to')?.toLowerCase() || ''];
+  const deleteSource = process.argv.includes('--delete-source');
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (!from || !to) {
+    console.error(
+      'Usage: npm run storage:migrate -- --from <local|s3> --to <local|s3> [--delete-source] [--dry-run]'
+    );
+    process.exit(1);
+  }
+
+  console.log(
+    `📦 Moving files from ${from} to ${to}${dryRun ? ' (dry run)' : ''}...`
+  );
+
+  const result = await migrateFileStorage({
+    from,
+    to,
+    deleteSource,
+    dryRun,
+    onProgress: (file, error) => {
+      if (error) {
+        console.error(
+          `❌ ${file.originalName} v${file.versionNumber} (${file.id}):`,
+          error
+        );
+      } else {
+        console.log(
+          `✅ ${file.originalName} v${file.versionNumber} (${file.id})`
+        );
+      }
+    },
+  });
+
+  console.log(
+    `\n📊 ${result.moved} file version(s) moved, ${result.failed} failed, ${result.dropped} image variant(s) and preview(s) dropped`
+  );
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('File storage migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -7,6 +7,7 @@
 
 import { createPageSchema, updatePageSchema, searchPageSchema } from '../../src/lib/validations'
 import { ContentType } from '@prisma/client'
+import { getInitialStatus, requiresResubmission } from '../../src/lib/page-status'
 
 console.log('🧪 Testing Page Management Functionality...\n')
 
@@ -123,8 +124,8 @@ try {
     console.log('❌ Tag validation failed:', error)
 }
 
-// Test 7: Instant Publishing (No Approval)
-console.log('\n7. Testing Instant Publishing Feature')
+// Test 7: Publishing Workflow
+console.log('\n7. Testing Publishing Workflow')
 try {
     const pageData = {
         title: 'Instant Published Page',
@@ -134,18 +135,49 @@ try {
     }
 
     const result = createPageSchema.parse(pageData)
-    console.log('✅ Instant publishing validation passed')
-    console.log('   Published by default:', result.published)
-    console.log('   No approval workflow required ✓')
+    console.log('✅ Publishing workflow validation passed')
+    console.log('   Announcement initial status:', getInitialStatus(result.pageType, result.status))
+    console.log('   Warning initial status:', getInitialStatus('WARNING', 'PUBLISHED'))
+    console.log('   Warnings and procedures require review ✓')
 } catch (error) {
-    console.log('❌ Instant publishing validation failed:', error)
+    console.log('❌ Publishing workflow validation failed:', error)
+}
+
+// Test 8: Restoring a Revision of a Live Reviewed Page
+console.log('\n8. Testing Revision Restore Review Rules')
+try {
+    const livePage = {
+        title: 'Yangın Prosedürü',
+        content: '<p>Onaylı içerik</p>',
+        pageType: 'PROCEDURE' as ContentType,
+        tags: ['yangın'],
+        status: 'PUBLISHED' as const
+    }
+    const revision = { ...livePage, content: '<p>Eski içerik</p>' }
+
+    if (!requiresResubmission(livePage, revision)) {
+        throw new Error('Restoring other content onto a live procedure must go back to review')
+    }
+    if (requiresResubmission(livePage, { ...livePage })) {
+        throw new Error('Restoring identical content must not go back to review')
+    }
+    if (requiresResubmission({ ...livePage, pageType: 'INFO' }, { ...revision, pageType: 'INFO' })) {
+        throw new Error('Pages that need no review must stay live')
+    }
+    if (requiresResubmission({ ...livePage, status: 'DRAFT' }, revision)) {
+        throw new Error('Drafts must stay drafts')
+    }
+    console.log('✅ Restored content of live warnings and procedures goes back to review')
+} catch (error) {
+    console.log('❌ Revision restore review rules failed:', error)
 }
 
 console.log('\n🎉 Page Management Functionality Tests Completed!')
 console.log('\nKey Features Validated:')
 console.log('• ✅ Page CRUD operations schema validation')
 console.log('• ✅ Page type validation (Bilgi, Prosedür, Duyuru, Uyarı)')
-console.log('• ✅ Instant publishing (no approval workflow)')
+console.log('• ✅ Draft / review / publish workflow')
+console.log('• ✅ Restored revisions of reviewed pages need approval')
 console.log('• ✅ Tag system support')
 console.log('• ✅ Search and filtering capabilities')
 console.log('• ✅ No versioning system (as per requirements)')
\ No newline at end of file
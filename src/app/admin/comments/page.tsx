@@ -0,0 +1,19 @@
+import { PageHeader } from '@/components/layout/page-header';
+import CommentModerationQueue from '@/components/admin/comment-moderation-queue';
+
+export default function CommentModerationPage() {
+  // Access is restricted to ADMIN and SYSTEM_ADMIN by the admin layout
+  return (
+    <>
+      <PageHeader
+        title="Yorum Moderasyonu"
+        description="Bildirilen yorumları inceleyin; gizleyin, geri yükleyin veya silin"
+        breadcrumbs={[
+          { label: 'Yönetim', href: '/admin' },
+          { label: 'Yorum Moderasyonu' },
+        ]}
+      />
+      <CommentModerationQueue />
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import { prisma } from '@/lib/prisma';
+import { PageHeader } from '@/components/layout/page-header';
+import { Badge } from '@/components/ui/badge';
+
+// Disable static generation for this page since it requires database access
+export const dynamic = 'force-dynamic';
+
+const PAGE_TYPE_LABELS = {
+  INFO: 'Bilgi',
+  PROCEDURE: 'Prosedür',
+  ANNOUNCEMENT: 'Duyuru',
+  WARNING: 'Uyarı',
+};
+
+export default async function ReviewQueuePage() {
+  // Access is restricted to ADMIN and SYSTEM_ADMIN by the admin layout
+  const pages = await prisma.page.findMany({
+    where: { status: 'IN_REVIEW' },
+    select: {
+      id: true,
+      title: true,
+      pageType: true,
+      updatedAt: true,
+      author: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+    orderBy: { updatedAt: 'asc' },
+  });
+
+  return (
+    <>
+      <PageHeader
+        title="İnceleme Bekleyenler"
+        description="Yayınlanmadan önce onayınızı bekleyen uyarı ve prosedür sayfaları"
+        breadcrumbs={[
+          { label: 'Yönetim', href: '/admin' },
+          { label: 'İnceleme Bekleyenler' },
+        ]}
+      />
+
+      {pages.length === 0 ? (
+        <div className="bg-card rounded-lg shadow-md p-6 text-muted-foreground">
+          İnceleme bekleyen sayfa bulunmuyor.
+        </div>
+      ) : (
+        <ul className="bg-card rounded-lg shadow-md divide-y divide-border">
+          {pages.map((page) => (
+            <li key={page.id}>
+              <Link
+                href={`/pages/${page.id}`}
+                className="flex items-center justify-between gap-4 p-4 hover:bg-muted transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">
+                    {page.title}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {page.author.name || page.author.email} •{' '}
+                    {page.updatedAt.toLocaleDateString('tr-TR', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                </div>
+                <Badge
+                  label={PAGE_TYPE_LABELS[page.pageType]}
+                  color={page.pageType === 'WARNING' ? 'red' : 'green'}
+                />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
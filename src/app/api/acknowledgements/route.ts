@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { canEditContent } from '@/lib/auth-utils';
+import { listAcknowledgementCampaigns } from '@/lib/acknowledgements';
+
+/**
+ * GET /api/acknowledgements - All acknowledgement campaigns with their
+ * progress, for compliance reporting
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canEditContent(session)) {
+      return NextResponse.json(
+        { error: 'Access denied to view acknowledgement campaigns' },
+        { status: 403 }
+      );
+    }
+
+    const campaigns = await listAcknowledgementCampaigns();
+
+    return NextResponse.json({
+      success: true,
+      data: campaigns,
+    });
+  } catch (error) {
+    console.error('Error fetching acknowledgement campaigns:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { canAccessAdminRoutes } from '@/lib/auth-utils';
+import { moderateComment } from '@/lib/comment-moderation';
+import { commentModerationSchema } from '@/lib/validations';
+import { AppError } from '@/lib/errors';
+
+/**
+ * POST /api/comments/[id]/moderation - Hide, restore or delete a comment
+ * (Admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccessAdminRoutes(session)) {
+      return NextResponse.json(
+        { error: 'Only administrators can moderate comments' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { action } = commentModerationSchema.parse(await request.json());
+
+    await moderateComment(id, action, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Moderation decision applied successfully',
+    });
+  } catch (error) {
+    console.error('Error moderating comment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { reportComment } from '@/lib/comment-moderation';
+import { commentReportSchema } from '@/lib/validations';
+import { AppError } from '@/lib/errors';
+
+/**
+ * POST /api/comments/[id]/report - Report a comment to the moderators
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { reason } = commentReportSchema.parse(await request.json());
+
+    await reportComment(id, session.user.id, reason?.trim() || undefined);
+
+    return NextResponse.json(
+      { success: true, message: 'Comment reported successfully' },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error reporting comment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { setCommentThreadResolved } from '@/lib/comments';
+import { commentResolutionSchema } from '@/lib/validations';
+import { AppError } from '@/lib/errors';
+
+/**
+ * PUT /api/comments/[id]/resolution - Resolve or reopen an inline comment
+ * thread
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { resolved } = commentResolutionSchema.parse(await request.json());
+
+    const comment = await setCommentThreadResolved(id, resolved, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: comment,
+      message: resolved
+        ? 'Comment thread resolved successfully'
+        : 'Comment thread reopened successfully',
+    });
+  } catch (error) {
+    console.error('Error updating comment resolution:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
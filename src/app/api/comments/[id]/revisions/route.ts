@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCommentRevisions } from '@/lib/comments';
+import { isAdmin } from '@/lib/auth-utils';
+import { AppError } from '@/lib/errors';
+
+/**
+ * GET /api/comments/[id]/revisions - Earlier versions of an edited comment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const revisions = await getCommentRevisions(id, isAdmin(session.user.role));
+
+    return NextResponse.json({ success: true, data: revisions });
+  } catch (error) {
+    console.error('Error fetching comment revisions:', error);
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
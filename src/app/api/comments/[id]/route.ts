@@ -3,6 +3,10 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import { notifyMentions } from '@/lib/notification-utils'
+import { extractMentionedUserIds, toPlainCommentText } from '@/lib/comment-utils-client'
+import { maskHiddenComment } from '@/lib/comments'
+import { isAdmin } from '@/lib/auth-utils'
 
 const updateCommentSchema = z.object({
   comment: z.string().min(1, 'Yorum boş olamaz').max(1000, 'Yorum çok uzun')
@@ -65,7 +69,7 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      data: comment
+      data: maskHiddenComment(comment, isAdmin(session.user.role))
     })
 
   } catch (error) {
@@ -143,28 +147,50 @@ export async function PUT(
       )
     }
 
-    // Update the comment
-    const updatedComment = await prisma.comment.update({
-      where: { id },
-      data: {
-        comment: validatedData.comment
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true
+    if (existingComment.hiddenAt && !isAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'This comment has been hidden by a moderator' },
+        { status: 403 }
+      )
+    }
+
+    const textChanged = existingComment.comment !== validatedData.comment
+
+    // Keep the previous text as a revision before overwriting it
+    const updatedComment = await prisma.$transaction(async (tx) => {
+      if (textChanged) {
+        await tx.commentRevision.create({
+          data: {
+            commentId: id,
+            content: existingComment.comment,
+            editedById: session.user.id
           }
+        })
+      }
+
+      return tx.comment.update({
+        where: { id },
+        data: {
+          comment: validatedData.comment,
+          ...(textChanged && { editedAt: new Date() })
         },
-        page: {
-          select: {
-            id: true,
-            title: true
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true
+            }
+          },
+          page: {
+            select: {
+              id: true,
+              title: true
+            }
           }
         }
-      }
+      })
     })
 
     // Log the activity
@@ -177,11 +203,23 @@ export async function PUT(
         details: {
           pageId: updatedComment.page.id,
           pageTitle: updatedComment.page.title,
-          commentPreview: updatedComment.comment.substring(0, 100)
+          commentPreview: toPlainCommentText(updatedComment.comment).substring(0, 100)
         }
       }
     })
 
+    // Only users added to the comment by this edit are notified
+    const previousMentions = extractMentionedUserIds(existingComment.comment)
+    const newMentions = extractMentionedUserIds(updatedComment.comment).filter(
+      id => !previousMentions.includes(id)
+    )
+
+    try {
+      await notifyMentions(updatedComment.page.id, existingComment.userId, newMentions)
+    } catch (error) {
+      console.error('Error sending mention notifications:', error)
+    }
+
     return NextResponse.json({
       success: true,
       data: updatedComment,
@@ -206,7 +244,7 @@ export async function PUT(
 }
 
 /**
- * DELETE /api/comments/[id] - Delete a comment
+ * DELETE /api/comments/[id] - Delete a comment along with its replies
  */
 export async function DELETE(
   request: NextRequest,
@@ -271,7 +309,7 @@ export async function DELETE(
         details: {
           pageId: existingComment.page.id,
           pageTitle: existingComment.page.title,
-          commentPreview: existingComment.comment.substring(0, 100)
+          commentPreview: toPlainCommentText(existingComment.comment).substring(0, 100)
         }
       }
     })
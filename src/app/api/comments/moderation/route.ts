@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { canAccessAdminRoutes } from '@/lib/auth-utils';
+import { getModerationQueue } from '@/lib/comment-moderation';
+
+/**
+ * GET /api/comments/moderation - Reported and hidden comments (Admin only)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canAccessAdminRoutes(session)) {
+      return NextResponse.json(
+        { error: 'Access denied to the moderation queue' },
+        { status: 403 }
+      );
+    }
+
+    const queue = await getModerationQueue();
+
+    return NextResponse.json({ success: true, data: queue });
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,10 +4,21 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { createCommentSchema } from '@/lib/validations';
 import { z } from 'zod';
-import { notifyNewComment } from '@/lib/notification-utils';
+import { notifyMentions, notifyNewComment } from '@/lib/notification-utils';
+import {
+  getAnchoredCommentThreads,
+  getCommentThreads,
+  validateReplyParent,
+} from '@/lib/comments';
+import {
+  extractMentionedUserIds,
+  toPlainCommentText,
+} from '@/lib/comment-utils-client';
+import { AppError } from '@/lib/errors';
+import { isAdmin } from '@/lib/auth-utils';
 
 /**
- * POST /api/comments - Create a new comment
+ * POST /api/comments - Create a new comment or a reply to one
  */
 export async function POST(request: NextRequest) {
   try {
@@ -45,12 +56,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (validatedData.parentId) {
+      await validateReplyParent(page.id, validatedData.parentId);
+    }
+
     // Create the comment
     const comment = await prisma.comment.create({
       data: {
         pageId: validatedData.pageId,
         userId: session.user.id,
+        parentId: validatedData.parentId ?? null,
         comment: validatedData.comment,
+        ...(validatedData.anchor && {
+          anchorQuote: validatedData.anchor.quote,
+          anchorPrefix: validatedData.anchor.prefix,
+          anchorSuffix: validatedData.anchor.suffix,
+          anchorStart: validatedData.anchor.start,
+        }),
       },
       include: {
         user: {
@@ -81,7 +103,8 @@ export async function POST(request: NextRequest) {
         details: {
           pageId: page.id,
           pageTitle: page.title,
-          commentPreview: comment.comment.substring(0, 100),
+          commentPreview: toPlainCommentText(comment.comment).substring(0, 100),
+          ...(comment.parentId && { parentId: comment.parentId }),
         },
       },
     });
@@ -94,6 +117,16 @@ export async function POST(request: NextRequest) {
       // Don't fail the request if notifications fail
     }
 
+    try {
+      await notifyMentions(
+        page.id,
+        session.user.id,
+        extractMentionedUserIds(comment.comment)
+      );
+    } catch (error) {
+      console.error('Error sending mention notifications:', error);
+    }
+
     return NextResponse.json(
       {
         success: true,
@@ -112,6 +145,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -120,7 +160,8 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/comments - Get comments with pagination
+ * GET /api/comments - Get top-level comments with pagination, each with its
+ * replies nested. With anchored=true, every inline thread of the page instead.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -162,37 +203,32 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (searchParams.get('anchored') === 'true') {
+      const threads = await getAnchoredCommentThreads(
+        pageId,
+        isAdmin(session.user.role)
+      );
+
+      return NextResponse.json({ success: true, data: threads });
+    }
+
     // Calculate pagination
     const skip = (page - 1) * limit;
 
-    // Get total count for pagination
-    const total = await prisma.comment.count({
-      where: { pageId },
-    });
-
-    // Fetch comments with user information
-    const comments = await prisma.comment.findMany({
-      where: { pageId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
-    });
+    // Pagination counts top-level comments, replies come with their thread.
+    // Moderators still see the text of hidden comments.
+    const { threads, total, totalComments } = await getCommentThreads(
+      pageId,
+      { skip, take: limit },
+      isAdmin(session.user.role)
+    );
 
     const totalPages = Math.ceil(total / limit);
 
     return NextResponse.json({
       success: true,
-      data: comments,
+      data: threads,
+      totalComments,
       pagination: {
         page,
         limit,
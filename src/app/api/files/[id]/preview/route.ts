@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getFileVersion, getLatestFileVersion } from '@/lib/file-versions'
+import { getFilePreview, getPdfPagePreview } from '@/lib/file-previews'
+import { getStorageDriver } from '@/lib/file-storage'
+import { serveFileWithCache } from '@/lib/file-cache'
+import { getDownloadBlock } from '@/lib/file-scanning'
+
+/**
+ * GET /api/files/[id]/preview - Preview of the latest version, or of
+ * ?version=N. With ?page=N returns that page of a PDF as PNG.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: fileId } = await params
+    const { searchParams } = new URL(request.url)
+    const versionParam = searchParams.get('version')
+    const pageParam = searchParams.get('page')
+
+    const version = versionParam
+      ? await getFileVersion(fileId, parseInt(versionParam, 10) || 0)
+      : await getLatestFileVersion(fileId)
+
+    if (!version) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    // Previews are converted from the file, so it must be scanned clean first
+    const block = getDownloadBlock(version.scanStatus)
+
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: block.error },
+        { status: block.status }
+      )
+    }
+
+    const preview = await getFilePreview(version)
+
+    if (!preview) {
+      return NextResponse.json(
+        { success: false, error: 'Preview not available for this file type' },
+        { status: 415 }
+      )
+    }
+
+    if (!pageParam) {
+      return NextResponse.json({ success: true, data: preview })
+    }
+
+    const page = Number(pageParam)
+
+    if (
+      preview.kind !== 'pdf' ||
+      !Number.isInteger(page) ||
+      page < 1 ||
+      page > preview.pageCount
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const image = await getPdfPagePreview(version, page)
+    const response = await serveFileWithCache(
+      request,
+      getStorageDriver(image.storageBackend),
+      image.filePath,
+      image.mimeType,
+      `${page}.png`
+    )
+
+    // Pages of the latest version change when a new version is uploaded
+    if (!versionParam) {
+      response.headers.set('Cache-Control', 'private, no-cache')
+      response.headers.delete('Expires')
+    }
+
+    return response
+
+  } catch (error) {
+    console.error('File preview error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
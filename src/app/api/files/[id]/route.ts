@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { 
-  fileExists, 
-  deleteFileFromDisk 
-} from '@/lib/file-utils'
+import { getStorageDriver } from '@/lib/file-storage'
 import { serveFileWithCache } from '@/lib/file-cache'
+import { getFileVersion, getLatestFileVersion } from '@/lib/file-versions'
+import {
+  getImageVariant,
+  isResizableImage,
+  resolveVariantWidth
+} from '@/lib/file-variants'
+import { getDownloadBlock } from '@/lib/file-scanning'
+import { ScanStatus, StorageBackend } from '@prisma/client'
 
 export async function GET(
   request: NextRequest,
@@ -33,6 +38,8 @@ export async function GET(
         originalName: true,
         mimeType: true,
         filePath: true,
+        storageBackend: true,
+        scanStatus: true,
         uploadedBy: {
           select: {
             id: true,
@@ -50,27 +57,125 @@ export async function GET(
       )
     }
 
-    // Check if file exists on disk
-    if (!fileExists(file.filePath)) {
+    const { searchParams } = new URL(request.url)
+    const versionParam = searchParams.get('version')
+
+    // The latest version is served unless an earlier one is asked for
+    let contents: {
+      originalName: string
+      mimeType: string | null
+      filePath: string
+      storageBackend: StorageBackend
+      scanStatus: ScanStatus
+    } = file
+
+    if (versionParam) {
+      const versionNumber = Number(versionParam)
+      const version = Number.isInteger(versionNumber)
+        ? await getFileVersion(fileId, versionNumber)
+        : null
+
+      if (!version) {
+        return NextResponse.json(
+          { success: false, error: 'File version not found' },
+          { status: 404 }
+        )
+      }
+
+      contents = version
+    }
+
+    // Nothing is served until the malware scan finds it clean
+    const block = getDownloadBlock(contents.scanStatus)
+
+    if (block) {
       return NextResponse.json(
-        { success: false, error: 'Dosya disk üzerinde bulunamadı' },
+        { success: false, error: block.error },
+        { status: block.status }
+      )
+    }
+
+    // Images are resized to the nearest variant width when ?w= is given
+    const widthParam = searchParams.get('w')
+
+    if (widthParam && isResizableImage(contents.mimeType)) {
+      const width = Number(widthParam)
+
+      if (!Number.isInteger(width) || width <= 0) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid width' },
+          { status: 400 }
+        )
+      }
+
+      const version = versionParam
+        ? await getFileVersion(fileId, Number(versionParam))
+        : await getLatestFileVersion(fileId)
+
+      if (!version) {
+        return NextResponse.json(
+          { success: false, error: 'File version not found' },
+          { status: 404 }
+        )
+      }
+
+      const variant = await getImageVariant(version, resolveVariantWidth(width))
+
+      contents = {
+        originalName: `${contents.originalName.replace(/\.[^.]+$/, '')}-${variant.width}w.webp`,
+        mimeType: variant.mimeType,
+        filePath: variant.filePath,
+        storageBackend: variant.storageBackend,
+        scanStatus: contents.scanStatus
+      }
+    }
+
+    const storage = getStorageDriver(contents.storageBackend)
+
+    // Check if file exists in storage
+    if (!(await storage.stat(contents.filePath))) {
+      return NextResponse.json(
+        { success: false, error: 'Dosya depolama alanında bulunamadı' },
         { status: 404 }
       )
     }
 
     // Check if download is requested
-    const { searchParams } = new URL(request.url)
     const download = searchParams.get('download') === 'true'
+    const mimeType = contents.mimeType || 'application/octet-stream'
+
+    // Let the browser fetch straight from object storage when it can
+    const downloadUrl = await storage.getDownloadUrl(contents.filePath, {
+      fileName: contents.originalName,
+      contentType: mimeType,
+      download
+    })
+
+    if (downloadUrl) {
+      const response = NextResponse.redirect(downloadUrl, 302)
+      response.headers.set('Cache-Control', 'private, no-store')
+      return response
+    }
 
     // Use optimized file serving with caching
-    return serveFileWithCache(
+    const response = await serveFileWithCache(
       request,
-      file.filePath,
-      file.mimeType || 'application/octet-stream',
-      file.originalName,
+      storage,
+      contents.filePath,
+      mimeType,
+      contents.originalName,
       download
     )
 
+    // A numbered version never changes, but the latest one does when a new
+    // version is uploaded, so browsers must revalidate it
+    if (!versionParam) {
+      response.headers.set('Cache-Control', 'private, no-cache')
+      response.headers.delete('Expires')
+    }
+
+    return response
+
   } catch (error) {
     console.error('File serve error:', error)
     return NextResponse.json(
@@ -102,6 +207,7 @@ export async function DELETE(
       select: {
         id: true,
         filePath: true,
+        storageBackend: true,
         uploadedById: true,
       }
     })
@@ -129,17 +235,41 @@ export async function DELETE(
       )
     }
 
-    // Delete file from database
+    // Every version, resized image variant and preview has its own stored
+    // contents
+    const versions = await prisma.fileVersion.findMany({
+      where: { fileId },
+      select: { filePath: true, storageBackend: true }
+    })
+    const variants = await prisma.fileVariant.findMany({
+      where: { fileVersion: { fileId } },
+      select: { filePath: true, storageBackend: true }
+    })
+    const previews = await prisma.filePreview.findMany({
+      where: { fileVersion: { fileId } },
+      select: { filePath: true, storageBackend: true }
+    })
+
+    // Delete file from database, versions are removed with it
     await prisma.file.delete({
       where: { id: fileId }
     })
 
-    // Delete file from disk
-    try {
-      await deleteFileFromDisk(file.filePath)
-    } catch (diskError) {
-      console.error('Error deleting file from disk:', diskError)
-      // Continue even if disk deletion fails - database record is already deleted
+    // Delete file from storage
+    const stored = new Map(
+      [file, ...versions, ...variants, ...previews].map(v => [
+        `${v.storageBackend}:${v.filePath}`,
+        v
+      ])
+    )
+
+    for (const { filePath, storageBackend } of stored.values()) {
+      try {
+        await getStorageDriver(storageBackend).delete(filePath)
+      } catch (storageError) {
+        console.error('Error deleting file from storage:', storageError)
+        // Continue even if storage deletion fails - database record is already deleted
+      }
     }
 
     // Log the activity
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  validateFileType,
+  validateFileSize,
+  generateUniqueFilename
+} from '@/lib/file-utils'
+import { getStorageDriver } from '@/lib/file-storage'
+import { addFileVersion, getFileVersions } from '@/lib/file-versions'
+import { queueFileScan } from '@/lib/file-scanning'
+
+/**
+ * GET /api/files/[id]/versions - List every uploaded version of a file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: fileId } = await params
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true }
+    })
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = await getFileVersions(fileId)
+
+    return NextResponse.json({
+      success: true,
+      data: versions.map(version => ({
+        ...version,
+        fileSize: Number(version.fileSize) // Convert BigInt to number for JSON
+      }))
+    })
+
+  } catch (error) {
+    console.error('File versions fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/files/[id]/versions - Upload a new version of a file. The file
+ * keeps its id, so existing links serve the new version.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Same rule as uploading - only editors and above can replace files
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true }
+    })
+
+    if (!user || !['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'].includes(user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { id: fileId } = await params
+
+    const existing = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, uploadedById: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    // Same rule as deleting - only the file owner or admins can replace it
+    const canReplace = existing.uploadedById === session.user.id ||
+                      ['ADMIN', 'SYSTEM_ADMIN'].includes(user.role)
+
+    if (!canReplace) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    // Validate file name
+    if (!file.name || file.name.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'Geçersiz dosya adı.' },
+        { status: 400 }
+      )
+    }
+
+    // Validate file type and extension
+    const typeValidation = validateFileType(file)
+    if (!typeValidation.isValid) {
+      return NextResponse.json(
+        { success: false, error: typeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Validate file size
+    const sizeValidation = validateFileSize(file)
+    if (!sizeValidation.isValid) {
+      return NextResponse.json(
+        { success: false, error: sizeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Earlier versions stay where they are, so store under a new name
+    const filename = generateUniqueFilename(file.name)
+    const storage = getStorageDriver()
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const filePath = await storage.put(filename, buffer, file.type)
+
+    const version = await addFileVersion(
+      fileId,
+      {
+        filename,
+        originalName: file.name,
+        mimeType: file.type,
+        fileSize: BigInt(file.size),
+        filePath,
+        storageBackend: storage.backend,
+      },
+      session.user.id
+    )
+
+    // Search covers the latest version only; the new version's text is
+    // indexed once the scan finds it clean
+    await prisma.fileContent.deleteMany({ where: { fileId } })
+
+    // Downloads are blocked until the scan finds the new version clean
+    queueFileScan(version.id)
+
+    await prisma.activityLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'UPLOAD_FILE_VERSION',
+        resourceType: 'File',
+        resourceId: fileId,
+        details: {
+          versionNumber: version.versionNumber,
+          originalName: file.name
+        }
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: fileId,
+        versionNumber: version.versionNumber,
+        originalName: version.originalName,
+        mimeType: version.mimeType,
+        fileSize: Number(version.fileSize), // Convert BigInt to number for JSON
+        createdAt: version.createdAt,
+        scanStatus: version.scanStatus
+      },
+      message: 'New file version uploaded successfully'
+    })
+
+  } catch (error) {
+    console.error('File version upload error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,15 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { writeFile, mkdir } from 'fs/promises'
-import { existsSync } from 'fs'
 import { 
-  UPLOAD_DIR, 
   validateFileType, 
   validateFileSize, 
-  generateUniqueFilename, 
-  getFilePath 
+  generateUniqueFilename
 } from '@/lib/file-utils'
+import { getStorageDriver } from '@/lib/file-storage'
+import { createFileVersion } from '@/lib/file-versions'
+import { queueFileScan } from '@/lib/file-scanning'
 
 export async function POST(request: NextRequest) {
   try {
@@ -72,44 +71,48 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create upload directory if it doesn't exist
-    if (!existsSync(UPLOAD_DIR)) {
-      await mkdir(UPLOAD_DIR, { recursive: true })
-    }
-
-    // Generate unique filename and path
+    // Generate unique filename
     const filename = generateUniqueFilename(file.name)
-    const filePath = getFilePath(filename)
 
-    // Save file to disk
+    // Save file to the configured storage backend
+    const storage = getStorageDriver()
     const bytes = await file.arrayBuffer()
     const buffer = Buffer.from(bytes)
-    await writeFile(filePath, buffer)
+    const filePath = await storage.put(filename, buffer, file.type)
 
-    // Save file metadata to database
-    const fileRecord = await prisma.file.create({
-      data: {
-        filename,
-        originalName: file.name,
-        mimeType: file.type,
-        fileSize: BigInt(file.size),
-        filePath,
-        uploadedById: session.user.id,
-      },
-      select: {
-        id: true,
-        filename: true,
-        originalName: true,
-        mimeType: true,
-        fileSize: true,
-        createdAt: true,
+    // Save file metadata to database along with its first version
+    const { fileRecord, version } = await prisma.$transaction(async (tx) => {
+      const created = await tx.file.create({
+        data: {
+          filename,
+          originalName: file.name,
+          mimeType: file.type,
+          fileSize: BigInt(file.size),
+          filePath,
+          storageBackend: storage.backend,
+          uploadedById: session.user.id,
+        }
+      })
+
+      return {
+        fileRecord: created,
+        version: await createFileVersion(tx, created, session.user.id)
       }
     })
 
+    // Downloads are blocked until the scan finds the file clean, which also
+    // makes PDF/DOCX/XLSX contents searchable
+    queueFileScan(version.id)
+
     return NextResponse.json({
       success: true,
       data: {
-        ...fileRecord,
+        id: fileRecord.id,
+        filename: fileRecord.filename,
+        originalName: fileRecord.originalName,
+        mimeType: fileRecord.mimeType,
+        createdAt: fileRecord.createdAt,
+        scanStatus: fileRecord.scanStatus,
         fileSize: Number(fileRecord.fileSize), // Convert BigInt to number for JSON
       }
     })
@@ -17,6 +17,7 @@ export async function PUT() {
     const result = await prisma.notification.updateMany({
       where: {
         userId: session.user.id,
+        inApp: true,
         read: false,
       },
       data: {
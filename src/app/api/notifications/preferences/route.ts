@@ -3,10 +3,35 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getUserNotificationPreferences, updateNotificationPreferences } from '@/lib/notification-utils';
 import { z } from 'zod';
+import { NOTIFICATION_CATEGORY_TYPES } from '@/lib/notification-utils-client';
 
-const updatePreferencesSchema = z.object({
-  inAppNotifications: z.boolean(),
-});
+const minuteOfDaySchema = z.number().int().min(0).max(24 * 60 - 1);
+const categoryTypesSchema = z.array(
+  z
+    .string()
+    .refine((type) => NOTIFICATION_CATEGORY_TYPES.includes(type), {
+      message: 'Unknown notification type',
+    })
+);
+
+const updatePreferencesSchema = z
+  .object({
+    inAppNotifications: z.boolean(),
+    emailFrequency: z.enum(['OFF', 'IMMEDIATE', 'DAILY', 'WEEKLY']).optional(),
+    mutedInAppTypes: categoryTypesSchema.optional(),
+    mutedEmailTypes: categoryTypesSchema.optional(),
+    quietHoursStart: minuteOfDaySchema.nullable().optional(),
+    quietHoursEnd: minuteOfDaySchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      (data.quietHoursStart === null || data.quietHoursStart === undefined) ===
+      (data.quietHoursEnd === null || data.quietHoursEnd === undefined),
+    {
+      message: 'Quiet hours need both a start and an end time',
+      path: ['quietHoursEnd'],
+    }
+  );
 
 // GET /api/notifications/preferences - Get user's notification preferences
 export async function GET() {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { createAndSendNotification } from '@/lib/notification-utils';
 import { z } from 'zod';
 import { ApiResponse, CreateNotificationRequest } from '@/types';
 
@@ -39,6 +40,7 @@ export async function GET(request: NextRequest) {
 
     const where = {
       userId: session.user.id,
+      inApp: true,
       ...(params.unreadOnly && { read: false }),
     };
 
@@ -100,9 +102,8 @@ export async function POST(request: NextRequest) {
     const body: CreateNotificationRequest = await request.json();
     const validatedData = createNotificationSchema.parse(body);
 
-    const notification = await prisma.notification.create({
-      data: validatedData,
-    });
+    // Goes through the recipient's preferences, so it may not be stored
+    const notification = await createAndSendNotification(validatedData);
 
     return NextResponse.json({
       success: true,
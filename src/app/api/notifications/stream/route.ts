@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { registerConnection, unregisterConnection } from '@/lib/notification-stream';
+import {
+  registerConnection,
+  replayMissedNotifications,
+  unregisterConnection,
+} from '@/lib/notification-stream';
 
 
-// GET /api/notifications/stream - Server-Sent Events for real-time notifications
+// GET /api/notifications/stream - Server-Sent Events for real-time notifications.
+// Each tab gets its own stream. Reconnecting browsers send Last-Event-ID and
+// receive the notifications they missed.
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -16,30 +22,42 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = session.user.id;
+    const lastEventId = request.headers.get('last-event-id');
+    let streamController: ReadableStreamDefaultController | null = null;
 
     // Create a readable stream for SSE
     const stream = new ReadableStream({
-      start(controller) {
+      async start(controller) {
+        streamController = controller;
+
         // Store the connection
-        registerConnection(userId, controller);
+        await registerConnection(userId, controller);
 
         // Send initial connection message
         controller.enqueue(`data: ${JSON.stringify({ type: 'connected', message: 'Connected to notifications' })}\n\n`);
 
+        if (lastEventId) {
+          try {
+            await replayMissedNotifications(userId, controller, lastEventId);
+          } catch (error) {
+            console.error('Error replaying missed notifications:', error);
+          }
+        }
+
         // Set up heartbeat to keep connection alive
         const heartbeat = setInterval(() => {
           try {
             controller.enqueue(`data: ${JSON.stringify({ type: 'heartbeat', timestamp: Date.now() })}\n\n`);
           } catch {
             clearInterval(heartbeat);
-            unregisterConnection(userId);
+            unregisterConnection(userId, controller);
           }
         }, 30000); // Send heartbeat every 30 seconds
 
         // Clean up on close
         request.signal.addEventListener('abort', () => {
           clearInterval(heartbeat);
-          unregisterConnection(userId);
+          unregisterConnection(userId, controller);
           try {
             controller.close();
           } catch {
@@ -48,7 +66,9 @@ export async function GET(request: NextRequest) {
         });
       },
       cancel() {
-        unregisterConnection(userId);
+        if (streamController) {
+          unregisterConnection(userId, streamController);
+        }
       },
     });
 
@@ -17,6 +17,7 @@ export async function GET() {
     const count = await prisma.notification.count({
       where: {
         userId: session.user.id,
+        inApp: true,
         read: false,
       },
     });
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unsubscribeFromEmails } from '@/lib/notification-email';
+import { AppError } from '@/lib/errors';
+
+/**
+ * POST /api/notifications/unsubscribe?token=... - Unsubscribe from
+ * notification emails, from the confirm button on /unsubscribe or as an
+ * RFC 8058 one-click unsubscribe (List-Unsubscribe-Post). No session needed,
+ * the token identifies the user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || '';
+
+    await unsubscribeFromEmails(token);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Unsubscribed from notification emails',
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error unsubscribing from notification emails:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { acknowledgePage } from '@/lib/acknowledgements';
+import { markPageRead } from '@/lib/page-reads';
+import { AppError } from '@/lib/errors';
+
+/**
+ * POST /api/pages/[id]/acknowledgement/confirm - "Okudum, anladım" for the
+ * current revision of the page
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const acknowledgement = await acknowledgePage(id, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    // Confirming a page also counts as reading it
+    await markPageRead(session.user.id, id);
+
+    return NextResponse.json({
+      success: true,
+      data: acknowledgement,
+      message: 'Page acknowledged successfully',
+    });
+  } catch (error) {
+    console.error('Error acknowledging page:', error);
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
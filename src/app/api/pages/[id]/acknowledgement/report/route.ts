@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  buildComplianceCsv,
+  getComplianceReport,
+} from '@/lib/acknowledgements';
+import { AppError } from '@/lib/errors';
+
+/**
+ * GET /api/pages/[id]/acknowledgement/report - Who acknowledged the page,
+ * who is pending and who is overdue. `?format=csv` downloads it as CSV.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const report = await getComplianceReport(id, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const date = new Date().toISOString().slice(0, 10);
+
+      return new NextResponse(buildComplianceCsv(report.entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="okuma-onayi-${id}-${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error fetching compliance report:', error);
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
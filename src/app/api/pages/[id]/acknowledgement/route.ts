@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { acknowledgementCampaignSchema } from '@/lib/validations';
+import {
+  getAudienceWhere,
+  getPageAcknowledgement,
+  removeAcknowledgementCampaign,
+  setAcknowledgementCampaign,
+} from '@/lib/acknowledgements';
+import { notifyAcknowledgementRequested } from '@/lib/notification-utils';
+import { AppError } from '@/lib/errors';
+
+/**
+ * GET /api/pages/[id]/acknowledgement - The page's acknowledgement campaign
+ * and the current user's confirmation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const campaign = await getPageAcknowledgement(id, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: campaign,
+    });
+  } catch (error) {
+    console.error('Error fetching acknowledgement campaign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/pages/[id]/acknowledgement - Require acknowledgement of the page
+ * by a deadline, or change the deadline and audience
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = acknowledgementCampaignSchema.parse(body);
+
+    const { campaign, previous } = await setAcknowledgementCampaign(id, data, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    // Only users who were not already asked are notified
+    try {
+      await notifyAcknowledgementRequested(
+        id,
+        previous ? getAudienceWhere(previous) : undefined
+      );
+    } catch (error) {
+      console.error('Error sending acknowledgement notifications:', error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: campaign,
+      message: 'Acknowledgement campaign saved successfully',
+    });
+  } catch (error) {
+    console.error('Error saving acknowledgement campaign:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/pages/[id]/acknowledgement - Stop requiring acknowledgement,
+ * including the confirmations collected so far
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    await removeAcknowledgementCampaign(id, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Acknowledgement campaign removed successfully',
+    });
+  } catch (error) {
+    console.error('Error removing acknowledgement campaign:', error);
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma';
 import { ActivityLogger, ActivityAction, ResourceType } from '@/lib/activity-logger';
 import { ApiResponse } from '@/types';
 import { canAccessUnreadPages } from '@/lib/auth-utils';
+import { markPageRead } from '@/lib/page-reads';
 
 export async function POST(
   request: NextRequest,
@@ -44,17 +45,9 @@ export async function POST(
       );
     }
 
-    // Check if the user has already viewed this page
-    const existingView = await prisma.activityLog.findFirst({
-      where: {
-        userId: userId,
-        action: 'PAGE_VIEWED',
-        resourceType: 'PAGE',
-        resourceId: pageId,
-      },
-    });
+    const firstRead = await markPageRead(userId, pageId);
 
-    if (!existingView) {
+    if (firstRead) {
       // Log the page view activity
       await ActivityLogger.log({
         userId,
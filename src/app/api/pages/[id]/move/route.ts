@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { movePageSchema } from '@/lib/validations';
+import { movePage } from '@/lib/page-tree';
+import { AppError } from '@/lib/errors';
+
+/**
+ * POST /api/pages/[id]/move - Reparent a page and/or change its position
+ * among its siblings
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { parentId, position } = movePageSchema.parse(body);
+
+    const page = await movePage({
+      pageId: id,
+      parentId,
+      position,
+      user: { id: session.user.id, role: session.user.role },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      message: 'Page moved successfully',
+    });
+  } catch (error) {
+    console.error('Error moving page:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  notifyPageUpdate,
+  notifyReviewRequested,
+} from '@/lib/notification-utils';
+import {
+  ActivityLogger,
+  ActivityAction,
+  ResourceType,
+} from '@/lib/activity-logger';
+import { CacheInvalidation } from '@/lib/cache';
+import { queueSearchWordsRefresh } from '@/lib/page-search';
+import { createPageRevision, getPageRevision } from '@/lib/page-revisions';
+import { isPageLive, requiresResubmission } from '@/lib/page-status';
+
+/**
+ * POST /api/pages/[id]/revisions/[revisionId]/restore - Restore a page to an earlier revision
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id, revisionId } = await params;
+
+    const existingPage = await prisma.page.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        authorId: true,
+        title: true,
+        content: true,
+        pageType: true,
+        tags: true,
+        status: true,
+        published: true,
+        publishAt: true,
+        expiresAt: true,
+      },
+    });
+
+    if (!existingPage) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    // Same rule as PUT /api/pages/[id]
+    const canEdit =
+      existingPage.authorId === session.user.id ||
+      ['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'].includes(session.user.role);
+
+    if (!canEdit) {
+      return NextResponse.json(
+        {
+          error: 'You do not have permission to edit this page.',
+        },
+        { status: 403 }
+      );
+    }
+
+    const revision = await getPageRevision(id, revisionId);
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    // Same rule as PUT /api/pages/[id]: restored content of a live reviewed
+    // page must be approved again before readers see it
+    const resubmitted = requiresResubmission(existingPage, revision);
+    const status = resubmitted ? 'IN_REVIEW' : existingPage.status;
+
+    // Restoring is a regular save, so it produces a new revision on top
+    const { page: restoredPage, revision: newRevision } =
+      await prisma.$transaction(async (tx) => {
+        const page = await tx.page.update({
+          where: { id },
+          data: {
+            title: revision.title,
+            content: revision.content,
+            pageType: revision.pageType,
+            tags: revision.tags,
+            status,
+            published: isPageLive({ ...existingPage, status }),
+            // A fresh submission clears the previous review outcome
+            ...(resubmitted && {
+              reviewedById: null,
+              reviewedAt: null,
+              reviewComment: null,
+            }),
+            updatedAt: new Date(),
+          },
+        });
+
+        const created = await createPageRevision(
+          tx,
+          page,
+          session.user.id,
+          revision.id
+        );
+
+        return { page, revision: created };
+      });
+
+    CacheInvalidation.page(id);
+    CacheInvalidation.search();
+    CacheInvalidation.stats();
+
+    if (existingPage.published || restoredPage.published) {
+      queueSearchWordsRefresh();
+    }
+
+    await ActivityLogger.log({
+      userId: session.user.id,
+      action: ActivityAction.PAGE_REVISION_RESTORED,
+      resourceType: ResourceType.PAGE,
+      resourceId: id,
+      details: {
+        title: restoredPage.title,
+        pageType: restoredPage.pageType,
+        restoredRevisionId: revision.id,
+        restoredRevisionNumber: revision.revisionNumber,
+        newRevisionNumber: newRevision.revisionNumber,
+        ...(resubmitted && {
+          fromStatus: existingPage.status,
+          toStatus: status,
+        }),
+      },
+    });
+
+    try {
+      if (resubmitted) {
+        await notifyReviewRequested(id, session.user.id);
+      } else {
+        await notifyPageUpdate(id, session.user.id);
+      }
+    } catch (error) {
+      console.error('Error sending update notifications:', error);
+      // Don't fail the request if notifications fail
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: restoredPage,
+      message: 'Page restored successfully',
+    });
+  } catch (error) {
+    console.error('Error restoring page revision:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canViewPublishedPages } from '@/lib/auth-utils';
+import { getPageRevision } from '@/lib/page-revisions';
+
+/**
+ * GET /api/pages/[id]/revisions/[revisionId] - Get a single revision with content
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canViewPublishedPages(session)) {
+      return NextResponse.json(
+        { error: 'Access denied to view pages' },
+        { status: 403 }
+      );
+    }
+
+    const { id, revisionId } = await params;
+
+    const page = await prisma.page.findUnique({
+      where: { id },
+      select: { id: true, authorId: true, published: true },
+    });
+
+    if (
+      !page ||
+      (!page.published &&
+        page.authorId !== session.user.id &&
+        !['ADMIN', 'SYSTEM_ADMIN'].includes(session.user.role))
+    ) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const revision = await getPageRevision(id, revisionId);
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    console.error('Error fetching page revision:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
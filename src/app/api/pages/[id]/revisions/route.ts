@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canViewPublishedPages } from '@/lib/auth-utils';
+import { getPageRevisions } from '@/lib/page-revisions';
+
+/**
+ * GET /api/pages/[id]/revisions - List the revision history of a page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canViewPublishedPages(session)) {
+      return NextResponse.json(
+        { error: 'Access denied to view pages' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    const page = await prisma.page.findUnique({
+      where: { id },
+      select: { id: true, authorId: true, published: true },
+    });
+
+    // Revisions of unpublished pages follow the same visibility as the page
+    if (
+      !page ||
+      (!page.published &&
+        page.authorId !== session.user.id &&
+        !['ADMIN', 'SYSTEM_ADMIN'].includes(session.user.role))
+    ) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const revisions = await getPageRevisions(id);
+
+    return NextResponse.json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    console.error('Error fetching page revisions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
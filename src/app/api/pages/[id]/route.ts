@@ -4,7 +4,11 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { updatePageSchema } from '@/lib/validations';
 import { z } from 'zod';
-import { notifyPageUpdate } from '@/lib/notification-utils';
+import {
+  notifyPagePublished,
+  notifyPageUpdate,
+  notifyReviewRequested,
+} from '@/lib/notification-utils';
 import {
   ActivityLogger,
   ActivityAction,
@@ -12,6 +16,15 @@ import {
 } from '@/lib/activity-logger';
 import { PageQueries } from '@/lib/query-optimizer';
 import { CacheInvalidation } from '@/lib/cache';
+import { queueSearchWordsRefresh } from '@/lib/page-search';
+import { createPageRevision } from '@/lib/page-revisions';
+import {
+  isPageLive,
+  isValidSchedule,
+  requiresResubmission,
+} from '@/lib/page-status';
+import { promoteChildPages } from '@/lib/page-tree';
+import { markPageRead, markPageReadsStale } from '@/lib/page-reads';
 import { canAccessPagesManagement, canViewPublishedPages } from '@/lib/auth-utils';
 
 /**
@@ -74,6 +87,7 @@ export async function GET(
         isAuthor: page.authorId === session.user.id,
       },
     });
+    await markPageRead(session.user.id, page.id);
 
     return NextResponse.json({
       success: true,
@@ -119,7 +133,13 @@ export async function PUT(
         id: true,
         authorId: true,
         title: true,
+        content: true,
         pageType: true,
+        tags: true,
+        status: true,
+        published: true,
+        publishAt: true,
+        expiresAt: true,
       },
     });
 
@@ -146,6 +166,29 @@ export async function PUT(
     // Validate request body
     const validatedData = updatePageSchema.parse(body);
 
+    const schedule = {
+      publishAt:
+        validatedData.publishAt !== undefined
+          ? validatedData.publishAt
+          : existingPage.publishAt,
+      expiresAt:
+        validatedData.expiresAt !== undefined
+          ? validatedData.expiresAt
+          : existingPage.expiresAt,
+    };
+
+    if (!isValidSchedule(schedule.publishAt, schedule.expiresAt)) {
+      return NextResponse.json(
+        { error: 'Expiry date must be later than the publish date' },
+        { status: 400 }
+      );
+    }
+
+    // Live pages of reviewed types go back to review when their content
+    // changes, so edits never reach readers without approval
+    const resubmitted = requiresResubmission(existingPage, validatedData);
+    const status = resubmitted ? 'IN_REVIEW' : existingPage.status;
+
     // Validate file IDs if provided
     if (validatedData.fileIds && validatedData.fileIds.length > 0) {
       const existingFiles = await prisma.file.findMany({
@@ -185,47 +228,64 @@ export async function PUT(
       }
     }
 
-    // Update page (no versioning as per requirements)
-    const updatedPage = await prisma.page.update({
-      where: { id },
-      data: {
-        ...(validatedData.title && { title: validatedData.title }),
-        ...(validatedData.content !== undefined && {
-          content: validatedData.content,
-        }),
-        ...(validatedData.pageType && { pageType: validatedData.pageType }),
-        ...(validatedData.tags && { tags: validatedData.tags }),
-        ...(validatedData.published !== undefined && {
-          published: validatedData.published,
-        }),
-        updatedAt: new Date(),
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
+    // Update page and snapshot the saved state as a new revision
+    const updatedPage = await prisma.$transaction(async (tx) => {
+      const page = await tx.page.update({
+        where: { id },
+        data: {
+          ...(validatedData.title && { title: validatedData.title }),
+          ...(validatedData.content !== undefined && {
+            content: validatedData.content,
+          }),
+          ...(validatedData.pageType && { pageType: validatedData.pageType }),
+          ...(validatedData.tags && { tags: validatedData.tags }),
+          ...schedule,
+          status,
+          published: isPageLive({ status, ...schedule }),
+          // A fresh submission clears the previous review outcome
+          ...(resubmitted && {
+            reviewedById: null,
+            reviewedAt: null,
+            reviewComment: null,
+          }),
+          updatedAt: new Date(),
         },
-        files: {
-          select: {
-            id: true,
-            filename: true,
-            originalName: true,
-            mimeType: true,
-            fileSize: true,
-            createdAt: true,
+        include: {
+          author: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            },
           },
-        },
-        _count: {
-          select: {
-            comments: true,
-            files: true,
+          files: {
+            select: {
+              id: true,
+              filename: true,
+              originalName: true,
+              mimeType: true,
+              fileSize: true,
+              scanStatus: true,
+              createdAt: true,
+            },
+          },
+          _count: {
+            select: {
+              comments: true,
+              files: true,
+            },
           },
         },
-      },
+      });
+
+      await createPageRevision(tx, page, session.user.id);
+
+      if (validatedData.significantUpdate) {
+        await markPageReadsStale(tx, id, session.user.id);
+      }
+
+      return page;
     });
 
     // Invalidate caches
@@ -233,6 +293,10 @@ export async function PUT(
     CacheInvalidation.search();
     CacheInvalidation.stats();
 
+    if (existingPage.published || updatedPage.published) {
+      queueSearchWordsRefresh();
+    }
+
     // Log the activity
     await ActivityLogger.log({
       userId: session.user.id,
@@ -244,12 +308,23 @@ export async function PUT(
         pageType: updatedPage.pageType,
         changes: validatedData,
         filesAttached: validatedData.fileIds?.length || 0,
+        ...(resubmitted && {
+          fromStatus: existingPage.status,
+          toStatus: status,
+        }),
       },
     });
 
-    // Send notifications for page updates (announcements and warnings only)
+    // Send notifications for page updates (announcements and warnings only).
+    // Moving the publish date to now makes the page go live with this save.
     try {
-      await notifyPageUpdate(updatedPage.id, session.user.id);
+      if (resubmitted) {
+        await notifyReviewRequested(updatedPage.id, session.user.id);
+      } else if (!existingPage.published && updatedPage.published) {
+        await notifyPagePublished(updatedPage.id, updatedPage.authorId);
+      } else {
+        await notifyPageUpdate(updatedPage.id, session.user.id);
+      }
     } catch (error) {
       console.error('Error sending update notifications:', error);
       // Don't fail the request if notifications fail
@@ -309,6 +384,8 @@ export async function DELETE(
         authorId: true,
         title: true,
         pageType: true,
+        parentId: true,
+        published: true,
       },
     });
 
@@ -326,9 +403,13 @@ export async function DELETE(
       );
     }
 
-    // Delete the page (this will cascade delete comments and file relations)
-    await prisma.page.delete({
-      where: { id },
+    // Delete the page (this will cascade delete comments and file relations).
+    // Its subpages move up one level instead of being orphaned at the root.
+    await prisma.$transaction(async (tx) => {
+      await promoteChildPages(tx, existingPage);
+      await tx.page.delete({
+        where: { id },
+      });
     });
 
     // Invalidate caches
@@ -336,6 +417,10 @@ export async function DELETE(
     CacheInvalidation.search();
     CacheInvalidation.stats();
 
+    if (existingPage.published) {
+      queueSearchWordsRefresh();
+    }
+
     // Log the activity
     await ActivityLogger.log({
       userId: session.user.id,
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { pageWorkflowSchema } from '@/lib/validations';
+import { transitionPageStatus } from '@/lib/page-workflow';
+import { AppError } from '@/lib/errors';
+
+/**
+ * POST /api/pages/[id]/workflow - Change the lifecycle status of a page
+ * (submit for review, approve, reject, publish, archive, reopen)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, comment } = pageWorkflowSchema.parse(body);
+
+    const page = await transitionPageStatus({
+      pageId: id,
+      action,
+      comment,
+      user: { id: session.user.id, role: session.user.role },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      message: 'Page status updated successfully',
+    });
+  } catch (error) {
+    console.error('Error changing page status:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
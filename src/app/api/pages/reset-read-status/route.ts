@@ -1,9 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
+import { getReadStatusStats, resetPageReads } from '@/lib/page-reads';
 import { ApiResponse } from '@/types';
 
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Read totals are shown next to the reset actions, same access rule
+    if (session.user.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden - System Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: await getReadStatusStats(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching read status stats:', error);
+    
+    const response: ApiResponse = {
+      success: false,
+      error: 'Okuma istatistikleri yüklenirken hata oluştu',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -27,15 +64,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}));
     const { targetUserId, resetAll } = body;
 
-    const whereClause: {
-      action: string;
-      resourceType: string;
-      userId?: string;
-    } = {
-      action: 'PAGE_VIEWED',
-      resourceType: 'PAGE',
-    };
-
+    let userId: string | undefined;
     let message = '';
 
     if (resetAll) {
@@ -43,23 +72,21 @@ export async function POST(request: NextRequest) {
       message = 'Tüm kullanıcıların okuma durumu sıfırlandı';
     } else if (targetUserId) {
       // Reset for specific user
-      whereClause.userId = targetUserId;
+      userId = targetUserId;
       message = 'Belirtilen kullanıcının okuma durumu sıfırlandı';
     } else {
       // Reset for current admin user only
-      whereClause.userId = session.user.id;
+      userId = session.user.id;
       message = 'Kendi okuma durumunuz sıfırlandı';
     }
 
-    // Delete PAGE_VIEWED activity logs
-    const deletedLogs = await prisma.activityLog.deleteMany({
-      where: whereClause,
-    });
+    // Page view logs are kept for auditing, only the read records go
+    const deletedCount = await resetPageReads(userId);
 
     const response: ApiResponse = {
       success: true,
-      message: `${message} (${deletedLogs.count} kayıt silindi)`,
-      data: { deletedCount: deletedLogs.count },
+      message: `${message} (${deletedCount} kayıt silindi)`,
+      data: { deletedCount },
     };
 
     return NextResponse.json(response);
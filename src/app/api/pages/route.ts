@@ -6,8 +6,8 @@ import { createPageSchema, searchPageSchema } from '@/lib/validations';
 import { ContentType } from '@prisma/client';
 import { z } from 'zod';
 import {
-  notifyNewAnnouncement,
-  notifyNewWarning,
+  notifyPagePublished,
+  notifyReviewRequested,
 } from '@/lib/notification-utils';
 import {
   ActivityLogger,
@@ -17,6 +17,15 @@ import {
 import { getRequestMetadata } from '@/lib/request-utils';
 import { PageQueries } from '@/lib/query-optimizer';
 import { CacheInvalidation } from '@/lib/cache';
+import { queueSearchWordsRefresh } from '@/lib/page-search';
+import { createPageRevision } from '@/lib/page-revisions';
+import { getNextChildPosition, validateNewPageParent } from '@/lib/page-tree';
+import { AppError } from '@/lib/errors';
+import {
+  getInitialStatus,
+  isPageLive,
+  isValidSchedule,
+} from '@/lib/page-status';
 import { canAccessPagesManagement, canViewPublishedPages } from '@/lib/auth-utils';
 
 /**
@@ -117,6 +126,18 @@ export async function POST(request: NextRequest) {
     // Validate request body
     const validatedData = createPageSchema.parse(body);
 
+    if (!isValidSchedule(validatedData.publishAt, validatedData.expiresAt)) {
+      return NextResponse.json(
+        { error: 'Expiry date must be later than the publish date' },
+        { status: 400 }
+      );
+    }
+
+    const parentId = validatedData.parentId ?? null;
+    if (parentId) {
+      await validateNewPageParent(parentId);
+    }
+
     // Validate file IDs if provided
     if (validatedData.fileIds && validatedData.fileIds.length > 0) {
       const existingFiles = await prisma.file.findMany({
@@ -135,49 +156,72 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create page with instant publishing (no approval needed)
-    const page = await prisma.page.create({
-      data: {
-        title: validatedData.title,
-        content: validatedData.content || '',
-        pageType: validatedData.pageType,
-        tags: validatedData.tags,
-        published: true, // Instant publishing as per requirements
-        authorId: session.user.id,
-        // Connect files if provided
-        ...(validatedData.fileIds &&
-          validatedData.fileIds.length > 0 && {
-            files: {
-              connect: validatedData.fileIds.map((id) => ({ id })),
+    // Warnings and procedures start as drafts or in review, other types are
+    // published instantly unless saved as a draft
+    const initialStatus = getInitialStatus(
+      validatedData.pageType,
+      validatedData.status
+    );
+    const schedule = {
+      publishAt: validatedData.publishAt ?? null,
+      expiresAt: validatedData.expiresAt ?? null,
+    };
+
+    // Create page and record its first revision
+    const page = await prisma.$transaction(async (tx) => {
+      const created = await tx.page.create({
+        data: {
+          title: validatedData.title,
+          content: validatedData.content || '',
+          pageType: validatedData.pageType,
+          tags: validatedData.tags,
+          status: initialStatus,
+          ...schedule,
+          parentId,
+          position: await getNextChildPosition(tx, parentId),
+          // Pages scheduled for later are made visible by the page scheduler
+          published: isPageLive({ status: initialStatus, ...schedule }),
+          authorId: session.user.id,
+          // Connect files if provided
+          ...(validatedData.fileIds &&
+            validatedData.fileIds.length > 0 && {
+              files: {
+                connect: validatedData.fileIds.map((id) => ({ id })),
+              },
+            }),
+        },
+        include: {
+          author: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
             },
-          }),
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
           },
-        },
-        files: {
-          select: {
-            id: true,
-            filename: true,
-            originalName: true,
-            mimeType: true,
-            fileSize: true,
-            createdAt: true,
+          files: {
+            select: {
+              id: true,
+              filename: true,
+              originalName: true,
+              mimeType: true,
+              fileSize: true,
+              scanStatus: true,
+              createdAt: true,
+            },
           },
-        },
-        _count: {
-          select: {
-            comments: true,
-            files: true,
+          _count: {
+            select: {
+              comments: true,
+              files: true,
+            },
           },
         },
-      },
+      });
+
+      await createPageRevision(tx, created, session.user.id);
+
+      return created;
     });
 
     // Update file records to associate them with the page
@@ -204,6 +248,7 @@ export async function POST(request: NextRequest) {
       details: {
         title: page.title,
         pageType: page.pageType,
+        status: page.status,
         tagsCount: validatedData.tags?.length || 0,
         filesAttached: validatedData.fileIds?.length || 0,
       },
@@ -214,12 +259,17 @@ export async function POST(request: NextRequest) {
     CacheInvalidation.search();
     CacheInvalidation.stats();
 
-    // Send notifications for announcements and warnings
+    if (page.published) {
+      queueSearchWordsRefresh();
+    }
+
+    // Send notifications for announcements and warnings once they are live.
+    // Scheduled pages are announced by the page scheduler when they go live.
     try {
-      if (page.pageType === 'ANNOUNCEMENT') {
-        await notifyNewAnnouncement(page.id, session.user.id);
-      } else if (page.pageType === 'WARNING') {
-        await notifyNewWarning(page.id, session.user.id);
+      if (page.published) {
+        await notifyPagePublished(page.id, session.user.id);
+      } else if (page.status === 'IN_REVIEW') {
+        await notifyReviewRequested(page.id, session.user.id);
       }
     } catch (error) {
       console.error('Error sending notifications:', error);
@@ -244,6 +294,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getPageTree } from '@/lib/page-tree';
+import { getLivePageWhere } from '@/lib/page-schedule';
+import {
+  canAccessPagesManagement,
+  canViewPublishedPages,
+} from '@/lib/auth-utils';
+
+/**
+ * GET /api/pages/tree - Page hierarchy for the sidebar tree
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!canViewPublishedPages(session)) {
+      return NextResponse.json(
+        { error: 'Access denied to view pages' },
+        { status: 403 }
+      );
+    }
+
+    // Managers also see drafts and pages under review so they can organize them
+    const tree = await getPageTree(
+      canAccessPagesManagement(session)
+        ? { status: { not: 'ARCHIVED' } }
+        : getLivePageWhere()
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: tree,
+    });
+  } catch (error) {
+    console.error('Error fetching page tree:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { ApiResponse } from '@/types';
-import { PageWithRelations } from '@/types';
+import { UnreadPage } from '@/types';
 import { canAccessUnreadPages } from '@/lib/auth-utils';
+import { getStaleReads, getUnreadPageWhere } from '@/lib/page-reads';
 
 export async function GET() {
   try {
@@ -27,38 +28,9 @@ export async function GET() {
 
     const userId = session.user.id;
 
-    // Get all page IDs that the user has viewed (from activity logs)
-    const viewedPageIds = await prisma.activityLog.findMany({
-      where: {
-        userId: userId,
-        action: 'PAGE_VIEWED',
-        resourceType: 'PAGE',
-        resourceId: {
-          not: null,
-        },
-      },
-      select: {
-        resourceId: true,
-      },
-      distinct: ['resourceId'],
-    });
-
-    const viewedIds = viewedPageIds
-      .map(log => log.resourceId)
-      .filter((id): id is string => id !== null);
-
-    // Get all published pages that the user hasn't viewed
+    // Get all published pages that the user hasn't read
     const unreadPages = await prisma.page.findMany({
-      where: {
-        published: true,
-        id: {
-          notIn: viewedIds,
-        },
-        // Optionally exclude pages authored by the user themselves
-        // authorId: {
-        //   not: userId,
-        // },
-      },
+      where: getUnreadPageWhere(userId),
       include: {
         author: {
           select: {
@@ -76,18 +48,7 @@ export async function GET() {
             mimeType: true,
             originalName: true,
             fileSize: true,
-          },
-        },
-        comments: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                email: true,
-                name: true,
-                role: true,
-              },
-            },
+            scanStatus: true,
           },
         },
         _count: {
@@ -102,9 +63,18 @@ export async function GET() {
       },
     });
 
-    const response: ApiResponse<PageWithRelations[]> = {
+    // Pages updated since the user read them show what changed
+    const staleReads = await getStaleReads(
+      userId,
+      unreadPages.map((page) => page.id)
+    );
+
+    const response: ApiResponse<UnreadPage[]> = {
       success: true,
-      data: unreadPages,
+      data: unreadPages.map((page) => ({
+        ...page,
+        lastRead: staleReads.get(page.id),
+      })),
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { updateSavedSearchSchema } from '@/lib/validations';
+
+/**
+ * PATCH /api/saved-searches/[id] - Rename a saved search or toggle its alert
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = updateSavedSearchSchema.parse(body);
+
+    const savedSearch = await prisma.savedSearch.findUnique({
+      where: { id },
+      select: { userId: true, name: true },
+    });
+
+    if (!savedSearch || savedSearch.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      );
+    }
+
+    if (data.name && data.name !== savedSearch.name) {
+      const duplicate = await prisma.savedSearch.findUnique({
+        where: { userId_name: { userId: session.user.id, name: data.name } },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A saved search with this name already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.savedSearch.update({
+      where: { id },
+      data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: 'Saved search updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/saved-searches/[id] - Delete a saved search
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved search deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
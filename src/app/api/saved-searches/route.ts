@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { savedSearchSchema } from '@/lib/validations';
+
+// A sidebar list, not a search index
+const MAX_SAVED_SEARCHES = 50;
+
+/**
+ * GET /api/saved-searches - List the current user's saved searches
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ success: true, data: savedSearches });
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/saved-searches - Save the current search filters under a name
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const data = savedSearchSchema.parse(body);
+
+    const [existing, count] = await Promise.all([
+      prisma.savedSearch.findUnique({
+        where: { userId_name: { userId: session.user.id, name: data.name } },
+        select: { id: true },
+      }),
+      prisma.savedSearch.count({ where: { userId: session.user.id } }),
+    ]);
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A saved search with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    if (count >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { error: `You can save at most ${MAX_SAVED_SEARCHES} searches` },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        query: data.query || null,
+        pageType: data.pageType ?? null,
+        tags: data.tags,
+        authorId: data.authorId ?? null,
+        notify: data.notify,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: savedSearch,
+        message: 'Search saved successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error saving search:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { z } from 'zod';
 import { ActivityLogger, ActivityAction } from '@/lib/activity-logger';
 import { SearchQueries } from '@/lib/query-optimizer';
+import { SEARCH_DATE_RANGES } from '@/lib/page-search';
 
 // Enhanced search schema
 const searchSchema = z.object({
@@ -11,6 +12,7 @@ const searchSchema = z.object({
   pageType: z.enum(['INFO', 'PROCEDURE', 'ANNOUNCEMENT', 'WARNING']).optional(),
   tags: z.array(z.string()).optional(),
   authorId: z.string().cuid().optional(),
+  dateRange: z.enum(SEARCH_DATE_RANGES).optional(),
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(50).default(10),
   sortBy: z.enum(['relevance', 'date', 'title']).default('relevance'),
@@ -39,6 +41,7 @@ export async function GET(request: NextRequest) {
       pageType: searchParams.get('pageType') || undefined,
       tags: searchParams.get('tags')?.split(',').filter(Boolean) || undefined,
       authorId: searchParams.get('authorId') || undefined,
+      dateRange: searchParams.get('dateRange') || undefined,
       page: searchParams.get('page') || '1',
       limit: searchParams.get('limit') || '10',
       sortBy: searchParams.get('sortBy') || 'relevance',
@@ -61,6 +64,7 @@ export async function GET(request: NextRequest) {
         query: validatedParams.query,
         pageType: validatedParams.pageType,
         tags: validatedParams.tags,
+        dateRange: validatedParams.dateRange,
         resultsCount: result.pages.length,
         totalResults: result.pagination.total,
         sortBy: validatedParams.sortBy,
@@ -74,6 +78,8 @@ export async function GET(request: NextRequest) {
       success: true,
       data: result.pages,
       pagination: result.pagination,
+      suggestion: result.suggestion,
+      facets: result.facets,
       searchParams: validatedParams,
     });
   } catch (error) {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+const LOOKUP_LIMIT = 20
+
+// GET /api/users/lookup - Find users by name or email (?q=) or resolve ids
+// (?ids=a,b) for pickers and @mention autocomplete. Open to every signed-in
+// user, so it returns only public profile fields.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim() || ''
+    const ids = (searchParams.get('ids') || '')
+      .split(',')
+      .filter(Boolean)
+      .slice(0, 500)
+
+    if (!query && ids.length === 0) {
+      return NextResponse.json({ success: true, data: [] })
+    }
+
+    const users = await prisma.user.findMany({
+      where: ids.length > 0
+        ? { id: { in: ids } }
+        : {
+            OR: [
+              { name: { contains: query, mode: 'insensitive' } },
+              { email: { contains: query, mode: 'insensitive' } }
+            ]
+          },
+      select: { id: true, name: true, email: true, role: true },
+      orderBy: [{ name: 'asc' }, { email: 'asc' }],
+      ...(ids.length === 0 && { take: LOOKUP_LIMIT })
+    })
+
+    return NextResponse.json({ success: true, data: users })
+  } catch (error) {
+    console.error('Error looking up users:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
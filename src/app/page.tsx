@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { getLivePageWhere } from '@/lib/page-schedule';
 import HomePageContent from '@/components/home/home-page-content';
 import Image from 'next/image';
 
@@ -9,21 +10,15 @@ export default async function Home() {
 
   // Get total count of published pages for pagination
   const totalPublishedPages = await prisma.page.count({
-    where: { published: true },
+    where: getLivePageWhere(),
   });
 
   // Fetch initial published pages for the home page
   const initialPages = await prisma.page.findMany({
-    where: { published: true },
+    where: getLivePageWhere(),
     include: {
       author: true,
       files: true,
-      comments: {
-        include: {
-          user: true,
-        },
-        orderBy: { createdAt: 'desc' },
-      },
       _count: { select: { comments: true, files: true } },
     },
     orderBy: { createdAt: 'desc' },
@@ -59,6 +59,8 @@ export default async function EditPagePage({ params }: EditPageProps) {
       pageType: true,
       tags: true,
       authorId: true,
+      publishAt: true,
+      expiresAt: true,
     },
   });
 
@@ -87,6 +89,8 @@ export default async function EditPagePage({ params }: EditPageProps) {
         pageType: page.pageType,
         tags: page.tags,
         youtubeVideos,
+        publishAt: page.publishAt,
+        expiresAt: page.expiresAt,
       }}
       isEditing={true}
     />
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { redirect, notFound } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
 import PageViewer from '@/components/pages/page-viewer';
+import { getPageAncestors } from '@/lib/page-tree';
 
 interface PageProps {
   params: Promise<{
@@ -62,6 +63,13 @@ export default async function PageDetailPage({ params }: PageProps) {
           role: true,
         },
       },
+      reviewedBy: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
       files: {
         select: {
           id: true,
@@ -69,22 +77,10 @@ export default async function PageDetailPage({ params }: PageProps) {
           originalName: true,
           mimeType: true,
           fileSize: true,
+          scanStatus: true,
           createdAt: true,
         },
       },
-      comments: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              role: true,
-            },
-          },
-        },
-        orderBy: { createdAt: 'desc' },
-      },
       _count: {
         select: {
           comments: true,
@@ -107,5 +103,9 @@ export default async function PageDetailPage({ params }: PageProps) {
     notFound();
   }
 
-  return <PageViewer page={page} showBreadcrumbs={true} />;
+  const ancestors = await getPageAncestors(page.parentId);
+
+  return (
+    <PageViewer page={page} ancestors={ancestors} showBreadcrumbs={true} />
+  );
 }
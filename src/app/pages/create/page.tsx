@@ -10,7 +10,13 @@ export const metadata: Metadata = {
   description: 'Yeni bir kurumsal bilgi sayfası oluşturun',
 };
 
-export default async function CreatePagePage() {
+interface CreatePageProps {
+  searchParams: Promise<{ parentId?: string }>;
+}
+
+export default async function CreatePagePage({
+  searchParams,
+}: CreatePageProps) {
   const session = await getServerSession(authOptions);
 
   if (!session?.user) {
@@ -28,6 +34,9 @@ export default async function CreatePagePage() {
     redirect('/unauthorized');
   }
 
+  // "Alt sayfa ekle" links preselect the parent page
+  const { parentId } = await searchParams;
+
   return (
     <>
       <PageHeader
@@ -38,7 +47,7 @@ export default async function CreatePagePage() {
           { label: 'Yeni Sayfa Oluştur' },
         ]}
       />
-      <PageForm />
+      <PageForm initialParentId={parentId} />
     </>
   );
 }
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { MainLayout } from '@/components/layout/main-layout';
 import { PageStats } from '@/components/pages/page-stats';
+import { PageTree } from '@/components/pages/page-tree';
 import { canAccessPagesManagement } from '@/lib/auth-utils';
 
 export default async function PagesLayout({ children }: { children: ReactNode }) {
@@ -26,6 +27,7 @@ export default async function PagesLayout({ children }: { children: ReactNode })
   // Sidebar content for all /pages and subpages
   const sidebarContent = (
     <div className="space-y-6">
+      <PageTree />
       <PageStats />
     </div>
   );
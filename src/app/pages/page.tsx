@@ -38,12 +38,6 @@ export default async function PagesPage() {
     include: {
       author: true,
       files: true,
-      comments: {
-        include: {
-          user: true,
-        },
-        orderBy: { createdAt: 'desc' },
-      },
       _count: { select: { comments: true, files: true } },
     },
     orderBy: { createdAt: 'desc' },
@@ -3,6 +3,7 @@ import { authOptions } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { canAccessUnreadPages } from '@/lib/auth-utils';
 import { prisma } from '@/lib/prisma';
+import { getUnreadPageWhere } from '@/lib/page-reads';
 import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -40,34 +41,9 @@ export default async function UnreadPagesPage() {
         redirect('/unauthorized');
     }
 
-    // Get all page IDs that the user has viewed (from activity logs)
-    const viewedPageIds = await prisma.activityLog.findMany({
-        where: {
-            userId: session.user.id,
-            action: 'PAGE_VIEWED',
-            resourceType: 'PAGE',
-            resourceId: {
-                not: null,
-            },
-        },
-        select: {
-            resourceId: true,
-        },
-        distinct: ['resourceId'],
-    });
-
-    const viewedIds = viewedPageIds
-        .map(log => log.resourceId)
-        .filter((id): id is string => id !== null);
-
     // Get unread pages for the current user
     const unreadPages = await prisma.page.findMany({
-        where: {
-            published: true,
-            id: {
-                notIn: viewedIds,
-            },
-        },
+        where: getUnreadPageWhere(session.user.id),
         include: {
             author: {
                 select: {
@@ -2,11 +2,13 @@ import { ReactNode } from 'react';
 import { MainLayout } from '@/components/layout/main-layout';
 import { PageStats } from '@/components/pages/page-stats';
 import { PageHeader } from '@/components/layout/page-header';
+import { SavedSearches } from '@/components/search/saved-searches';
 
 export default function SearchLayout({ children }: { children: ReactNode }) {
   // Sidebar content for search page
   const sidebarContent = (
     <div className="space-y-6">
+      <SavedSearches />
       <PageStats />
     </div>
   );
@@ -0,0 +1,53 @@
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { getUnsubscribeTokenUser } from '@/lib/notification-email'
+import UnsubscribeConfirm from '@/components/notifications/unsubscribe-confirm'
+
+export const metadata: Metadata = {
+  title: 'E-posta Bildirimleri - Verida',
+  description: 'E-posta bildirimlerinden çıkın',
+}
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+// Opened from the link in notification emails, works without signing in.
+// Only asks for confirmation; unsubscribing happens on POST.
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token } = await searchParams
+
+  let email: string | null = null
+  try {
+    email = (await getUnsubscribeTokenUser(token || '')).email
+  } catch (error) {
+    console.error('Error checking unsubscribe link:', error)
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {email && token ? (
+          <UnsubscribeConfirm token={token} email={email} />
+        ) : (
+          <div className="text-center">
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+              Geçersiz Bağlantı
+            </h2>
+            <p className="mt-2 text-sm text-gray-600">
+              Bu abonelikten çıkma bağlantısı geçersiz. Bildirim tercihlerinizi ayarlar sayfasından değiştirebilirsiniz.
+            </p>
+          </div>
+        )}
+        <div className="text-center">
+          <Link
+            href="/settings"
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Bildirim tercihlerine git
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -59,6 +59,8 @@ export default async function EditViewPage({ params }: EditViewPageProps) {
       pageType: true,
       tags: true,
       authorId: true,
+      publishAt: true,
+      expiresAt: true,
     },
   });
 
@@ -90,6 +92,8 @@ export default async function EditViewPage({ params }: EditViewPageProps) {
         pageType: page.pageType,
         tags: page.tags,
         youtubeVideos,
+        publishAt: page.publishAt,
+        expiresAt: page.expiresAt,
       }}
       isEditing={true}
     />
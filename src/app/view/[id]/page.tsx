@@ -4,6 +4,8 @@ import { authOptions } from '@/lib/auth';
 import { redirect, notFound } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
 import MemberPageViewer from '@/components/pages/member-page-viewer';
+import { getPageAncestors } from '@/lib/page-tree';
+import { getLivePageWhere } from '@/lib/page-schedule';
 
 interface ViewPageProps {
   params: Promise<{
@@ -69,22 +71,10 @@ export default async function ViewPageDetailPage({ params }: ViewPageProps) {
           originalName: true,
           mimeType: true,
           fileSize: true,
+          scanStatus: true,
           createdAt: true,
         },
       },
-      comments: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              role: true,
-            },
-          },
-        },
-        orderBy: { createdAt: 'desc' },
-      },
       _count: {
         select: {
           comments: true,
@@ -103,5 +93,20 @@ export default async function ViewPageDetailPage({ params }: ViewPageProps) {
     notFound();
   }
 
-  return <MemberPageViewer page={page} />;
+  const [ancestors, childPages] = await Promise.all([
+    getPageAncestors(page.parentId),
+    prisma.page.findMany({
+      where: { ...getLivePageWhere(), parentId: page.id },
+      select: { id: true, title: true, pageType: true },
+      orderBy: [{ position: 'asc' }, { title: 'asc' }],
+    }),
+  ]);
+
+  return (
+    <MemberPageViewer
+      page={page}
+      ancestors={ancestors}
+      childPages={childPages}
+    />
+  );
 }
\ No newline at end of file
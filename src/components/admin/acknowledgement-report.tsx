@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Download, ClipboardCheck } from 'lucide-react';
+import {
+  AcknowledgementCampaignSummary,
+  AcknowledgementStatus,
+  ComplianceReport,
+} from '@/types';
+import { formatRole } from '@/lib/role-utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge, BadgeColor } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const STATUS_BADGES: Record<
+  AcknowledgementStatus,
+  { label: string; color: BadgeColor }
+> = {
+  acknowledged: { label: 'Onaylandı', color: 'green' },
+  pending: { label: 'Bekliyor', color: 'yellow' },
+  overdue: { label: 'Süresi geçti', color: 'red' },
+};
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('tr-TR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Per-page compliance report of acknowledgement campaigns
+ */
+export default function AcknowledgementReport() {
+  const [campaigns, setCampaigns] = useState<AcknowledgementCampaignSummary[]>(
+    []
+  );
+  const [selectedPageId, setSelectedPageId] = useState('');
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [statusFilter, setStatusFilter] = useState<
+    AcknowledgementStatus | 'all'
+  >('all');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/acknowledgements')
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setCampaigns(result.data);
+        }
+      })
+      .catch((error) =>
+        console.error('Error fetching acknowledgement campaigns:', error)
+      );
+  }, []);
+
+  useEffect(() => {
+    if (!selectedPageId) return;
+
+    let cancelled = false;
+    setError('');
+
+    fetch(`/api/pages/${selectedPageId}/acknowledgement/report`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Rapor yüklenemedi');
+        }
+        if (!cancelled) setReport(result.data);
+      })
+      .catch((error) => {
+        console.error('Error fetching compliance report:', error);
+        if (!cancelled) {
+          setReport(null);
+          setError(
+            error instanceof Error ? error.message : 'Rapor yüklenemedi'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPageId]);
+
+  const entries =
+    report?.entries.filter(
+      (entry) => statusFilter === 'all' || entry.status === statusFilter
+    ) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Okuma Onayı Raporları
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Okuma onayı istenen sayfa bulunmuyor.
+          </p>
+        ) : (
+          <div>
+            <Label htmlFor="acknowledgement-campaign">Sayfa</Label>
+            <Select value={selectedPageId} onValueChange={setSelectedPageId}>
+              <SelectTrigger id="acknowledgement-campaign">
+                <SelectValue placeholder="Sayfa seçin..." />
+              </SelectTrigger>
+              <SelectContent>
+                {campaigns.map((campaign) => (
+                  <SelectItem key={campaign.id} value={campaign.pageId}>
+                    {campaign.page.title} ({campaign.acknowledgedCount}/
+                    {campaign.audienceCount}) - {formatDate(campaign.deadline)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {(['all', 'acknowledged', 'pending', 'overdue'] as const).map(
+                (status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={statusFilter === status ? 'default' : 'outline'}
+                    onClick={() => setStatusFilter(status)}
+                  >
+                    {status === 'all' ? 'Tümü' : STATUS_BADGES[status].label} (
+                    {report.summary[status === 'all' ? 'total' : status]})
+                  </Button>
+                )
+              )}
+              <a
+                href={`/api/pages/${report.page.id}/acknowledgement/report?format=csv`}
+                className="ml-auto"
+              >
+                <Button size="sm" variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV İndir
+                </Button>
+              </a>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kullanıcı</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead>Durum</TableHead>
+                  <TableHead>Onay Tarihi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.userId}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {entry.name || entry.email}
+                      </div>
+                      {entry.name && (
+                        <div className="text-xs text-muted-foreground">
+                          {entry.email}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatRole(entry.role)}</TableCell>
+                    <TableCell>
+                      <Badge
+                        label={STATUS_BADGES[entry.status].label}
+                        color={STATUS_BADGES[entry.status].color}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.acknowledgedAt
+                        ? formatDate(entry.acknowledgedAt)
+                        : '-'}
+                      {entry.late && (
+                        <span className="ml-2 text-xs text-red-600">
+                          (gecikmeli)
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
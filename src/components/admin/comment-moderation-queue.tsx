@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { CommentModerationItem } from '@/types';
+import { toPlainCommentText } from '@/lib/comment-utils-client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+type ModerationAction = 'hide' | 'restore' | 'delete';
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('tr-TR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Reported and hidden comments with the moderation decisions
+ */
+export default function CommentModerationQueue() {
+  const [items, setItems] = useState<CommentModerationItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/comments/moderation');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Moderasyon listesi yüklenemedi');
+      }
+
+      setItems(data.data);
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Moderasyon listesi yüklenemedi'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const moderate = async (commentId: string, action: ModerationAction) => {
+    if (
+      action === 'delete' &&
+      !confirm('Yorum ve yanıtları kalıcı olarak silinsin mi?')
+    ) {
+      return;
+    }
+
+    setPendingId(commentId);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/comments/${commentId}/moderation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'İşlem uygulanamadı');
+      }
+
+      await fetchQueue();
+    } catch (error) {
+      console.error('Error moderating comment:', error);
+      setError(error instanceof Error ? error.message : 'İşlem uygulanamadı');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="bg-card rounded-lg shadow-md p-6 text-muted-foreground">
+          İncelenecek yorum bulunmuyor.
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="bg-card rounded-lg shadow-md p-4 space-y-3"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {item.user.name || item.user.email}
+                  </span>{' '}
+                  •{' '}
+                  <Link
+                    href={`/pages/${item.page.id}`}
+                    className="hover:underline"
+                  >
+                    {item.page.title}
+                  </Link>{' '}
+                  • {formatDate(item.createdAt)}
+                </div>
+                <div className="flex items-center gap-2">
+                  {item.hiddenAt && <Badge label="Gizlendi" color="red" />}
+                  {item.reports.length > 0 && (
+                    <Badge
+                      label={`${item.reports.length} bildirim`}
+                      color="yellow"
+                    />
+                  )}
+                </div>
+              </div>
+
+              <p className="text-foreground whitespace-pre-wrap">
+                {toPlainCommentText(item.comment)}
+              </p>
+
+              {item.reports.length > 0 && (
+                <ul className="rounded-md bg-muted p-3 space-y-1 text-sm">
+                  {item.reports.map((report) => (
+                    <li key={report.id} className="text-muted-foreground">
+                      <span className="font-medium text-foreground">
+                        {report.reporter.name || report.reporter.email}
+                      </span>
+                      {' • '}
+                      {formatDate(report.createdAt)}
+                      {report.reason && `: ${report.reason}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap gap-2 pt-2 border-t border-border">
+                {item.hiddenAt ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => moderate(item.id, 'restore')}
+                    disabled={pendingId === item.id}
+                  >
+                    Geri Yükle
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moderate(item.id, 'hide')}
+                      disabled={pendingId === item.id}
+                    >
+                      Gizle
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moderate(item.id, 'restore')}
+                      disabled={pendingId === item.id}
+                      title="Bildirimleri kapatır, yorum görünür kalır"
+                    >
+                      Bildirimleri Reddet
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => moderate(item.id, 'delete')}
+                  disabled={pendingId === item.id}
+                  className="text-destructive hover:text-destructive/80 hover:bg-destructive/10"
+                >
+                  Sil
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { RefreshCw, Users, User, AlertTriangle } from 'lucide-react';
+import AcknowledgementReport from '@/components/admin/acknowledgement-report';
 
 interface User {
   id: string;
@@ -66,15 +67,10 @@ export default function ReadStatusManager() {
 
   const fetchStats = async () => {
     try {
-      const response = await fetch('/api/activity-logs/statistics');
+      const response = await fetch('/api/pages/reset-read-status');
       if (response.ok) {
         const result = await response.json();
         if (result.success) {
-          // Calculate read status statistics
-          const pageViewedCount = result.data.activitiesByAction?.find(
-            (action: { action: string; _count: { action: number } }) => action.action === 'PAGE_VIEWED'
-          )?._count?.action || 0;
-
           // Fetch additional stats
           const [usersResponse, pagesResponse] = await Promise.all([
             fetch('/api/users'),
@@ -97,8 +93,8 @@ export default function ReadStatusManager() {
           setStats({
             totalUsers,
             totalPages,
-            totalReadEntries: pageViewedCount,
-            usersWithReads: result.data.topUsers?.length || 0,
+            totalReadEntries: result.data.totalReadEntries,
+            usersWithReads: result.data.usersWithReads,
           });
         }
       }
@@ -296,6 +292,9 @@ export default function ReadStatusManager() {
         </CardContent>
       </Card>
 
+      {/* Acknowledgement compliance */}
+      <AcknowledgementReport />
+
       {/* Confirmation Dialog */}
       <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
         <DialogContent>
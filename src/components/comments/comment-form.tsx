@@ -3,14 +3,24 @@
 import { useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
+import MentionTextarea from './mention-textarea'
 
 interface CommentFormProps {
   pageId: string
+  // Set when the form replies to a comment
+  parentId?: string
   onCommentAdded: () => void
+  onCancel?: () => void
   isSubmitting?: boolean
 }
 
-export default function CommentForm({ pageId, onCommentAdded, isSubmitting = false }: CommentFormProps) {
+export default function CommentForm({
+  pageId,
+  parentId,
+  onCommentAdded,
+  onCancel,
+  isSubmitting = false
+}: CommentFormProps) {
   const { data: session } = useSession()
   const [comment, setComment] = useState('')
   const [isLoading, setIsLoading] = useState(false)
@@ -40,6 +50,7 @@ export default function CommentForm({ pageId, onCommentAdded, isSubmitting = fal
         },
         body: JSON.stringify({
           pageId,
+          parentId,
           comment: comment.trim()
         }),
       })
@@ -73,15 +84,21 @@ export default function CommentForm({ pageId, onCommentAdded, isSubmitting = fal
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div>
-        <label htmlFor="comment" className="block text-sm font-medium text-foreground mb-2">
-          Yorum Ekle
-        </label>
-        <textarea
-          id="comment"
+        {!parentId && (
+          <label htmlFor="comment" className="block text-sm font-medium text-foreground mb-2">
+            Yorum Ekle
+          </label>
+        )}
+        <MentionTextarea
+          id={parentId ? `reply-${parentId}` : 'comment'}
           value={comment}
-          onChange={(e) => setComment(e.target.value)}
-          placeholder="Yorumunuzu buraya yazın..."
-          rows={4}
+          onChange={setComment}
+          placeholder={
+            parentId
+              ? 'Yanıtınızı yazın... (@ ile kişi anabilirsiniz)'
+              : 'Yorumunuzu buraya yazın... (@ ile kişi anabilirsiniz)'
+          }
+          rows={parentId ? 2 : 4}
           maxLength={1000}
           className="w-full px-3 py-2 border border-border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-vertical"
           disabled={isLoading || isSubmitting}
@@ -96,13 +113,23 @@ export default function CommentForm({ pageId, onCommentAdded, isSubmitting = fal
         </div>
       </div>
       
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            İptal
+          </Button>
+        )}
         <Button
           type="submit"
           disabled={isLoading || isSubmitting || !comment.trim()}
           className="px-4 py-2"
         >
-          {isLoading ? 'Gönderiliyor...' : 'Yorum Ekle'}
+          {isLoading ? 'Gönderiliyor...' : parentId ? 'Yanıtla' : 'Yorum Ekle'}
         </Button>
       </div>
     </form>
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CommentRevisionWithEditor } from '@/types';
+import { toPlainCommentText } from '@/lib/comment-utils-client';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+
+// Rendered only while open
+interface CommentHistoryDialogProps {
+  commentId: string;
+  onClose: () => void;
+}
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('tr-TR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function CommentHistoryDialog({
+  commentId,
+  onClose,
+}: CommentHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<CommentRevisionWithEditor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/comments/${commentId}/revisions`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Düzenleme geçmişi yüklenemedi');
+        }
+        setRevisions(data.data);
+      })
+      .catch((error) => {
+        console.error('Error fetching comment revisions:', error);
+        setError(
+          error instanceof Error
+            ? error.message
+            : 'Düzenleme geçmişi yüklenemedi'
+        );
+      })
+      .finally(() => setIsLoading(false));
+  }, [commentId]);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Düzenleme Geçmişi</DialogTitle>
+          <DialogDescription>
+            Yorumun düzenlenmeden önceki halleri, en yeniden eskiye.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Önceki sürüm bulunmuyor.
+            </p>
+          ) : (
+            revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className="rounded-md border border-border p-3 space-y-1"
+              >
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(revision.createdAt)} tarihinde{' '}
+                  {revision.editedBy.name || revision.editedBy.email} tarafından
+                  değiştirildi
+                </p>
+                <p className="text-sm text-foreground whitespace-pre-wrap">
+                  {toPlainCommentText(revision.content)}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
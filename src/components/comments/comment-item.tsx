@@ -2,34 +2,57 @@
 
 import { useState } from 'react';
 import { useSession } from 'next-auth/react';
-import { CommentWithUser } from '@/types';
+import { CommentThread } from '@/types';
+import { MAX_REPLY_DEPTH, parseCommentText } from '@/lib/comment-utils-client';
 import { Button } from '@/components/ui/button';
+import CommentForm from './comment-form';
+import MentionTextarea from './mention-textarea';
+import CommentHistoryDialog from './comment-history-dialog';
+import CommentReportDialog from './comment-report-dialog';
 
 interface CommentItemProps {
-  comment: CommentWithUser;
+  comment: CommentThread;
+  pageId: string;
   pageAuthorId: string;
+  // Nesting level, 0 for top-level comments
+  depth?: number;
   onCommentUpdated: () => void;
   onCommentDeleted: () => void;
 }
 
 export default function CommentItem({
   comment,
+  pageId,
   pageAuthorId,
+  depth = 0,
   onCommentUpdated,
   onCommentDeleted,
 }: CommentItemProps) {
   const { data: session } = useSession();
   const [isEditing, setIsEditing] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showReport, setShowReport] = useState(false);
   const [editedComment, setEditedComment] = useState(comment.comment);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  // Check if current user can edit/delete this comment
+  const isModerator =
+    !!session?.user && ['ADMIN', 'SYSTEM_ADMIN'].includes(session.user.role);
+  const isHidden = !!comment.hiddenAt;
+
+  // Check if current user can edit/delete this comment. Hidden comments are
+  // left to the moderators.
   const canEdit =
-    session?.user &&
+    !!session?.user &&
     (comment.userId === session.user.id ||
       pageAuthorId === session.user.id ||
-      ['ADMIN', 'SYSTEM_ADMIN'].includes(session.user.role));
+      isModerator) &&
+    (!isHidden || isModerator);
+
+  const canReply = !!session?.user && depth < MAX_REPLY_DEPTH;
+  const canReport =
+    !!session?.user && comment.userId !== session.user.id && !isHidden;
 
   const handleEdit = async () => {
     if (!editedComment.trim()) {
@@ -72,7 +95,12 @@ export default function CommentItem({
   };
 
   const handleDelete = async () => {
-    if (!confirm('Bu yorumu silmek istediğinizden emin misiniz?')) {
+    const message =
+      comment.replies.length > 0
+        ? 'Bu yorumu ve yanıtlarını silmek istediğinizden emin misiniz?'
+        : 'Bu yorumu silmek istediğinizden emin misiniz?';
+
+    if (!confirm(message)) {
       return;
     }
 
@@ -147,102 +175,210 @@ export default function CommentItem({
     }
   };
 
+  const handleReplyAdded = () => {
+    setIsReplying(false);
+    onCommentUpdated();
+  };
+
   return (
-    <div className="bg-card border border-border rounded-lg p-4 space-y-3">
-      {/* Comment Header */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-2">
-          <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center text-primary-foreground text-sm font-medium">
-            {comment.user.name?.charAt(0).toUpperCase() ||
-              comment.user.email.charAt(0).toUpperCase()}
+    <div className="space-y-3">
+      <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+        {/* Comment Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center text-primary-foreground text-sm font-medium">
+              {comment.user.name?.charAt(0).toUpperCase() ||
+                comment.user.email.charAt(0).toUpperCase()}
+            </div>
+            <div>
+              <p className="font-medium text-card-foreground">
+                {comment.user.name || comment.user.email}
+              </p>
+              <p className={`text-xs ${getRoleColor(comment.user.role)}`}>
+                {getRoleLabel(comment.user.role)}
+              </p>
+            </div>
           </div>
-          <div>
-            <p className="font-medium text-card-foreground">
-              {comment.user.name || comment.user.email}
-            </p>
-            <p className={`text-xs ${getRoleColor(comment.user.role)}`}>
-              {getRoleLabel(comment.user.role)}
-            </p>
+          <div className="text-sm text-muted-foreground text-right">
+            {formatDate(comment.createdAt)}
+            {comment.editedAt && (!isHidden || isModerator) && (
+              <button
+                type="button"
+                onClick={() => setShowHistory(true)}
+                className="ml-1 text-xs underline-offset-2 hover:underline"
+                title={`Son düzenleme: ${formatDate(comment.editedAt)}`}
+              >
+                (düzenlendi)
+              </button>
+            )}
           </div>
         </div>
-        <div className="text-sm text-muted-foreground">
-          {formatDate(comment.createdAt)}
+
+        {/* Comment Content */}
+        <div className="space-y-2">
+          {isEditing ? (
+            <div className="space-y-2">
+              <MentionTextarea
+                value={editedComment}
+                onChange={setEditedComment}
+                rows={3}
+                maxLength={1000}
+                className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring resize-vertical bg-background text-foreground"
+                disabled={isLoading}
+              />
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-muted-foreground">
+                  {editedComment.length}/1000 karakter
+                </span>
+                {error && (
+                  <span className="text-xs text-destructive">{error}</span>
+                )}
+              </div>
+            </div>
+          ) : isHidden && !isModerator ? (
+            <p className="text-sm italic text-muted-foreground">
+              Bu yorum yöneticiler tarafından gizlendi.
+            </p>
+          ) : (
+            <p
+              className={`text-card-foreground whitespace-pre-wrap ${
+                isHidden ? 'opacity-60' : ''
+              }`}
+            >
+              {isHidden && (
+                <span className="mr-2 rounded bg-red-500/10 px-1.5 py-0.5 text-xs font-medium text-red-600 dark:text-red-400">
+                  Gizlendi
+                </span>
+              )}
+              {parseCommentText(comment.comment).map((segment, index) =>
+                segment.type === 'mention' ? (
+                  <span
+                    key={index}
+                    className="font-medium text-blue-600 dark:text-blue-400"
+                  >
+                    @{segment.name}
+                  </span>
+                ) : (
+                  segment.text
+                )
+              )}
+            </p>
+          )}
         </div>
-      </div>
 
-      {/* Comment Content */}
-      <div className="space-y-2">
-        {isEditing ? (
-          <div className="space-y-2">
-            <textarea
-              value={editedComment}
-              onChange={(e) => setEditedComment(e.target.value)}
-              rows={3}
-              maxLength={1000}
-              className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring resize-vertical bg-background text-foreground"
-              disabled={isLoading}
+        {/* Comment Actions */}
+        {(canEdit || canReply || canReport) && !isReplying && (
+          <div className="flex items-center space-x-2 pt-2 border-t border-border">
+            {isEditing ? (
+              <>
+                <Button
+                  onClick={handleEdit}
+                  disabled={isLoading || !editedComment.trim()}
+                  size="sm"
+                  className="text-xs"
+                >
+                  {isLoading ? 'Kaydediliyor...' : 'Kaydet'}
+                </Button>
+                <Button
+                  onClick={cancelEdit}
+                  disabled={isLoading}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  İptal
+                </Button>
+              </>
+            ) : (
+              <>
+                {canReply && (
+                  <Button
+                    onClick={() => setIsReplying(true)}
+                    disabled={isLoading}
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                  >
+                    Yanıtla
+                  </Button>
+                )}
+                {canEdit && (
+                  <>
+                    <Button
+                      onClick={() => setIsEditing(true)}
+                      disabled={isLoading}
+                      variant="outline"
+                      size="sm"
+                      className="text-xs"
+                    >
+                      Düzenle
+                    </Button>
+                    <Button
+                      onClick={handleDelete}
+                      disabled={isLoading}
+                      variant="outline"
+                      size="sm"
+                      className="text-xs text-destructive hover:text-destructive/80 hover:bg-destructive/10"
+                    >
+                      {isLoading ? 'Siliniyor...' : 'Sil'}
+                    </Button>
+                  </>
+                )}
+                {canReport && (
+                  <Button
+                    onClick={() => setShowReport(true)}
+                    disabled={isLoading}
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs text-muted-foreground"
+                  >
+                    Bildir
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {showHistory && (
+          <CommentHistoryDialog
+            commentId={comment.id}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+        {showReport && (
+          <CommentReportDialog
+            commentId={comment.id}
+            onClose={() => setShowReport(false)}
+          />
+        )}
+
+        {isReplying && (
+          <div className="pt-2 border-t border-border">
+            <CommentForm
+              pageId={pageId}
+              parentId={comment.id}
+              onCommentAdded={handleReplyAdded}
+              onCancel={() => setIsReplying(false)}
             />
-            <div className="flex justify-between items-center">
-              <span className="text-xs text-muted-foreground">
-                {editedComment.length}/1000 karakter
-              </span>
-              {error && (
-                <span className="text-xs text-destructive">{error}</span>
-              )}
-            </div>
           </div>
-        ) : (
-          <p className="text-card-foreground whitespace-pre-wrap">
-            {comment.comment}
-          </p>
         )}
       </div>
 
-      {/* Comment Actions */}
-      {canEdit && (
-        <div className="flex items-center space-x-2 pt-2 border-t border-border">
-          {isEditing ? (
-            <>
-              <Button
-                onClick={handleEdit}
-                disabled={isLoading || !editedComment.trim()}
-                size="sm"
-                className="text-xs"
-              >
-                {isLoading ? 'Kaydediliyor...' : 'Kaydet'}
-              </Button>
-              <Button
-                onClick={cancelEdit}
-                disabled={isLoading}
-                variant="outline"
-                size="sm"
-                className="text-xs"
-              >
-                İptal
-              </Button>
-            </>
-          ) : (
-            <>
-              <Button
-                onClick={() => setIsEditing(true)}
-                disabled={isLoading}
-                variant="outline"
-                size="sm"
-                className="text-xs"
-              >
-                Düzenle
-              </Button>
-              <Button
-                onClick={handleDelete}
-                disabled={isLoading}
-                variant="outline"
-                size="sm"
-                className="text-xs text-destructive hover:text-destructive/80 hover:bg-destructive/10"
-              >
-                {isLoading ? 'Siliniyor...' : 'Sil'}
-              </Button>
-            </>
-          )}
+      {/* Replies */}
+      {comment.replies.length > 0 && (
+        <div className="ml-4 sm:ml-8 pl-4 border-l-2 border-border space-y-3">
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              pageId={pageId}
+              pageAuthorId={pageAuthorId}
+              depth={depth + 1}
+              onCommentUpdated={onCommentUpdated}
+              onCommentDeleted={onCommentUpdated}
+            />
+          ))}
         </div>
       )}
     </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { CommentWithUser } from '@/types';
+import { CommentThread } from '@/types';
 import CommentItem from './comment-item';
 import { Button } from '@/components/ui/button';
 
@@ -13,7 +13,9 @@ interface CommentListProps {
 
 interface CommentsResponse {
   success: boolean;
-  data: CommentWithUser[];
+  data: CommentThread[];
+  // Including replies, pagination counts top-level comments only
+  totalComments: number;
   error?: string;
   pagination: {
     page: number;
@@ -28,12 +30,13 @@ export default function CommentList({
   pageAuthorId,
   refreshTrigger = 0,
 }: CommentListProps) {
-  const [comments, setComments] = useState<CommentWithUser[]>([]);
+  const [comments, setComments] = useState<CommentThread[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
+  const [totalComments, setTotalComments] = useState(0);
   const limit = 10;
 
   const fetchComments = useCallback(async (page: number = 1) => {
@@ -54,6 +57,7 @@ export default function CommentList({
       setCurrentPage(data.pagination.page);
       setTotalPages(data.pagination.totalPages);
       setTotal(data.pagination.total);
+      setTotalComments(data.totalComments);
     } catch (error) {
       console.error('Error fetching comments:', error);
       setError(
@@ -127,7 +131,9 @@ export default function CommentList({
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-foreground">
           Yorumlar{' '}
-          {total > 0 && <span className="text-muted-foreground">({total})</span>}
+          {totalComments > 0 && (
+            <span className="text-muted-foreground">({totalComments})</span>
+          )}
         </h3>
       </div>
 
@@ -144,6 +150,7 @@ export default function CommentList({
               <CommentItem
                 key={comment.id}
                 comment={comment}
+                pageId={pageId}
                 pageAuthorId={pageAuthorId}
                 onCommentUpdated={handleCommentUpdated}
                 onCommentDeleted={handleCommentDeleted}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+
+// Rendered only while open
+interface CommentReportDialogProps {
+  commentId: string;
+  onClose: () => void;
+}
+
+export default function CommentReportDialog({
+  commentId,
+  onClose,
+}: CommentReportDialogProps) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReported, setIsReported] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/comments/${commentId}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || 'Yorum bildirilemedi'
+        );
+      }
+
+      setIsReported(true);
+    } catch (error) {
+      console.error('Error reporting comment:', error);
+      setError(error instanceof Error ? error.message : 'Yorum bildirilemedi');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Yorumu Bildir</DialogTitle>
+          <DialogDescription>
+            Uygunsuz bulduğunuz yorum yöneticiler tarafından incelenecektir.
+          </DialogDescription>
+        </DialogHeader>
+        {isReported ? (
+          <p className="text-sm text-green-700 dark:text-green-400">
+            Bildiriminiz alındı. Teşekkür ederiz.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <label
+              htmlFor={`report-reason-${commentId}`}
+              className="block text-sm font-medium text-foreground"
+            >
+              Neden (isteğe bağlı)
+            </label>
+            <textarea
+              id={`report-reason-${commentId}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring resize-vertical bg-background text-foreground"
+              disabled={isSubmitting}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {isReported ? 'Kapat' : 'İptal'}
+          </Button>
+          {!isReported && (
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? 'Gönderiliyor...' : 'Bildir'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import { AnchoredCommentThread, CommentAnchor } from '@/types';
+import {
+  describeSelection,
+  highlightRange,
+  locateAnchor,
+  TextRange,
+} from '@/lib/text-anchors';
+import { Button } from '@/components/ui/button';
+import CommentItem from './comment-item';
+import MentionTextarea from './mention-textarea';
+
+interface InlineCommentsProps {
+  pageId: string;
+  pageAuthorId: string;
+  // Sanitized page content
+  html: string;
+  contentClassName?: string;
+}
+
+const HIGHLIGHT_CLASS =
+  'bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm cursor-pointer';
+const ACTIVE_HIGHLIGHT_CLASS =
+  'bg-orange-300/80 dark:bg-orange-500/50 text-inherit rounded-sm cursor-pointer';
+
+const anchorOf = (thread: AnchoredCommentThread): CommentAnchor => ({
+  quote: thread.anchorQuote || '',
+  prefix: thread.anchorPrefix || '',
+  suffix: thread.anchorSuffix || '',
+  start: thread.anchorStart || 0,
+});
+
+const truncate = (text: string, length = 120) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+/**
+ * Page content where readers can comment on a text selection. Threads are
+ * highlighted in the text and listed in a side panel.
+ */
+export default function InlineComments({
+  pageId,
+  pageAuthorId,
+  html,
+  contentClassName = '',
+}: InlineCommentsProps) {
+  const { data: session } = useSession();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [threads, setThreads] = useState<AnchoredCommentThread[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [selection, setSelection] = useState<{
+    anchor: CommentAnchor;
+    top: number;
+    left: number;
+  } | null>(null);
+  const [draft, setDraft] = useState<CommentAnchor | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const canResolve =
+    !!session?.user &&
+    (session.user.id === pageAuthorId ||
+      ['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'].includes(session.user.role));
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/comments?pageId=${pageId}&anchored=true`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Satır içi yorumlar yüklenemedi');
+      }
+
+      setThreads(data.data);
+    } catch (error) {
+      console.error('Error fetching inline comments:', error);
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  // Where each thread's quote is in the current text, null when it is gone
+  const ranges = useMemo(() => {
+    if (typeof DOMParser === 'undefined') {
+      return new Map<string, TextRange | null>();
+    }
+
+    const text =
+      new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+    return new Map<string, TextRange | null>(
+      threads.map((thread) => [thread.id, locateAnchor(text, anchorOf(thread))])
+    );
+  }, [html, threads]);
+
+  const visibleThreads = threads.filter(
+    (thread) => showResolved || !thread.resolvedAt
+  );
+
+  // The content is rendered here rather than by React so highlights can be
+  // wrapped around the text
+  useEffect(() => {
+    const root = contentRef.current;
+    if (!root) return;
+
+    root.innerHTML = html;
+
+    for (const thread of threads) {
+      if (thread.resolvedAt && !showResolved) continue;
+
+      const range = ranges.get(thread.id);
+      if (range) {
+        highlightRange(
+          root,
+          range,
+          thread.id,
+          thread.id === activeId ? ACTIVE_HIGHLIGHT_CLASS : HIGHLIGHT_CLASS
+        );
+      }
+    }
+  }, [html, threads, ranges, activeId, showResolved]);
+
+  const focusThread = (threadId: string) => {
+    setActiveId(threadId);
+    document
+      .getElementById(`inline-thread-${threadId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const handleSelectionEnd = () => {
+    const root = contentRef.current;
+    const container = containerRef.current;
+    const current = window.getSelection();
+
+    if (!session?.user || !root || !container || !current) return;
+
+    if (current.isCollapsed || current.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const range = current.getRangeAt(0);
+    const anchor = describeSelection(root, range);
+
+    if (!anchor) {
+      setSelection(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setSelection({
+      anchor,
+      top: rect.bottom - containerRect.top + 4,
+      left: Math.max(0, rect.left - containerRect.left),
+    });
+  };
+
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const mark = (e.target as HTMLElement).closest<HTMLElement>(
+      'mark[data-comment-thread]'
+    );
+    if (mark?.dataset.commentThread) {
+      focusThread(mark.dataset.commentThread);
+    }
+  };
+
+  const startDraft = () => {
+    if (!selection) return;
+
+    if (selection.anchor.quote.length > 1000) {
+      setError('Seçili metin en fazla 1000 karakter olabilir');
+    } else {
+      setError('');
+      setDraft(selection.anchor);
+      setDraftText('');
+    }
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const submitDraft = async () => {
+    if (!draft || !draftText.trim()) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/comments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pageId,
+          comment: draftText.trim(),
+          anchor: draft,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            'Yorum eklenirken bir hata oluştu'
+        );
+      }
+
+      setDraft(null);
+      setDraftText('');
+      await fetchThreads();
+      setActiveId(data.data.id);
+    } catch (error) {
+      console.error('Error adding inline comment:', error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Yorum eklenirken bir hata oluştu'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const setResolved = async (threadId: string, resolved: boolean) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/comments/${threadId}/resolution`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolved }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'İşlem uygulanamadı');
+      }
+
+      await fetchThreads();
+    } catch (error) {
+      console.error('Error updating comment resolution:', error);
+      setError(error instanceof Error ? error.message : 'İşlem uygulanamadı');
+    }
+  };
+
+  const resolvedCount = threads.length - visibleThreads.length;
+
+  return (
+    <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_20rem] lg:gap-6">
+      <div ref={containerRef} className="relative">
+        <div
+          ref={contentRef}
+          className={contentClassName}
+          onMouseUp={handleSelectionEnd}
+          onKeyUp={handleSelectionEnd}
+          onClick={handleContentClick}
+        />
+        {selection && (
+          <div
+            className="absolute z-10"
+            style={{ top: selection.top, left: selection.left }}
+          >
+            <Button
+              size="sm"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={startDraft}
+            >
+              Yorum Ekle
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <aside className="mt-6 lg:mt-0 space-y-3 not-prose">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold text-foreground">
+            Satır İçi Yorumlar
+            {visibleThreads.length > 0 && (
+              <span className="text-muted-foreground">
+                {' '}
+                ({visibleThreads.length})
+              </span>
+            )}
+          </h3>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved((value) => !value)}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              {showResolved
+                ? 'Çözülenleri gizle'
+                : `Çözülenleri göster (${resolvedCount})`}
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {draft && (
+          <div className="rounded-lg border border-border p-3 space-y-2">
+            <blockquote className="border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground">
+              {truncate(draft.quote)}
+            </blockquote>
+            <MentionTextarea
+              id="inline-comment-draft"
+              value={draftText}
+              onChange={setDraftText}
+              placeholder="Yorumunuzu yazın... (@ ile kişi anabilirsiniz)"
+              rows={3}
+              maxLength={1000}
+              className="w-full px-3 py-2 text-sm border border-input rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring resize-vertical bg-background text-foreground"
+              disabled={isSubmitting}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDraft(null)}
+                disabled={isSubmitting}
+              >
+                İptal
+              </Button>
+              <Button
+                size="sm"
+                onClick={submitDraft}
+                disabled={isSubmitting || !draftText.trim()}
+              >
+                {isSubmitting ? 'Gönderiliyor...' : 'Gönder'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {visibleThreads.length === 0 && !draft && (
+          <p className="text-sm text-muted-foreground">
+            {session?.user
+              ? 'Bir bölüm hakkında yorum yapmak için metni seçin.'
+              : 'Henüz satır içi yorum yok.'}
+          </p>
+        )}
+
+        {visibleThreads.map((thread) => {
+          const isOrphaned = !ranges.get(thread.id);
+
+          return (
+            <div
+              key={thread.id}
+              id={`inline-thread-${thread.id}`}
+              className={`rounded-lg border p-2 space-y-2 ${
+                thread.id === activeId ? 'border-orange-400' : 'border-border'
+              } ${thread.resolvedAt ? 'opacity-75' : ''}`}
+            >
+              <button
+                type="button"
+                onClick={() => focusThread(thread.id)}
+                className="block w-full text-left"
+              >
+                <blockquote className="border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground">
+                  {truncate(thread.anchorQuote || '')}
+                </blockquote>
+              </button>
+              {isOrphaned && (
+                <p className="text-xs text-orange-600 dark:text-orange-400">
+                  Bu metin sayfada artık bulunamıyor.
+                </p>
+              )}
+              {thread.resolvedAt && (
+                <p className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                  <CheckCircleIcon className="h-4 w-4" />
+                  {thread.resolvedBy
+                    ? `${thread.resolvedBy.name || thread.resolvedBy.email} tarafından çözüldü`
+                    : 'Çözüldü'}
+                </p>
+              )}
+              <CommentItem
+                comment={thread}
+                pageId={pageId}
+                pageAuthorId={pageAuthorId}
+                onCommentUpdated={fetchThreads}
+                onCommentDeleted={fetchThreads}
+              />
+              {canResolve && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full text-xs"
+                  onClick={() => setResolved(thread.id, !thread.resolvedAt)}
+                >
+                  {thread.resolvedAt ? 'Yeniden Aç' : 'Çözüldü Olarak İşaretle'}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { formatMention } from '@/lib/comment-utils-client'
+
+interface MentionUser {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface MentionTextareaProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  rows?: number
+  maxLength?: number
+  disabled?: boolean
+  className?: string
+}
+
+// The @query being typed right before the caret, if any
+const getMentionQuery = (text: string, caret: number) => {
+  const match = /(?:^|\s)@([^\s@[\]()]{0,30})$/.exec(text.slice(0, caret))
+  if (!match) return null
+
+  const query = match[1] as string
+  return { query, start: caret - query.length - 1 }
+}
+
+/**
+ * Textarea that suggests users while typing @name and inserts a mention token
+ */
+export default function MentionTextarea({
+  id,
+  value,
+  onChange,
+  placeholder,
+  rows = 4,
+  maxLength,
+  disabled = false,
+  className = ''
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null)
+  const [suggestions, setSuggestions] = useState<MentionUser[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    if (!mention || mention.query.length === 0) {
+      setSuggestions([])
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      fetch(`/api/users/lookup?q=${encodeURIComponent(mention.query)}`)
+        .then(response => response.json())
+        .then(data => {
+          setSuggestions((data.data || []).slice(0, 6))
+          setActiveIndex(0)
+        })
+        .catch(error => console.error('Error searching users:', error))
+    }, 200)
+
+    return () => clearTimeout(timeout)
+  }, [mention])
+
+  const updateMention = (text: string, caret: number) => {
+    const next = getMentionQuery(text, caret)
+    setMention(current =>
+      current?.query === next?.query && current?.start === next?.start ? current : next
+    )
+  }
+
+  const insertMention = (user: MentionUser) => {
+    if (!mention) return
+
+    const caret = mention.start + mention.query.length + 1
+    const token = `${formatMention(user)} `
+    const nextValue = value.slice(0, mention.start) + token + value.slice(caret)
+
+    if (maxLength && nextValue.length > maxLength) return
+
+    onChange(nextValue)
+    setMention(null)
+    setSuggestions([])
+
+    requestAnimationFrame(() => {
+      const position = mention.start + token.length
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(index => (index + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length)
+        break
+      case 'Enter':
+      case 'Tab': {
+        const user = suggestions[activeIndex]
+        if (!user) return
+        e.preventDefault()
+        insertMention(user)
+        break
+      }
+      case 'Escape':
+        setMention(null)
+        setSuggestions([])
+        break
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setSuggestions([])}
+        placeholder={placeholder}
+        rows={rows}
+        maxLength={maxLength}
+        disabled={disabled}
+        className={className}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-64 max-h-48 overflow-y-auto rounded-md border border-border bg-popover shadow-md">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  insertMention(user)
+                }}
+                className={`w-full px-3 py-1.5 text-left text-sm ${
+                  index === activeIndex ? 'bg-muted' : 'hover:bg-muted'
+                }`}
+              >
+                <span className="font-medium">{user.name || user.email}</span>
+                {user.name && (
+                  <span className="ml-2 text-xs text-muted-foreground">{user.email}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
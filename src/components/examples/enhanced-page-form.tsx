@@ -25,7 +25,7 @@ interface PageFormData {
   content: string;
   pageType: ContentType;
   tags: string[];
-  published: boolean;
+  status?: 'DRAFT' | 'IN_REVIEW' | 'PUBLISHED';
   fileIds?: string[];
 }
 
@@ -58,7 +58,7 @@ export function EnhancedPageForm({
     content: initialData?.content || '',
     pageType: initialData?.pageType || 'INFO',
     tags: initialData?.tags || [],
-    published: initialData?.published || false,
+    status: initialData?.status,
     fileIds: initialData?.fileIds || [],
   });
 
@@ -1,11 +1,20 @@
 'use client';
 
+import { useState } from 'react';
+import Image from 'next/image';
+import FilePreviewDialog from '@/components/files/file-preview-dialog';
 import {
   getFileTypeLabel,
   getFileIcon,
   formatFileSize,
   isImageFile,
+  isPreviewableFile,
+  getImageVariantUrl,
+  isScanDownloadable,
+  SCAN_STATUS_LABELS,
+  SCAN_STATUS_BADGE_CLASSES,
 } from '@/lib/file-utils-client';
+import type { ScanStatus } from '@prisma/client';
 
 interface FileAttachment {
   id: string;
@@ -13,9 +22,17 @@ interface FileAttachment {
   originalName: string;
   mimeType: string | null;
   fileSize: number;
+  scanStatus?: ScanStatus;
   createdAt: string;
 }
 
+// Files waiting for or failing the malware scan cannot be opened
+const isAvailable = (file: FileAttachment) =>
+  !file.scanStatus || isScanDownloadable(file.scanStatus);
+
+// Variant served for grid thumbnails, sharp on high-density screens too
+const THUMBNAIL_WIDTH = 768;
+
 interface FileAttachmentsProps {
   files: FileAttachment[];
   className?: string;
@@ -27,6 +44,8 @@ export default function FileAttachments({
   className = '',
   showPreview = true,
 }: FileAttachmentsProps) {
+  const [previewFile, setPreviewFile] = useState<FileAttachment | null>(null);
+
   if (!files || files.length === 0) {
     return null;
   }
@@ -40,9 +59,10 @@ export default function FileAttachments({
     document.body.removeChild(link);
   };
 
-  const handleView = (fileId: string) => {
-    window.open(`/api/files/${fileId}`, '_blank');
-  };
+  const images = showPreview
+    ? files.filter((file) => isImageFile(file.mimeType) && isAvailable(file))
+    : [];
+  const documents = files.filter((file) => !images.includes(file));
 
   return (
     <div className={`space-y-3 ${className}`}>
@@ -50,8 +70,53 @@ export default function FileAttachments({
         📎 Ekli Dosyalar ({files.length})
       </h4>
 
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {images.map((file) => (
+            <div
+              key={file.id}
+              className="group overflow-hidden bg-muted border border-border rounded-lg"
+            >
+              <button
+                onClick={() => setPreviewFile(file)}
+                className="relative block w-full aspect-square bg-card"
+                title="Görüntüle"
+              >
+                <Image
+                  unoptimized
+                  fill
+                  src={getImageVariantUrl(file.id, THUMBNAIL_WIDTH)}
+                  sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
+                  alt={file.originalName}
+                  className="object-cover transition-transform group-hover:scale-105"
+                />
+              </button>
+
+              <div className="flex items-center justify-between p-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-foreground truncate">
+                    {file.originalName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(file.fileSize)}
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => handleDownload(file.id, file.originalName)}
+                  className="ml-2 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                  title="İndir"
+                >
+                  ⬇️
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="grid gap-3">
-        {files.map((file) => (
+        {documents.map((file) => (
           <div
             key={file.id}
             className="flex items-center justify-between p-3 bg-muted border border-border rounded-lg hover:bg-muted transition-colors"
@@ -69,6 +134,13 @@ export default function FileAttachments({
                   <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-card text-foreground border">
                     {getFileTypeLabel(file.mimeType)}
                   </span>
+                  {file.scanStatus && !isAvailable(file) && (
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SCAN_STATUS_BADGE_CLASSES[file.scanStatus]}`}
+                    >
+                      {SCAN_STATUS_LABELS[file.scanStatus]}
+                    </span>
+                  )}
                 </div>
 
                 <div className="flex items-center space-x-2 mt-1 text-xs text-muted-foreground">
@@ -82,21 +154,21 @@ export default function FileAttachments({
             </div>
 
             <div className="flex items-center space-x-2 ml-4">
-              {showPreview &&
-                (isImageFile(file.mimeType) ||
-                  file.mimeType === 'application/pdf') && (
-                  <button
-                    onClick={() => handleView(file.id)}
-                    className="px-3 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
-                    title="Görüntüle"
-                  >
-                    👁️ Görüntüle
-                  </button>
-                )}
+              {showPreview && isPreviewableFile(file.mimeType) && (
+                <button
+                  onClick={() => setPreviewFile(file)}
+                  disabled={!isAvailable(file)}
+                  className="px-3 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors disabled:opacity-50"
+                  title="Görüntüle"
+                >
+                  👁️ Görüntüle
+                </button>
+              )}
 
               <button
                 onClick={() => handleDownload(file.id, file.originalName)}
-                className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                disabled={!isAvailable(file)}
+                className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
                 title="İndir"
               >
                 ⬇️ İndir
@@ -105,6 +177,11 @@ export default function FileAttachments({
           </div>
         ))}
       </div>
+
+      <FilePreviewDialog
+        file={previewFile}
+        onClose={() => setPreviewFile(null)}
+      />
     </div>
   );
 }
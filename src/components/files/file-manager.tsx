@@ -1,9 +1,27 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
 import FileUpload from '@/components/editor/file-upload'
-import { getFileTypeLabel, getFileIcon, formatFileSize } from '@/lib/file-utils-client'
+import {
+  getFileTypeLabel,
+  getFileIcon,
+  formatFileSize,
+  allowedFileTypes,
+  validateFileType,
+  validateFileSize,
+  isScanDownloadable,
+  SCAN_STATUS_LABELS,
+  SCAN_STATUS_BADGE_CLASSES
+} from '@/lib/file-utils-client'
+import type { ScanStatus } from '@prisma/client'
 
 interface FileData {
   id: string
@@ -11,6 +29,7 @@ interface FileData {
   originalName: string
   mimeType: string
   fileSize: number
+  scanStatus: ScanStatus
   createdAt: string
   uploadedBy: {
     id: string
@@ -24,6 +43,21 @@ interface FileData {
   }
 }
 
+interface FileVersionData {
+  id: string
+  versionNumber: number
+  originalName: string
+  mimeType: string | null
+  fileSize: number
+  scanStatus: ScanStatus
+  createdAt: string
+  uploadedBy: {
+    id: string
+    name: string
+    email: string
+  }
+}
+
 interface FileManagerProps {
   pageId?: string
   userId?: string
@@ -47,6 +81,12 @@ export default function FileManager({
   const [page, setPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [deleting, setDeleting] = useState<string | null>(null)
+  const [uploadingVersion, setUploadingVersion] = useState<string | null>(null)
+  const [versionTarget, setVersionTarget] = useState<string | null>(null)
+  const [historyFile, setHistoryFile] = useState<FileData | null>(null)
+  const [versions, setVersions] = useState<FileVersionData[]>([])
+  const [versionsLoading, setVersionsLoading] = useState(false)
+  const versionInputRef = useRef<HTMLInputElement>(null)
 
   const fetchFiles = useCallback(async (pageNum = 1) => {
     try {
@@ -120,9 +160,86 @@ export default function FileManager({
     }
   }
 
-  const handleDownloadFile = (fileId: string, filename: string) => {
+  const handleChooseNewVersion = (fileId: string) => {
+    setVersionTarget(fileId)
+    versionInputRef.current?.click()
+  }
+
+  const handleNewVersionSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const selected = event.target.files?.[0]
+    const fileId = versionTarget
+    event.target.value = ''
+    setVersionTarget(null)
+
+    if (!selected || !fileId) return
+
+    const validation = [validateFileType(selected), validateFileSize(selected)]
+      .find(result => !result.isValid)
+    if (validation) {
+      alert(validation.error)
+      return
+    }
+
+    try {
+      setUploadingVersion(fileId)
+
+      const formData = new FormData()
+      formData.append('file', selected)
+
+      const response = await fetch(`/api/files/${fileId}/versions`, {
+        method: 'POST',
+        body: formData
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Yeni sürüm yüklenemedi')
+      }
+
+      fetchFiles(page)
+    } catch (error) {
+      console.error('Error uploading file version:', error)
+      alert(error instanceof Error ? error.message : 'Yeni sürüm yüklenemedi')
+    } finally {
+      setUploadingVersion(null)
+    }
+  }
+
+  const handleShowVersions = async (file: FileData) => {
+    setHistoryFile(file)
+    setVersions([])
+
+    try {
+      setVersionsLoading(true)
+
+      const response = await fetch(`/api/files/${file.id}/versions`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Sürümler yüklenemedi')
+      }
+
+      setVersions(result.data)
+    } catch (error) {
+      console.error('Error fetching file versions:', error)
+      alert(error instanceof Error ? error.message : 'Sürümler yüklenemedi')
+      setHistoryFile(null)
+    } finally {
+      setVersionsLoading(false)
+    }
+  }
+
+  const handleDownloadFile = (
+    fileId: string,
+    filename: string,
+    versionNumber?: number
+  ) => {
     const link = document.createElement('a')
-    link.href = `/api/files/${fileId}?download=true`
+    link.href = versionNumber
+      ? `/api/files/${fileId}?version=${versionNumber}&download=true`
+      : `/api/files/${fileId}?download=true`
     link.download = filename
     document.body.appendChild(link)
     link.click()
@@ -164,6 +281,16 @@ export default function FileManager({
         </div>
       )}
 
+      {allowUpload && (
+        <input
+          ref={versionInputRef}
+          type="file"
+          accept={allowedFileTypes.join(',')}
+          onChange={handleNewVersionSelected}
+          className="hidden"
+        />
+      )}
+
       {/* Files List */}
       <div>
         <div className="flex items-center justify-between mb-3">
@@ -209,6 +336,11 @@ export default function FileManager({
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-muted text-foreground">
                         {getFileTypeLabel(file.mimeType)}
                       </span>
+                      {file.scanStatus !== 'CLEAN' && (
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SCAN_STATUS_BADGE_CLASSES[file.scanStatus]}`}>
+                          {SCAN_STATUS_LABELS[file.scanStatus]}
+                        </span>
+                      )}
                     </div>
                     
                     <div className="flex items-center space-x-4 mt-1 text-xs text-muted-foreground">
@@ -231,10 +363,30 @@ export default function FileManager({
                   <Button
                     type="button"
                     onClick={() => handleDownloadFile(file.id, file.originalName)}
-                    className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                    disabled={!isScanDownloadable(file.scanStatus)}
+                    className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
                   >
                     İndir
                   </Button>
+
+                  <Button
+                    type="button"
+                    onClick={() => handleShowVersions(file)}
+                    className="px-3 py-1 text-xs border border-border rounded hover:bg-muted"
+                  >
+                    Sürümler
+                  </Button>
+
+                  {allowUpload && (
+                    <Button
+                      type="button"
+                      onClick={() => handleChooseNewVersion(file.id)}
+                      disabled={uploadingVersion === file.id}
+                      className="px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {uploadingVersion === file.id ? 'Yükleniyor...' : 'Yeni sürüm yükle'}
+                    </Button>
+                  )}
                   
                   {allowDelete && (
                     <Button
@@ -279,6 +431,83 @@ export default function FileManager({
           </div>
         )}
       </div>
+      {/* Version History */}
+      <Dialog
+        open={historyFile !== null}
+        onOpenChange={open => !open && setHistoryFile(null)}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Sürüm Geçmişi</DialogTitle>
+            <DialogDescription>
+              {historyFile?.originalName} dosyasının yüklenen tüm sürümleri.
+              Dosya bağlantısı her zaman en son sürümü açar.
+            </DialogDescription>
+          </DialogHeader>
+
+          {versionsLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[1, 2].map(i => (
+                <div key={i} className="h-12 bg-border rounded"></div>
+              ))}
+            </div>
+          ) : (
+            <ul className="divide-y divide-border max-h-96 overflow-y-auto">
+              {versions.map((version, index) => (
+                <li
+                  key={version.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-foreground">
+                        Sürüm {version.versionNumber}
+                      </span>
+                      {index === 0 && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                          Güncel
+                        </span>
+                      )}
+                      {version.scanStatus !== 'CLEAN' && (
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SCAN_STATUS_BADGE_CLASSES[version.scanStatus]}`}>
+                          {SCAN_STATUS_LABELS[version.scanStatus]}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-foreground truncate">
+                      {version.originalName}
+                    </p>
+                    <div className="flex items-center space-x-2 mt-1 text-xs text-muted-foreground">
+                      <span>{formatFileSize(version.fileSize)}</span>
+                      <span>•</span>
+                      <span>{formatDate(version.createdAt)}</span>
+                      <span>•</span>
+                      <span>{version.uploadedBy.name || version.uploadedBy.email}</span>
+                    </div>
+                  </div>
+
+                  {historyFile && (
+                    <Button
+                      type="button"
+                      onClick={() =>
+                        handleDownloadFile(
+                          historyFile.id,
+                          version.originalName,
+                          version.versionNumber
+                        )
+                      }
+                      disabled={!isScanDownloadable(version.scanStatus)}
+                      className="ml-4 px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      İndir
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
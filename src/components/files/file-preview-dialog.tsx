@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import DOMPurify from 'dompurify';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FilePreviewData, FilePreviewSheet } from '@/types';
+
+interface PreviewFile {
+  id: string;
+  originalName: string;
+}
+
+interface FilePreviewDialogProps {
+  file: PreviewFile | null;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+const DEFAULT_ZOOM_INDEX = 2;
+
+const buttonClassName =
+  'px-3 py-1 text-xs border border-border rounded hover:bg-muted disabled:opacity-50';
+
+function ImageLightbox({ file }: { file: PreviewFile }) {
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const zoom = ZOOM_LEVELS[zoomIndex] ?? 1;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-center space-x-2">
+        <button
+          onClick={() => setZoomIndex((index) => index - 1)}
+          disabled={zoomIndex === 0}
+          className={buttonClassName}
+          title="Uzaklaştır"
+        >
+          −
+        </button>
+        <button
+          onClick={() => setZoomIndex(DEFAULT_ZOOM_INDEX)}
+          className={buttonClassName}
+          title="Gerçek boyut"
+        >
+          %{Math.round(zoom * 100)}
+        </button>
+        <button
+          onClick={() => setZoomIndex((index) => index + 1)}
+          disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+          className={buttonClassName}
+          title="Yakınlaştır"
+        >
+          +
+        </button>
+      </div>
+
+      <div className="max-h-[70vh] overflow-auto bg-muted rounded">
+        <Image
+          unoptimized
+          src={`/api/files/${file.id}`}
+          alt={file.originalName}
+          width={0}
+          height={0}
+          style={{ width: `${zoom * 100}%`, height: 'auto', maxWidth: 'none' }}
+          className="mx-auto"
+        />
+      </div>
+    </div>
+  );
+}
+
+function PdfPages({
+  file,
+  pageCount,
+}: {
+  file: PreviewFile;
+  pageCount: number;
+}) {
+  const [page, setPage] = useState(1);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-center space-x-2">
+        <button
+          onClick={() => setPage((current) => current - 1)}
+          disabled={page <= 1}
+          className={buttonClassName}
+        >
+          Önceki
+        </button>
+        <span className="text-sm text-foreground">
+          Sayfa {page} / {pageCount}
+        </span>
+        <button
+          onClick={() => setPage((current) => current + 1)}
+          disabled={page >= pageCount}
+          className={buttonClassName}
+        >
+          Sonraki
+        </button>
+      </div>
+
+      <div className="max-h-[70vh] overflow-auto bg-muted rounded">
+        <Image
+          unoptimized
+          key={page}
+          src={`/api/files/${file.id}/preview?page=${page}`}
+          alt={`${file.originalName} - Sayfa ${page}`}
+          width={0}
+          height={0}
+          className="mx-auto w-full h-auto bg-white"
+        />
+      </div>
+    </div>
+  );
+}
+
+function SheetTables({
+  sheets,
+}: {
+  sheets: FilePreviewSheet[];
+}) {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const sheet = sheets[sheetIndex];
+
+  if (!sheet) {
+    return (
+      <p className="text-sm text-muted-foreground">Tabloda veri bulunamadı</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sheets.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {sheets.map((item, index) => (
+            <button
+              key={item.name}
+              onClick={() => setSheetIndex(index)}
+              className={`${buttonClassName} ${index === sheetIndex ? 'bg-muted font-medium' : ''}`}
+            >
+              {item.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-[65vh] overflow-auto border border-border rounded">
+        <table className="min-w-full text-xs">
+          <tbody>
+            {sheet.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b border-border">
+                {row.map((cell, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className="px-2 py-1 border-r border-border whitespace-nowrap text-foreground"
+                  >
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sheet.truncated && (
+        <p className="text-xs text-muted-foreground">
+          Önizlemede tablonun yalnızca ilk kısmı gösteriliyor. Tamamı için
+          dosyayı indirin.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function FilePreviewDialog({
+  file,
+  onClose,
+}: FilePreviewDialogProps) {
+  const [preview, setPreview] = useState<FilePreviewData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    setLoading(true);
+
+    fetch(`/api/files/${file.id}/preview`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Önizleme yüklenemedi');
+        }
+        if (!cancelled) setPreview(result.data);
+      })
+      .catch((error) => {
+        console.error('Error fetching file preview:', error);
+        if (!cancelled) setError('Önizleme yüklenemedi');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{file?.originalName}</DialogTitle>
+          <DialogDescription>Dosya önizlemesi</DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="animate-pulse h-64 bg-border rounded"></div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {file && preview?.kind === 'image' && <ImageLightbox file={file} />}
+
+        {file && preview?.kind === 'pdf' && (
+          <PdfPages file={file} pageCount={preview.pageCount} />
+        )}
+
+        {preview?.kind === 'html' && (
+          <div
+            className="prose max-w-none max-h-[70vh] overflow-auto text-foreground"
+            dangerouslySetInnerHTML={{
+              __html: DOMPurify.sanitize(preview.html),
+            }}
+          />
+        )}
+
+        {preview?.kind === 'table' && <SheetTables sheets={preview.sheets} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
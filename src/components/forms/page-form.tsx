@@ -1,12 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ContentType } from '@prisma/client';
-import { CreatePageRequest, UpdatePageRequest } from '@/types';
+import { ContentType, PageStatus } from '@prisma/client';
+import { CreatePageRequest, PageTreeNode, UpdatePageRequest } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent } from '@/components/ui/card';
 import {
   Select,
@@ -22,6 +23,7 @@ import TagInput from '@/components/forms/tag-input';
 import { FormSection, FormFieldGroup, FormField } from '@/components/forms/form-section';
 import { type YouTubeVideoInfo } from '@/lib/youtube-utils';
 import { embedYouTubeVideosIntoContent } from '@/lib/youtube-content-utils';
+import { isValidSchedule, requiresReview } from '@/lib/page-status';
 
 interface AttachedFile {
   id: string;
@@ -36,6 +38,9 @@ interface PageFormData {
   pageType: ContentType;
   tags: string[];
   youtubeVideos?: YouTubeVideoInfo[];
+  // datetime-local input values, empty when not scheduled
+  publishAt: string;
+  expiresAt: string;
 }
 
 interface PageFormProps {
@@ -47,6 +52,8 @@ interface PageFormProps {
     tags: string[];
     files?: AttachedFile[];
     youtubeVideos?: YouTubeVideoInfo[];
+    publishAt?: Date | string | null;
+    expiresAt?: Date | string | null;
   };
   onSubmit?: (
     data:
@@ -54,6 +61,7 @@ interface PageFormProps {
       | (UpdatePageRequest & { youtubeVideos?: YouTubeVideoInfo[] })
   ) => Promise<void>;
   isEditing?: boolean;
+  initialParentId?: string;
 }
 
 const PAGE_TYPE_OPTIONS = [
@@ -79,10 +87,66 @@ const PAGE_TYPE_OPTIONS = [
   },
 ];
 
+type InitialStatus = Exclude<PageStatus, 'ARCHIVED'>;
+
+// Select items cannot have an empty value
+const ROOT_PARENT = 'root';
+
+interface ParentOption {
+  id: string;
+  title: string;
+  depth: number;
+}
+
+const flattenTree = (nodes: PageTreeNode[], depth = 0): ParentOption[] =>
+  nodes.flatMap((node) => [
+    { id: node.id, title: node.title, depth },
+    ...flattenTree(node.children, depth + 1),
+  ]);
+
+const getStatusOptions = (pageType: ContentType) =>
+  requiresReview(pageType)
+    ? [
+        {
+          value: 'IN_REVIEW' as InitialStatus,
+          label: 'İncelemeye gönder',
+          description: 'Yönetici onayından sonra yayınlanır',
+        },
+        {
+          value: 'DRAFT' as InitialStatus,
+          label: 'Taslak olarak kaydet',
+          description: 'Sadece siz ve yöneticiler görebilir',
+        },
+      ]
+    : [
+        {
+          value: 'PUBLISHED' as InitialStatus,
+          label: 'Hemen yayınla',
+          description: 'Tüm kullanıcılar hemen görebilir',
+        },
+        {
+          value: 'DRAFT' as InitialStatus,
+          label: 'Taslak olarak kaydet',
+          description: 'Sadece siz ve yöneticiler görebilir',
+        },
+      ];
+
+// Format a date for a datetime-local input in the user's timezone
+const toDateTimeLocal = (date?: Date | string | null) => {
+  if (!date) return '';
+  const value = new Date(date);
+  const offset = value.getTimezoneOffset() * 60 * 1000;
+  return new Date(value.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const toIsoOrNull = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
 export default function PageForm({
   initialData,
   onSubmit,
   isEditing = false,
+  initialParentId,
 }: PageFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -94,12 +158,44 @@ export default function PageForm({
     pageType: initialData?.pageType || ('INFO' as ContentType),
     tags: initialData?.tags || [],
     youtubeVideos: initialData?.youtubeVideos || [],
+    publishAt: toDateTimeLocal(initialData?.publishAt),
+    expiresAt: toDateTimeLocal(initialData?.expiresAt),
   });
 
   const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>(
     initialData?.files || []
   );
 
+  const [initialStatus, setInitialStatus] = useState<InitialStatus>(
+    getStatusOptions(formData.pageType)[0]!.value
+  );
+  const statusOptions = getStatusOptions(formData.pageType);
+
+  // Marks the page unread again for everyone who has already read it
+  const [significantUpdate, setSignificantUpdate] = useState(false);
+
+  const [parentId, setParentId] = useState(initialParentId || ROOT_PARENT);
+  const [parentOptions, setParentOptions] = useState<ParentOption[]>([]);
+
+  // The parent of existing pages is changed from the page tree instead
+  useEffect(() => {
+    if (isEditing) return;
+
+    const fetchParentOptions = async () => {
+      try {
+        const response = await fetch('/api/pages/tree');
+        const data = await response.json();
+        if (response.ok && data.success) {
+          setParentOptions(flattenTree(data.data));
+        }
+      } catch (error) {
+        console.error('Error fetching page tree:', error);
+      }
+    };
+
+    fetchParentOptions();
+  }, [isEditing]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -119,6 +215,11 @@ export default function PageForm({
         newErrors.content = 'İçerik gereklidir';
       }
 
+      if (!isValidSchedule(formData.publishAt, formData.expiresAt)) {
+        newErrors.expiresAt =
+          'Yayından kaldırma tarihi yayın tarihinden sonra olmalıdır';
+      }
+
       if (Object.keys(newErrors).length > 0) {
         setErrors(newErrors);
         return;
@@ -135,7 +236,7 @@ export default function PageForm({
 
         const method = isEditing ? 'PUT' : 'POST';
 
-        const { youtubeVideos, ...apiData } = formData;
+        const { youtubeVideos, publishAt, expiresAt, ...apiData } = formData;
         
         // Embed YouTube videos into content
         console.log('🎬 YouTube videos to embed:', youtubeVideos);
@@ -147,6 +248,13 @@ export default function PageForm({
           ...apiData,
           content: finalContent,
           fileIds: attachedFiles.map((file) => file.id),
+          publishAt: toIsoOrNull(publishAt),
+          expiresAt: toIsoOrNull(expiresAt),
+          ...(isEditing && significantUpdate && { significantUpdate: true }),
+          ...(!isEditing && {
+            status: initialStatus,
+            parentId: parentId === ROOT_PARENT ? null : parentId,
+          }),
         };
 
         const response = await fetch(url, {
@@ -165,8 +273,13 @@ export default function PageForm({
         const result = await response.json();
 
         if (result.success) {
-          // Redirect to view page after editing
-          router.push(`/view/${result.data.id}`);
+          // Redirect to view page after editing, unpublished and scheduled
+          // pages are only reachable from the management view
+          router.push(
+            result.data.published
+              ? `/view/${result.data.id}`
+              : `/pages/${result.data.id}`
+          );
         } else {
           throw new Error(result.error || 'Bir hata oluştu');
         }
@@ -234,12 +347,15 @@ export default function PageForm({
                   </Label>
                   <Select
                     value={formData.pageType}
-                    onValueChange={(value) =>
+                    onValueChange={(value) => {
                       setFormData((prev) => ({
                         ...prev,
                         pageType: value as ContentType,
-                      }))
-                    }
+                      }));
+                      setInitialStatus(
+                        getStatusOptions(value as ContentType)[0]!.value
+                      );
+                    }}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Sayfa tipi seçin" />
@@ -256,6 +372,68 @@ export default function PageForm({
                     </SelectContent>
                   </Select>
                 </FormField>
+
+                {/* Parent Page */}
+                {!isEditing && (
+                  <FormField>
+                    <Label htmlFor="parentId">
+                      Üst Sayfa
+                    </Label>
+                    <Select value={parentId} onValueChange={setParentId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Üst sayfa seçin" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ROOT_PARENT}>Üst sayfa yok</SelectItem>
+                        {parentOptions.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            <span style={{ paddingLeft: `${option.depth * 12}px` }}>
+                              {option.title}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground leading-relaxed">
+                      Sayfa seçilen sayfanın altında listelenir, örneğin bir
+                      departman el kitabının altında.
+                    </p>
+                  </FormField>
+                )}
+
+                {/* Initial Status */}
+                {!isEditing && (
+                  <FormField>
+                    <Label htmlFor="status">
+                      Yayın Durumu
+                    </Label>
+                    <Select
+                      value={initialStatus}
+                      onValueChange={(value) =>
+                        setInitialStatus(value as InitialStatus)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Yayın durumu seçin" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {statusOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            <div className="flex flex-col items-start">
+                              <span className="font-semibold">{option.label}</span>
+                              <span className="text-sm text-muted-foreground">{option.description}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {requiresReview(formData.pageType) && (
+                      <p className="text-sm text-muted-foreground leading-relaxed">
+                        Uyarı ve prosedür sayfaları yönetici onayı olmadan yayınlanamaz.
+                      </p>
+                    )}
+                  </FormField>
+                )}
               </FormFieldGroup>
             </FormSection>
 
@@ -355,6 +533,58 @@ export default function PageForm({
               </FormField>
             </FormSection>
 
+            {/* Schedule Section */}
+            <FormSection
+              title="Zamanlama"
+              description="Sayfanın yayına gireceği ve yayından kalkacağı zamanı belirleyin"
+              variant="subtle"
+            >
+              <FormFieldGroup columns={2}>
+                <FormField>
+                  <Label htmlFor="publishAt">
+                    Yayın Tarihi
+                  </Label>
+                  <Input
+                    type="datetime-local"
+                    id="publishAt"
+                    value={formData.publishAt}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, publishAt: e.target.value }))
+                    }
+                  />
+                  <p className="text-sm text-muted-foreground leading-relaxed">
+                    Boş bırakılırsa sayfa yayınlandığı anda görünür olur.
+                    Duyuru bildirimleri bu tarihte gönderilir.
+                  </p>
+                </FormField>
+
+                <FormField>
+                  <Label htmlFor="expiresAt">
+                    Yayından Kaldırma Tarihi
+                  </Label>
+                  <Input
+                    type="datetime-local"
+                    id="expiresAt"
+                    value={formData.expiresAt}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, expiresAt: e.target.value }))
+                    }
+                    className={errors.expiresAt ? 'border-red-500 focus:border-red-500 focus:ring-red-500/20' : ''}
+                  />
+                  {errors.expiresAt ? (
+                    <p className="mt-2 text-sm text-red-600 flex items-center gap-2">
+                      <span className="inline-block w-1.5 h-1.5 bg-red-600 rounded-full flex-shrink-0"></span>
+                      {errors.expiresAt}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground leading-relaxed">
+                      Bu tarihte sayfa otomatik olarak arşivlenir.
+                    </p>
+                  )}
+                </FormField>
+              </FormFieldGroup>
+            </FormSection>
+
             {/* Submit Error */}
             {errors.submit && (
               <div className="rounded-xl border-2 border-red-200 bg-red-50 p-6 shadow-sm">
@@ -393,11 +623,31 @@ export default function PageForm({
                     {isEditing ? 'Değişiklikleri Kaydet' : 'Sayfayı Yayınla'}
                   </h3>
                   <p className="text-sm text-muted-foreground leading-relaxed">
-                    {isEditing
+                    {isEditing && requiresReview(formData.pageType)
+                      ? 'Yayındaki uyarı ve prosedür sayfalarında içerik değişiklikleri kaydedildiğinde sayfa yeniden yönetici onayına gönderilir.'
+                      : isEditing
                       ? 'Yaptığınız değişiklikleri kaydetmek için "Güncelle" butonuna tıklayın.'
-                      : 'Sayfanız oluşturulduktan sonra tüm kullanıcılar tarafından görülebilir olacaktır.'
+                      : initialStatus === 'PUBLISHED' && formData.publishAt
+                        ? 'Sayfanız belirlediğiniz yayın tarihinde tüm kullanıcılar tarafından görülebilir olacaktır.'
+                        : initialStatus === 'PUBLISHED'
+                        ? 'Sayfanız oluşturulduktan sonra tüm kullanıcılar tarafından görülebilir olacaktır.'
+                        : 'Sayfanız yayınlanana kadar yalnızca siz ve yöneticiler tarafından görülebilir.'
                     }
                   </p>
+                  {isEditing && (
+                    <div className="flex items-start gap-2 mt-4">
+                      <Checkbox
+                        id="significantUpdate"
+                        checked={significantUpdate}
+                        onCheckedChange={(checked) => setSignificantUpdate(checked === true)}
+                        className="mt-0.5"
+                      />
+                      <Label htmlFor="significantUpdate" className="text-sm font-normal leading-snug">
+                        Önemli güncelleme: sayfayı okumuş olan herkes için tekrar
+                        okunmamış olarak işaretle
+                      </Label>
+                    </div>
+                  )}
                 </div>
 
                 {/* Action Buttons */}
@@ -1,13 +1,18 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
-import { PageWithRelations } from '@/types';
+import { UnreadPage } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Eye, EyeOff } from 'lucide-react';
+import { Eye, EyeOff, RefreshCw } from 'lucide-react';
+import {
+    buildSideBySideDiff,
+    sanitizeDiffHtml,
+    toComparableHtml,
+} from '@/lib/html-diff';
 
 interface PageTypeConfig {
     label: string;
@@ -35,12 +40,56 @@ const PAGE_TYPE_COLORS = {
     WARNING: 'red',
 } as const;
 
+// Changed blocks between the revision the user last read and the live page
+function PageChanges({ page }: { page: UnreadPage }) {
+    const revision = page.lastRead?.revision;
+
+    const rows = useMemo(
+        () =>
+            revision
+                ? buildSideBySideDiff(toComparableHtml(revision), toComparableHtml(page))
+                      .filter(row => row.changed)
+                : [],
+        [revision, page]
+    );
+
+    if (rows.length === 0) {
+        return (
+            <p className="text-xs text-muted-foreground">
+                Değişiklik ayrıntısı bulunamadı.
+            </p>
+        );
+    }
+
+    return (
+        <div className="max-h-60 overflow-y-auto space-y-2 rounded-md border border-border p-2 text-xs [&_del]:bg-red-100 [&_del]:text-red-800 [&_ins]:bg-green-100 [&_ins]:text-green-800 [&_ins]:no-underline">
+            {rows.map((row, index) => (
+                <div key={index} className="space-y-1 border-b border-border pb-2 last:border-b-0 last:pb-0">
+                    {row.left && (
+                        <div
+                            className="prose prose-sm max-w-none break-words text-xs"
+                            dangerouslySetInnerHTML={{ __html: sanitizeDiffHtml(row.left) }}
+                        />
+                    )}
+                    {row.right && (
+                        <div
+                            className="prose prose-sm max-w-none break-words text-xs"
+                            dangerouslySetInnerHTML={{ __html: sanitizeDiffHtml(row.right) }}
+                        />
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
 export default function UnreadPagesSection({}: UnreadPagesSectionProps) {
     const { data: session } = useSession();
-    const [unreadPages, setUnreadPages] = useState<PageWithRelations[]>([]);
+    const [unreadPages, setUnreadPages] = useState<UnreadPage[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [showAll, setShowAll] = useState(false);
+    const [expandedChanges, setExpandedChanges] = useState<string | null>(null);
 
     const fetchUnreadPages = useCallback(async () => {
         setLoading(true);
@@ -189,10 +238,17 @@ export default function UnreadPagesSection({}: UnreadPagesSectionProps) {
                                             label={PAGE_TYPE_LABELS[page.pageType]}
                                             color={PAGE_TYPE_COLORS[page.pageType]}
                                         />
-                                        <div className="flex items-center gap-1">
-                                            <EyeOff className="h-4 w-4 text-primary" />
-                                            <span className="text-xs text-primary font-medium">Yeni</span>
-                                        </div>
+                                        {page.lastRead ? (
+                                            <div className="flex items-center gap-1">
+                                                <RefreshCw className="h-4 w-4 text-orange-600" />
+                                                <span className="text-xs text-orange-600 font-medium">Güncellendi</span>
+                                            </div>
+                                        ) : (
+                                            <div className="flex items-center gap-1">
+                                                <EyeOff className="h-4 w-4 text-primary" />
+                                                <span className="text-xs text-primary font-medium">Yeni</span>
+                                            </div>
+                                        )}
                                     </div>
                                     <Link
                                         href={
@@ -228,6 +284,27 @@ export default function UnreadPagesSection({}: UnreadPagesSectionProps) {
                                     </p>
                                 )}
 
+                                {/* Changes since the last read */}
+                                {page.lastRead && (
+                                    <div className="space-y-2">
+                                        <div className="flex items-center justify-between gap-2 text-xs">
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    setExpandedChanges(expandedChanges === page.id ? null : page.id)
+                                                }
+                                                className="font-medium text-orange-600 hover:underline"
+                                            >
+                                                {expandedChanges === page.id ? 'Değişiklikleri Gizle' : 'Neler değişti?'}
+                                            </button>
+                                            <span className="text-muted-foreground">
+                                                Son okuma: {formatDate(page.lastRead.readAt)}
+                                            </span>
+                                        </div>
+                                        {expandedChanges === page.id && <PageChanges page={page} />}
+                                    </div>
+                                )}
+
                                 {/* Tags */}
                                 {page.tags.length > 0 && (
                                     <div className="flex flex-wrap gap-1">
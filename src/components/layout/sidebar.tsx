@@ -11,6 +11,8 @@ import {
   ChartBarIcon,
   UserGroupIcon,
   EyeSlashIcon,
+  ClipboardDocumentCheckIcon,
+  ChatBubbleLeftRightIcon,
 } from '@heroicons/react/24/outline';
 
 interface SidebarProps {
@@ -43,6 +45,18 @@ const navigationItems: NavItem[] = [
     icon: PlusIcon,
     roles: ['SYSTEM_ADMIN', 'ADMIN'],
   },
+  {
+    name: 'İnceleme Bekleyenler',
+    href: '/admin/reviews',
+    icon: ClipboardDocumentCheckIcon,
+    roles: ['SYSTEM_ADMIN', 'ADMIN'],
+  },
+  {
+    name: 'Yorum Moderasyonu',
+    href: '/admin/comments',
+    icon: ChatBubbleLeftRightIcon,
+    roles: ['SYSTEM_ADMIN', 'ADMIN'],
+  },
   {
     name: 'Aktivite Günlükleri',
     href: '/admin/activity-logs',
@@ -9,6 +9,9 @@ import {
   SpeakerWaveIcon,
   ChatBubbleLeftIcon,
   ArrowPathIcon,
+  ClipboardDocumentCheckIcon,
+  MagnifyingGlassIcon,
+  AtSymbolIcon,
   TrashIcon,
   EyeIcon,
 } from '@heroicons/react/24/outline';
@@ -42,6 +45,18 @@ export function NotificationItem({
         return (
           <ArrowPathIcon className="h-5 w-5 text-orange-600 dark:text-orange-400" />
         );
+      case 'review':
+        return (
+          <ClipboardDocumentCheckIcon className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+        );
+      case 'saved_search':
+        return (
+          <MagnifyingGlassIcon className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+        );
+      case 'mention':
+        return (
+          <AtSymbolIcon className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+        );
       default:
         return <BellIcon className="h-5 w-5 text-muted-foreground" />;
     }
@@ -59,6 +74,12 @@ export function NotificationItem({
         return 'bg-green-500/10 dark:bg-green-500/20';
       case 'update':
         return 'bg-orange-500/10 dark:bg-orange-500/20';
+      case 'review':
+        return 'bg-purple-500/10 dark:bg-purple-500/20';
+      case 'saved_search':
+        return 'bg-teal-500/10 dark:bg-teal-500/20';
+      case 'mention':
+        return 'bg-indigo-500/10 dark:bg-indigo-500/20';
       default:
         return 'bg-muted';
     }
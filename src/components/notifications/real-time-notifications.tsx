@@ -9,13 +9,17 @@ export function RealTimeNotifications() {
   const { data: session } = useSession();
   const { refreshUnreadCount } = useNotifications();
   const eventSourceRef = useRef<EventSource | null>(null);
+  // Notifications already shown; a reconnect can replay one that also
+  // arrived live
+  const seenIdsRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (!session?.user?.id) {
       return;
     }
 
-    // Create EventSource connection for SSE
+    // Create EventSource connection for SSE. On reconnect the browser sends
+    // the last event id and the server replays what was missed.
     const eventSource = new EventSource('/api/notifications/stream');
     eventSourceRef.current = eventSource;
 
@@ -35,7 +39,12 @@ export function RealTimeNotifications() {
           case 'notification':
             // New notification received
             const notification = data.data;
-            
+
+            if (seenIdsRef.current.has(notification.id)) {
+              break;
+            }
+            seenIdsRef.current.add(notification.id);
+
             // Show toast notification
             toast.success(notification.title, {
               duration: 5000,
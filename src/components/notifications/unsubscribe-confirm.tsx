@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+
+interface UnsubscribeConfirmProps {
+  token: string;
+  email: string;
+}
+
+// Unsubscribing needs a click, so link scanners opening the email link
+// cannot turn emails off on their own
+export default function UnsubscribeConfirm({
+  token,
+  email,
+}: UnsubscribeConfirmProps) {
+  const [status, setStatus] = useState<'idle' | 'loading' | 'done' | 'error'>(
+    'idle'
+  );
+
+  const handleConfirm = async () => {
+    setStatus('loading');
+
+    try {
+      const response = await fetch(
+        `/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`,
+        { method: 'POST' }
+      );
+
+      setStatus(response.ok ? 'done' : 'error');
+    } catch (error) {
+      console.error('Error unsubscribing from notification emails:', error);
+      setStatus('error');
+    }
+  };
+
+  if (status === 'done') {
+    return (
+      <div className="text-center">
+        <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+          Abonelikten Çıkıldı
+        </h2>
+        <p className="mt-2 text-sm text-gray-600">
+          {email} adresine artık bildirim e-postası gönderilmeyecek. Uygulama
+          içi bildirimleriniz etkilenmez.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center space-y-6">
+      <div>
+        <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+          E-posta Bildirimlerinden Çık
+        </h2>
+        <p className="mt-2 text-sm text-gray-600">
+          {email} adresine bildirim e-postası gönderilmesini durdurmak için
+          onaylayın. Uygulama içi bildirimleriniz etkilenmez.
+        </p>
+        {status === 'error' && (
+          <p className="mt-2 text-sm text-red-600">
+            Abonelikten çıkılamadı, lütfen tekrar deneyin.
+          </p>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={handleConfirm}
+        disabled={status === 'loading'}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+      >
+        {status === 'loading' ? 'İşleniyor...' : 'Abonelikten çık'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { UserRole } from '@prisma/client';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { PageAcknowledgementInfo } from '@/types';
+import { getAllRoles } from '@/lib/role-utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+
+interface LookupUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+// Rendered only while open, so every opening starts from the saved campaign
+interface AcknowledgementSettingsDialogProps {
+  pageId: string;
+  campaign: PageAcknowledgementInfo | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const toDateTimeLocal = (date?: Date | string | null) => {
+  if (!date) return '';
+  const value = new Date(date);
+  const offset = value.getTimezoneOffset() * 60 * 1000;
+  return new Date(value.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export default function AcknowledgementSettingsDialog({
+  pageId,
+  campaign,
+  onClose,
+  onSaved,
+}: AcknowledgementSettingsDialogProps) {
+  const [deadline, setDeadline] = useState(toDateTimeLocal(campaign?.deadline));
+  const [targetRoles, setTargetRoles] = useState<UserRole[]>(
+    campaign?.targetRoles || []
+  );
+  const [targetUsers, setTargetUsers] = useState<LookupUser[]>([]);
+  const [userQuery, setUserQuery] = useState('');
+  const [userResults, setUserResults] = useState<LookupUser[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Resolve the saved target users for display
+  useEffect(() => {
+    if (!campaign || campaign.targetUserIds.length === 0) return;
+
+    fetch(`/api/users/lookup?ids=${campaign.targetUserIds.join(',')}`)
+      .then((response) => response.json())
+      .then((data) => setTargetUsers(data.data || []))
+      .catch((error) => console.error('Error loading target users:', error));
+  }, [campaign]);
+
+  useEffect(() => {
+    const query = userQuery.trim();
+    if (query.length < 2) {
+      setUserResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      fetch(`/api/users/lookup?q=${encodeURIComponent(query)}`)
+        .then((response) => response.json())
+        .then((data) => setUserResults(data.data || []))
+        .catch((error) => console.error('Error searching users:', error));
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [userQuery]);
+
+  const toggleRole = (role: UserRole, checked: boolean) => {
+    setTargetRoles((prev) =>
+      checked ? [...prev, role] : prev.filter((item) => item !== role)
+    );
+  };
+
+  const addUser = (user: LookupUser) => {
+    setTargetUsers((prev) =>
+      prev.some((item) => item.id === user.id) ? prev : [...prev, user]
+    );
+    setUserQuery('');
+    setUserResults([]);
+  };
+
+  const removeUser = (userId: string) => {
+    setTargetUsers((prev) => prev.filter((user) => user.id !== userId));
+  };
+
+  const submit = async (method: 'PUT' | 'DELETE') => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/pages/${pageId}/acknowledgement`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(method === 'PUT' && {
+          body: JSON.stringify({
+            deadline: deadline ? new Date(deadline).toISOString() : undefined,
+            targetRoles,
+            targetUserIds: targetUsers.map((user) => user.id),
+          }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            'Okuma onayı kaydedilemedi'
+        );
+      }
+
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving acknowledgement campaign:', error);
+      setError(
+        error instanceof Error ? error.message : 'Okuma onayı kaydedilemedi'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (
+      confirm(
+        'Okuma onayı zorunluluğu kaldırılsın mı? Toplanan onaylar da silinir.'
+      )
+    ) {
+      submit('DELETE');
+    }
+  };
+
+  const hasAudience = targetRoles.length > 0 || targetUsers.length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Okuma Onayı</DialogTitle>
+          <DialogDescription>
+            Seçilen kullanıcılar sayfayı okuduklarını son tarihe kadar
+            &quot;Okudum, anladım&quot; ile onaylamalıdır. Son tarihten bir gün
+            önce onaylamayanlara hatırlatma gönderilir.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="acknowledgement-deadline">Son tarih *</Label>
+            <Input
+              id="acknowledgement-deadline"
+              type="datetime-local"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Roller</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {getAllRoles().map((role) => (
+                <div key={role.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`acknowledgement-role-${role.value}`}
+                    checked={targetRoles.includes(role.value)}
+                    onCheckedChange={(checked) =>
+                      toggleRole(role.value, checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`acknowledgement-role-${role.value}`}
+                    className="text-sm font-normal"
+                  >
+                    {role.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="acknowledgement-user-search">Kullanıcılar</Label>
+            {targetUsers.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {targetUsers.map((user) => (
+                  <span
+                    key={user.id}
+                    className="inline-flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs"
+                  >
+                    {user.name || user.email}
+                    <button
+                      type="button"
+                      onClick={() => removeUser(user.id)}
+                      className="text-muted-foreground hover:text-foreground"
+                      title="Kaldır"
+                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <Input
+              id="acknowledgement-user-search"
+              value={userQuery}
+              onChange={(e) => setUserQuery(e.target.value)}
+              placeholder="İsim veya e-posta ile arayın"
+            />
+            {userResults.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto rounded-md border border-border">
+                {userResults.map((user) => (
+                  <li key={user.id}>
+                    <button
+                      type="button"
+                      onClick={() => addUser(user)}
+                      className="w-full px-3 py-1.5 text-left text-sm hover:bg-muted"
+                    >
+                      {user.name || user.email}
+                      {user.name && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {user.email}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter className="gap-2">
+          {campaign && (
+            <Button
+              variant="outline"
+              onClick={handleRemove}
+              disabled={isSaving}
+              className="sm:mr-auto text-red-600 hover:text-red-700"
+            >
+              Zorunluluğu Kaldır
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            İptal
+          </Button>
+          <Button
+            onClick={() => submit('PUT')}
+            disabled={isSaving || !deadline || !hasAudience}
+          >
+            {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,16 +3,21 @@
 import { useState, useMemo, useEffect } from 'react';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
-import { PageWithRelations } from '@/types';
+import { Page, PageAncestor, PageWithRelations } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Calendar, User, MessageCircle, Paperclip, Edit } from 'lucide-react';
+import { ArrowLeft, Calendar, User, MessageCircle, Paperclip, Edit, FolderTree } from 'lucide-react';
+import { Breadcrumb } from '@/components/layout/breadcrumb';
 import FileAttachments from '@/components/files/file-attachments';
 import CommentSection from '@/components/comments/comment-section';
+import InlineComments from '@/components/comments/inline-comments';
+import PageAcknowledgement from '@/components/pages/page-acknowledgement';
 import DOMPurify from 'dompurify';
 
 interface MemberPageViewerProps {
     page: PageWithRelations;
+    ancestors?: PageAncestor[];
+    childPages?: Pick<Page, 'id' | 'title' | 'pageType'>[];
 }
 
 const PAGE_TYPE_LABELS = {
@@ -29,7 +34,11 @@ const PAGE_TYPE_COLORS = {
     WARNING: 'red',
 } as const;
 
-export default function MemberPageViewer({ page }: MemberPageViewerProps) {
+export default function MemberPageViewer({
+    page,
+    ancestors = [],
+    childPages = [],
+}: MemberPageViewerProps) {
     const { data: session } = useSession();
     const [isClient, setIsClient] = useState(false);
 
@@ -114,6 +123,18 @@ export default function MemberPageViewer({ page }: MemberPageViewerProps) {
 
             {/* Page Header */}
             <div className="space-y-4">
+                {ancestors.length > 0 && (
+                    <Breadcrumb
+                        items={[
+                            ...ancestors.map((ancestor) => ({
+                                label: ancestor.title,
+                                // Unpublished parents are shown but not linked
+                                href: ancestor.published ? `/view/${ancestor.id}` : undefined,
+                            })),
+                            { label: page.title },
+                        ]}
+                    />
+                )}
                 <div className="flex items-start gap-3">
                     <Badge
                         label={PAGE_TYPE_LABELS[page.pageType]}
@@ -175,7 +196,14 @@ export default function MemberPageViewer({ page }: MemberPageViewerProps) {
             {/* Content */}
             <div className="bg-card rounded-lg shadow-sm border p-8">
                 <div className="prose prose-lg max-w-none">
-                    {sanitizedContent ? (
+                    {sanitizedContent && isClient ? (
+                        <InlineComments
+                            pageId={page.id}
+                            pageAuthorId={page.authorId}
+                            html={sanitizedContent}
+                            contentClassName="text-foreground leading-relaxed"
+                        />
+                    ) : sanitizedContent ? (
                         <div
                             dangerouslySetInnerHTML={{ __html: sanitizedContent }}
                             className="text-foreground leading-relaxed"
@@ -188,6 +216,36 @@ export default function MemberPageViewer({ page }: MemberPageViewerProps) {
                 </div>
             </div>
 
+            {/* Read-and-acknowledge */}
+            <PageAcknowledgement pageId={page.id} />
+
+            {/* Subpages */}
+            {childPages.length > 0 && (
+                <div className="bg-card rounded-lg shadow-sm border p-6">
+                    <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                        <FolderTree className="h-5 w-5" />
+                        Alt Sayfalar
+                    </h3>
+                    <ul className="space-y-2">
+                        {childPages.map((child) => (
+                            <li key={child.id} className="flex items-center gap-2">
+                                <Badge
+                                    label={PAGE_TYPE_LABELS[child.pageType]}
+                                    color={PAGE_TYPE_COLORS[child.pageType]}
+                                    size="sm"
+                                />
+                                <Link
+                                    href={`/view/${child.id}`}
+                                    className="text-foreground hover:text-blue-600 hover:underline"
+                                >
+                                    {child.title}
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Files */}
             {page.files && page.files.length > 0 && (
                 <div className="bg-card rounded-lg shadow-sm border p-6">
@@ -214,7 +272,7 @@ export default function MemberPageViewer({ page }: MemberPageViewerProps) {
                 <CommentSection
                     pageId={page.id}
                     pageAuthorId={page.authorId}
-                    initialCommentCount={page.comments?.length || 0}
+                    initialCommentCount={page._count?.comments ?? 0}
                 />
             </div>
         </div>
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CheckCircle2, ClipboardCheck } from 'lucide-react';
+import { PageAcknowledgementInfo } from '@/types';
+import { Button } from '@/components/ui/button';
+import AcknowledgementSettingsDialog from '@/components/pages/acknowledgement-settings-dialog';
+
+interface PageAcknowledgementProps {
+  pageId: string;
+  // Authors and editors can require acknowledgement and see the report
+  canManage?: boolean;
+}
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('tr-TR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function PageAcknowledgement({
+  pageId,
+  canManage = false,
+}: PageAcknowledgementProps) {
+  const [campaign, setCampaign] = useState<PageAcknowledgementInfo | null>(
+    null
+  );
+  const [loaded, setLoaded] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchCampaign = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/pages/${pageId}/acknowledgement`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Okuma onayı bilgisi yüklenemedi');
+      }
+
+      setCampaign(data.data);
+    } catch (error) {
+      console.error('Error fetching acknowledgement campaign:', error);
+    } finally {
+      setLoaded(true);
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    fetchCampaign();
+  }, [fetchCampaign]);
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `/api/pages/${pageId}/acknowledgement/confirm`,
+        { method: 'POST' }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Onay kaydedilemedi');
+      }
+
+      await fetchCampaign();
+    } catch (error) {
+      console.error('Error acknowledging page:', error);
+      setError(error instanceof Error ? error.message : 'Onay kaydedilemedi');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (!loaded || (!campaign?.inAudience && !canManage)) {
+    return null;
+  }
+
+  const isOverdue = campaign && new Date(campaign.deadline) < new Date();
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border p-6 space-y-4">
+      {campaign?.inAudience &&
+        (campaign.acknowledgement ? (
+          <div className="flex items-center gap-3 text-green-700 dark:text-green-400">
+            <CheckCircle2 className="h-5 w-5 flex-shrink-0" />
+            <p className="text-sm">
+              Bu sayfayı okuduğunuzu{' '}
+              {formatDate(campaign.acknowledgement.acknowledgedAt)} tarihinde
+              onayladınız.
+            </p>
+          </div>
+        ) : (
+          <div
+            className={`flex flex-col sm:flex-row sm:items-center gap-4 rounded-md border p-4 ${
+              isOverdue
+                ? 'border-red-300 bg-red-50 dark:bg-red-900/20'
+                : 'border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20'
+            }`}
+          >
+            <div className="flex-1">
+              <p className="font-semibold text-foreground">
+                Bu sayfa için okuma onayınız gerekiyor
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {isOverdue ? 'Son tarih geçti: ' : 'Son tarih: '}
+                {formatDate(campaign.deadline)}
+              </p>
+            </div>
+            <Button onClick={handleConfirm} disabled={isConfirming}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              {isConfirming ? 'Kaydediliyor...' : 'Okudum, anladım'}
+            </Button>
+          </div>
+        ))}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {canManage && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-muted-foreground">
+            {campaign
+              ? `Okuma onayı zorunlu, son tarih ${formatDate(campaign.deadline)}`
+              : 'Bu sayfa için okuma onayı istenmiyor'}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowSettings(true)}
+          >
+            {campaign ? 'Okuma Onayını Düzenle' : 'Okuma Onayı İste'}
+          </Button>
+          {campaign && (
+            <a href={`/api/pages/${pageId}/acknowledgement/report?format=csv`}>
+              <Button variant="outline" size="sm">
+                Raporu İndir (CSV)
+              </Button>
+            </a>
+          )}
+        </div>
+      )}
+
+      {showSettings && (
+        <AcknowledgementSettingsDialog
+          pageId={pageId}
+          campaign={campaign}
+          onClose={() => setShowSettings(false)}
+          onSaved={fetchCampaign}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,13 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { ContentType } from '@prisma/client'
 import { ChevronRightIcon, HomeIcon } from '@heroicons/react/24/outline'
+import { PageAncestor } from '@/types'
 
 interface PageBreadcrumbProps {
   pageTitle?: string
   pageType?: ContentType
   pageId?: string
+  ancestors?: PageAncestor[]
   className?: string
 }
 
@@ -19,7 +21,7 @@ const PAGE_TYPE_LABELS = {
   WARNING: 'Uyarı'
 }
 
-export function PageBreadcrumb({ pageTitle, pageType, pageId, className = '' }: PageBreadcrumbProps) {
+export function PageBreadcrumb({ pageTitle, pageType, pageId, ancestors = [], className = '' }: PageBreadcrumbProps) {
   const pathname = usePathname()
 
   // Build breadcrumb items based on current path
@@ -48,7 +50,15 @@ export function PageBreadcrumb({ pageTitle, pageType, pageId, className = '' }:
       }
       // If we're viewing/editing a specific page
       else if (pageId) {
-        if (pageType) {
+        // Nested pages show their parents, root pages their type
+        if (ancestors.length > 0) {
+          ancestors.forEach(ancestor => {
+            items.push({
+              label: ancestor.title,
+              href: `/pages/${ancestor.id}`
+            })
+          })
+        } else if (pageType) {
           items.push({
             label: PAGE_TYPE_LABELS[pageType],
             href: `/pages?pageType=${pageType}`
@@ -123,6 +133,7 @@ interface PageSpecificBreadcrumbProps {
   pageTitle: string
   pageType: ContentType
   pageId: string
+  ancestors?: PageAncestor[]
   isEditing?: boolean
   className?: string
 }
@@ -131,6 +142,7 @@ export function PageSpecificBreadcrumb({
   pageTitle, 
   pageType, 
   pageId, 
+  ancestors = [],
   isEditing = false, 
   className = '' 
 }: PageSpecificBreadcrumbProps) {
@@ -152,13 +164,30 @@ export function PageSpecificBreadcrumb({
         Sayfalar
       </Link>
       
-      <ChevronRightIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-      <Link 
-        href={`/pages?pageType=${pageType}`}
-        className="text-muted-foreground hover:text-foreground transition-colors"
-      >
-        {PAGE_TYPE_LABELS[pageType]}
-      </Link>
+      {ancestors.length > 0 ? (
+        ancestors.map(ancestor => (
+          <span key={ancestor.id} className="flex items-center space-x-1">
+            <ChevronRightIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <Link 
+              href={`/pages/${ancestor.id}`}
+              className="text-muted-foreground hover:text-foreground transition-colors truncate max-w-32 sm:max-w-none"
+              title={ancestor.title}
+            >
+              {ancestor.title}
+            </Link>
+          </span>
+        ))
+      ) : (
+        <>
+          <ChevronRightIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <Link 
+            href={`/pages?pageType=${pageType}`}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {PAGE_TYPE_LABELS[pageType]}
+          </Link>
+        </>
+      )}
       
       <ChevronRightIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
       {isEditing ? (
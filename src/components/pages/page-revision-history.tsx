@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { PageRevisionSummary, PageRevisionWithContent } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  buildSideBySideDiff,
+  sanitizeDiffHtml,
+  toComparableHtml,
+} from '@/lib/html-diff';
+
+interface PageRevisionHistoryProps {
+  pageId: string;
+  canRestore?: boolean;
+  onRestored?: () => void;
+}
+
+type CompareMode = 'previous' | 'latest';
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('tr-TR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function PageRevisionHistory({
+  pageId,
+  canRestore = false,
+  onRestored,
+}: PageRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<PageRevisionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [selected, setSelected] = useState<PageRevisionWithContent | null>(
+    null
+  );
+  const [baseline, setBaseline] = useState<PageRevisionWithContent | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchRevision = useCallback(
+    async (revisionId: string): Promise<PageRevisionWithContent> => {
+      const response = await fetch(
+        `/api/pages/${pageId}/revisions/${revisionId}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Sürüm yüklenirken bir hata oluştu');
+      }
+
+      return data.data;
+    },
+    [pageId]
+  );
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const response = await fetch(`/api/pages/${pageId}/revisions`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.error || 'Sürüm geçmişi yüklenirken bir hata oluştu'
+        );
+      }
+
+      setRevisions(data.data);
+      setSelectedId(data.data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Sürüm geçmişi yüklenirken bir hata oluştu'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  // Load the selected revision and the one it is compared against
+  useEffect(() => {
+    if (!selectedId) return;
+
+    const index = revisions.findIndex((rev) => rev.id === selectedId);
+    const baselineId =
+      compareMode === 'previous'
+        ? revisions[index + 1]?.id
+        : revisions[0]?.id !== selectedId
+          ? revisions[0]?.id
+          : undefined;
+
+    let cancelled = false;
+
+    Promise.all([
+      fetchRevision(selectedId),
+      baselineId ? fetchRevision(baselineId) : Promise.resolve(null),
+    ])
+      .then(([current, base]) => {
+        if (cancelled) return;
+        setSelected(current);
+        setBaseline(base);
+      })
+      .catch((error) => {
+        console.error('Error fetching revision:', error);
+        if (!cancelled) {
+          setError(
+            error instanceof Error
+              ? error.message
+              : 'Sürüm yüklenirken bir hata oluştu'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, compareMode, revisions, fetchRevision]);
+
+  // "previous" shows what the selected revision changed,
+  // "latest" shows what changed since the selected revision
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    if (!baseline) {
+      return compareMode === 'previous'
+        ? buildSideBySideDiff('', toComparableHtml(selected))
+        : buildSideBySideDiff(
+            toComparableHtml(selected),
+            toComparableHtml(selected)
+          );
+    }
+    return compareMode === 'previous'
+      ? buildSideBySideDiff(
+          toComparableHtml(baseline),
+          toComparableHtml(selected)
+        )
+      : buildSideBySideDiff(
+          toComparableHtml(selected),
+          toComparableHtml(baseline)
+        );
+  }, [selected, baseline, compareMode]);
+
+  const handleRestore = async () => {
+    if (!selected || !canRestore) return;
+
+    if (
+      !window.confirm(
+        `Sayfa ${selected.revisionNumber} numaralı sürüme geri döndürülecek. Devam etmek istiyor musunuz?`
+      )
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `/api/pages/${pageId}/revisions/${selected.id}/restore`,
+        { method: 'POST' }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Geri yükleme başarısız');
+      }
+
+      await fetchRevisions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Restore error:', error);
+      alert(error instanceof Error ? error.message : 'Geri yükleme başarısız');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Sürüm geçmişi yükleniyor...
+      </p>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Bu sayfa için kayıtlı sürüm bulunmuyor.
+      </p>
+    );
+  }
+
+  const isLatest = selectedId === revisions[0]?.id;
+  const leftLabel =
+    compareMode === 'previous'
+      ? baseline
+        ? `Sürüm ${baseline.revisionNumber}`
+        : 'Boş'
+      : `Sürüm ${selected?.revisionNumber ?? ''}`;
+  const rightLabel =
+    compareMode === 'previous'
+      ? `Sürüm ${selected?.revisionNumber ?? ''}`
+      : `Güncel (Sürüm ${revisions[0]?.revisionNumber})`;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+      {/* Revision list */}
+      <ul className="space-y-1 max-h-[60vh] overflow-y-auto pr-1">
+        {revisions.map((revision) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left rounded-md border px-3 py-2 text-sm transition-colors ${
+                revision.id === selectedId
+                  ? 'border-primary bg-primary/10'
+                  : 'border-border hover:bg-muted'
+              }`}
+            >
+              <div className="flex items-center gap-2 font-medium">
+                <History className="h-3.5 w-3.5" />
+                Sürüm {revision.revisionNumber}
+                {revision.id === revisions[0]?.id && (
+                  <Badge label="Güncel" color="green" />
+                )}
+                {revision.restoredFromId && (
+                  <Badge label="Geri yüklendi" color="yellow" />
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {formatDate(revision.createdAt)}
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                {revision.createdBy.name || revision.createdBy.email}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Diff view */}
+      <div className="space-y-3 min-w-0">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select
+            value={compareMode}
+            onValueChange={(value) => setCompareMode(value as CompareMode)}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="previous">Önceki sürümle karşılaştır</SelectItem>
+              <SelectItem value="latest">Güncel sürümle karşılaştır</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {canRestore && !isLatest && selected && (
+            <Button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              {isRestoring ? 'Geri yükleniyor...' : 'Bu sürümü geri yükle'}
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+          <span>{leftLabel}</span>
+          <span>{rightLabel}</span>
+        </div>
+
+        <div className="max-h-[55vh] overflow-y-auto rounded-md border border-border [&_del]:bg-red-100 [&_del]:text-red-800 [&_ins]:bg-green-100 [&_ins]:text-green-800 [&_ins]:no-underline">
+          {rows.map((row, index) => (
+            <div
+              key={index}
+              className={`grid grid-cols-2 border-b border-border last:border-b-0 ${
+                row.changed ? 'bg-yellow-50/50 dark:bg-yellow-900/10' : ''
+              }`}
+            >
+              <div
+                className="prose prose-sm max-w-none p-2 border-r border-border break-words"
+                dangerouslySetInnerHTML={{
+                  __html: row.left ? sanitizeDiffHtml(row.left) : '',
+                }}
+              />
+              <div
+                className="prose prose-sm max-w-none p-2 break-words"
+                dangerouslySetInnerHTML={{
+                  __html: row.right ? sanitizeDiffHtml(row.right) : '',
+                }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { PageTreeNode } from '@/types';
+import { PAGE_STATUS_LABELS } from '@/lib/page-status';
+
+interface PageTreeProps {
+  className?: string;
+}
+
+type DropPlacement = 'before' | 'after' | 'inside';
+
+interface DropTarget {
+  id: string;
+  placement: DropPlacement;
+}
+
+const REORDER_ROLES = ['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'];
+
+const containsNode = (node: PageTreeNode, id: string): boolean =>
+  node.id === id || node.children.some((child) => containsNode(child, id));
+
+// The sibling list that contains the page with the given id
+const findSiblings = (
+  nodes: PageTreeNode[],
+  id: string
+): PageTreeNode[] | null => {
+  if (nodes.some((node) => node.id === id)) return nodes;
+  for (const node of nodes) {
+    const siblings = findSiblings(node.children, id);
+    if (siblings) return siblings;
+  }
+  return null;
+};
+
+// Ids of the ancestors of the page with the given id
+const findAncestorIds = (
+  nodes: PageTreeNode[],
+  id: string,
+  path: string[] = []
+): string[] | null => {
+  for (const node of nodes) {
+    if (node.id === id) return path;
+    const found = findAncestorIds(node.children, id, [...path, node.id]);
+    if (found) return found;
+  }
+  return null;
+};
+
+const findNode = (nodes: PageTreeNode[], id: string): PageTreeNode | null =>
+  findSiblings(nodes, id)?.find((node) => node.id === id) ?? null;
+
+export function PageTree({ className = '' }: PageTreeProps) {
+  const pathname = usePathname();
+  const { data: session } = useSession();
+  const [tree, setTree] = useState<PageTreeNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const canReorder =
+    !!session?.user && REORDER_ROLES.includes(session.user.role);
+
+  const fetchTree = useCallback(async () => {
+    try {
+      const response = await fetch('/api/pages/tree');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Sayfa ağacı yüklenemedi');
+      }
+
+      setTree(data.data);
+    } catch (error) {
+      console.error('Error fetching page tree:', error);
+      setError(
+        error instanceof Error ? error.message : 'Sayfa ağacı yüklenemedi'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Refetch on navigation so created, moved and deleted pages show up
+  useEffect(() => {
+    fetchTree();
+  }, [fetchTree, pathname]);
+
+  // Keep the branch of the currently open page expanded
+  useEffect(() => {
+    const match = pathname.match(/^\/pages\/([^/]+)/);
+    const ancestorIds = match?.[1] ? findAncestorIds(tree, match[1]) : null;
+    if (ancestorIds && ancestorIds.length > 0) {
+      setExpanded((prev) => new Set([...prev, ...ancestorIds]));
+    }
+  }, [tree, pathname]);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, node: PageTreeNode) => {
+    if (!draggedId) return;
+
+    // A page cannot be dropped on itself or inside its own subtree
+    const dragged = findNode(tree, draggedId);
+    if (!dragged || containsNode(dragged, node.id)) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = e.clientY - rect.top;
+    const placement: DropPlacement =
+      offset < rect.height * 0.25
+        ? 'before'
+        : offset > rect.height * 0.75
+          ? 'after'
+          : 'inside';
+
+    if (dropTarget?.id !== node.id || dropTarget.placement !== placement) {
+      setDropTarget({ id: node.id, placement });
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, node: PageTreeNode) => {
+    e.preventDefault();
+    const pageId = draggedId;
+    const placement = dropTarget?.placement;
+    setDraggedId(null);
+    setDropTarget(null);
+
+    if (!pageId || !placement) return;
+
+    let parentId: string | null;
+    let position: number;
+
+    if (placement === 'inside') {
+      parentId = node.id;
+      position = node.children.filter((child) => child.id !== pageId).length;
+    } else {
+      parentId = node.parentId;
+      const siblings = (findSiblings(tree, node.id) || []).filter(
+        (sibling) => sibling.id !== pageId
+      );
+      const index = siblings.findIndex((sibling) => sibling.id === node.id);
+      position = placement === 'before' ? index : index + 1;
+    }
+
+    try {
+      setError('');
+      const response = await fetch(`/api/pages/${pageId}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ parentId, position }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Sayfa taşınamadı');
+      }
+
+      if (placement === 'inside') {
+        setExpanded((prev) => new Set(prev).add(node.id));
+      }
+    } catch (error) {
+      console.error('Error moving page:', error);
+      setError(error instanceof Error ? error.message : 'Sayfa taşınamadı');
+    } finally {
+      await fetchTree();
+    }
+  };
+
+  const renderNode = (node: PageTreeNode, depth: number) => {
+    const isExpanded = expanded.has(node.id);
+    const isActive = pathname === `/pages/${node.id}`;
+    const isDropTarget = dropTarget?.id === node.id;
+
+    return (
+      <li key={node.id}>
+        <div
+          draggable={canReorder}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', node.id);
+            setDraggedId(node.id);
+          }}
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropTarget(null);
+          }}
+          onDragOver={(e) => handleDragOver(e, node)}
+          onDragLeave={() => isDropTarget && setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, node)}
+          className={`
+            flex items-center gap-1 rounded-md py-1 pr-2 text-xs transition-colors
+            ${isActive ? 'bg-blue-50 text-blue-700' : 'text-foreground hover:bg-muted'}
+            ${draggedId === node.id ? 'opacity-50' : ''}
+            ${isDropTarget && dropTarget.placement === 'before' ? 'border-t-2 border-blue-500' : ''}
+            ${isDropTarget && dropTarget.placement === 'after' ? 'border-b-2 border-blue-500' : ''}
+            ${isDropTarget && dropTarget.placement === 'inside' ? 'ring-2 ring-blue-500' : ''}
+          `}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        >
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              onClick={() => toggleExpanded(node.id)}
+              className="flex-shrink-0 text-muted-foreground hover:text-foreground"
+              aria-label={isExpanded ? 'Daralt' : 'Genişlet'}
+            >
+              {isExpanded ? (
+                <ChevronDownIcon className="h-3.5 w-3.5" />
+              ) : (
+                <ChevronRightIcon className="h-3.5 w-3.5" />
+              )}
+            </button>
+          ) : (
+            <span className="w-3.5 flex-shrink-0" />
+          )}
+          <Link
+            href={`/pages/${node.id}`}
+            className="flex-1 truncate"
+            title={node.title}
+            draggable={false}
+          >
+            {node.title}
+          </Link>
+          {!node.published && (
+            <span className="flex-shrink-0 text-[10px] text-muted-foreground">
+              {PAGE_STATUS_LABELS[node.status]}
+            </span>
+          )}
+        </div>
+        {isExpanded && node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div
+        className={`bg-card rounded-lg shadow-sm border border-border p-4 ${className}`}
+      >
+        <div className="animate-pulse space-y-2">
+          <div className="h-3 bg-border rounded w-1/2"></div>
+          <div className="h-2 bg-border rounded"></div>
+          <div className="h-2 bg-border rounded w-4/5"></div>
+          <div className="h-2 bg-border rounded w-3/5"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-card rounded-lg shadow-sm border border-border p-4 ${className}`}
+    >
+      <h3 className="text-sm font-semibold text-foreground mb-3">
+        Sayfa Ağacı
+      </h3>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+      {tree.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Henüz sayfa bulunmuyor.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {tree.map((node) => renderNode(node, 0))}
+        </ul>
+      )}
+      {canReorder && tree.length > 0 && (
+        <p className="mt-3 text-[11px] text-muted-foreground">
+          Sıralamak veya başka bir sayfanın altına taşımak için sürükleyip
+          bırakın.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useMemo, useEffect } from 'react';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
-import { PageWithRelations } from '@/types';
+import { PageAncestor, PageWithRelations } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -17,10 +17,21 @@ import {
 import { PageHeader } from '@/components/layout/page-header';
 import FileAttachments from '@/components/files/file-attachments';
 import CommentSection from '@/components/comments/comment-section';
+import InlineComments from '@/components/comments/inline-comments';
+import PageRevisionHistory from '@/components/pages/page-revision-history';
+import PageWorkflowActions from '@/components/pages/page-workflow-actions';
+import PageAcknowledgement from '@/components/pages/page-acknowledgement';
+import {
+  PAGE_STATUS_COLORS,
+  PAGE_STATUS_LABELS,
+  SCHEDULED_LABEL,
+  isScheduled,
+} from '@/lib/page-status';
 import DOMPurify from 'dompurify';
 
 interface PageViewerProps {
   page: PageWithRelations;
+  ancestors?: PageAncestor[];
   onDelete?: () => void;
   showBreadcrumbs?: boolean;
 }
@@ -34,12 +45,14 @@ const PAGE_TYPE_LABELS = {
 
 export default function PageViewer({
   page,
+  ancestors = [],
   onDelete,
   showBreadcrumbs = true,
 }: PageViewerProps) {
   const { data: session } = useSession();
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [isClient, setIsClient] = useState(false);
 
   useEffect(() => {
@@ -142,12 +155,19 @@ export default function PageViewer({
           description={`${PAGE_TYPE_LABELS[page.pageType]} • ${page.author.name || page.author.email} • ${formatDate(page.createdAt)}`}
           breadcrumbs={[
             { label: 'Sayfalar', href: '/pages' },
+            ...ancestors.map((ancestor) => ({
+              label: ancestor.title,
+              href: `/pages/${ancestor.id}`,
+            })),
             { label: page.title },
           ]}
         >
           {/* Actions in header */}
           {canEdit && (
             <div className="flex gap-2">
+              <Link href={`/pages/create?parentId=${page.id}`}>
+                <Button variant="outline">Alt Sayfa Ekle</Button>
+              </Link>
               <Link href={`/pages/${page.id}/edit`}>
                 <Button className="bg-blue-600 text-white hover:bg-blue-700">
                   Düzenle
@@ -184,11 +204,59 @@ export default function PageViewer({
                         : 'gray'
               }
             />
+            {page.status !== 'PUBLISHED' && (
+              <Badge
+                label={PAGE_STATUS_LABELS[page.status]}
+                color={PAGE_STATUS_COLORS[page.status]}
+              />
+            )}
+            {isScheduled(page) && page.publishAt && (
+              <Badge
+                label={`${SCHEDULED_LABEL}: ${formatDate(page.publishAt)}`}
+                color="blue"
+              />
+            )}
+            {page.expiresAt && page.status === 'PUBLISHED' && (
+              <span className="text-sm text-muted-foreground">
+                Yayından kalkış: {formatDate(page.expiresAt)}
+              </span>
+            )}
             {page.updatedAt !== page.createdAt && (
               <span className="text-sm text-muted-foreground">
                 Güncelleme: {formatDate(page.updatedAt)}
               </span>
             )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => setShowHistory(true)}
+            >
+              Sürüm Geçmişi
+            </Button>
+          </div>
+
+          {/* Last review outcome */}
+          {page.reviewComment && page.status !== 'PUBLISHED' && (
+            <div className="mb-4 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-900 dark:bg-yellow-900/20 dark:text-yellow-200">
+              <span className="font-semibold">İnceleme notu</span>
+              {page.reviewedBy && (
+                <span>
+                  {' '}
+                  ({page.reviewedBy.name || page.reviewedBy.email}
+                  {page.reviewedAt && `, ${formatDate(page.reviewedAt)}`})
+                </span>
+              )}
+              : {page.reviewComment}
+            </div>
+          )}
+
+          {/* Workflow */}
+          <div className="mb-4">
+            <PageWorkflowActions
+              page={page}
+              onStatusChanged={() => window.location.reload()}
+            />
           </div>
 
           {/* Tags */}
@@ -208,8 +276,14 @@ export default function PageViewer({
 
         {/* Content */}
         <div className="bg-card rounded-lg shadow-md p-6">
-          <div className="prose">
-            {sanitizedContent ? (
+          <div className="prose max-w-none">
+            {sanitizedContent && isClient && page.published ? (
+              <InlineComments
+                pageId={page.id}
+                pageAuthorId={page.authorId}
+                html={sanitizedContent}
+              />
+            ) : sanitizedContent ? (
               <div
                 dangerouslySetInnerHTML={{ __html: sanitizedContent }}
               />
@@ -221,6 +295,9 @@ export default function PageViewer({
           </div>
         </div>
 
+        {/* Read-and-acknowledge */}
+        <PageAcknowledgement pageId={page.id} canManage={!!canEdit} />
+
         {/* Files */}
         {page.files && page.files.length > 0 && (
           <div className="bg-card rounded-lg shadow-md p-6">
@@ -239,11 +316,30 @@ export default function PageViewer({
           <CommentSection
             pageId={page.id}
             pageAuthorId={page.authorId}
-            initialCommentCount={page.comments?.length || 0}
+            initialCommentCount={page._count?.comments ?? 0}
           />
         </div>
       </div>
 
+      {/* Revision History Modal */}
+      <Dialog open={showHistory} onOpenChange={setShowHistory}>
+        <DialogContent className="max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Sürüm Geçmişi</DialogTitle>
+            <DialogDescription>
+              Sayfanın kaydedilen tüm sürümlerini inceleyin ve karşılaştırın.
+            </DialogDescription>
+          </DialogHeader>
+          {showHistory && (
+            <PageRevisionHistory
+              pageId={page.id}
+              canRestore={!!canEdit}
+              onRestored={() => window.location.reload()}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Modal */}
       <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <DialogContent>
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { ContentType, PageStatus } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  WorkflowAction,
+  WORKFLOW_ACTION_LABELS,
+  getAvailableWorkflowActions,
+} from '@/lib/page-status';
+
+interface PageWorkflowActionsProps {
+  page: {
+    id: string;
+    status: PageStatus;
+    pageType: ContentType;
+    authorId: string;
+  };
+  onStatusChanged?: () => void;
+}
+
+const ACTION_BUTTON_CLASSES: Record<WorkflowAction, string> = {
+  submit: 'bg-yellow-600 text-white hover:bg-yellow-700',
+  withdraw: 'bg-gray-600 text-white hover:bg-gray-700',
+  approve: 'bg-green-600 text-white hover:bg-green-700',
+  reject: 'bg-red-600 text-white hover:bg-red-700',
+  publish: 'bg-green-600 text-white hover:bg-green-700',
+  archive: 'bg-gray-600 text-white hover:bg-gray-700',
+  reopen: 'bg-blue-600 text-white hover:bg-blue-700',
+};
+
+// Review decisions are confirmed in a dialog so a comment can be attached
+const ACTIONS_WITH_COMMENT: WorkflowAction[] = ['approve', 'reject'];
+
+export default function PageWorkflowActions({
+  page,
+  onStatusChanged,
+}: PageWorkflowActionsProps) {
+  const { data: session } = useSession();
+  const [pendingAction, setPendingAction] = useState<WorkflowAction | null>(
+    null
+  );
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!session?.user) return null;
+
+  const actions = getAvailableWorkflowActions(page, {
+    id: session.user.id,
+    role: session.user.role,
+  });
+
+  if (actions.length === 0) return null;
+
+  const runAction = async (action: WorkflowAction, actionComment?: string) => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/pages/${page.id}/workflow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          ...(actionComment?.trim() && { comment: actionComment.trim() }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Durum güncellenemedi');
+      }
+
+      setPendingAction(null);
+      setComment('');
+      onStatusChanged?.();
+    } catch (error) {
+      console.error('Workflow error:', error);
+      setError(error instanceof Error ? error.message : 'Durum güncellenemedi');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClick = (action: WorkflowAction) => {
+    if (ACTIONS_WITH_COMMENT.includes(action)) {
+      setError('');
+      setPendingAction(action);
+    } else {
+      runAction(action);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        {actions.map((action) => (
+          <Button
+            key={action}
+            size="sm"
+            disabled={isSubmitting}
+            onClick={() => handleClick(action)}
+            className={ACTION_BUTTON_CLASSES[action]}
+          >
+            {WORKFLOW_ACTION_LABELS[action]}
+          </Button>
+        ))}
+        {error && !pendingAction && (
+          <span className="text-sm text-red-600">{error}</span>
+        )}
+      </div>
+
+      <Dialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction && WORKFLOW_ACTION_LABELS[pendingAction]}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction === 'reject'
+                ? 'Yazarın düzeltme yapabilmesi için ret gerekçesini belirtin.'
+                : 'İsterseniz onayınıza bir not ekleyebilirsiniz.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">
+              Yorum{pendingAction === 'reject' ? ' *' : ''}
+            </Label>
+            <textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+              maxLength={1000}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              İptal
+            </Button>
+            <Button
+              onClick={() => pendingAction && runAction(pendingAction, comment)}
+              disabled={
+                isSubmitting ||
+                (pendingAction === 'reject' && !comment.trim())
+              }
+              className={
+                pendingAction ? ACTION_BUTTON_CLASSES[pendingAction] : ''
+              }
+            >
+              {isSubmitting ? 'Kaydediliyor...' : 'Onayla'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { ContentType } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { SAVED_SEARCHES_CHANGED_EVENT } from './saved-searches';
+
+// Rendered only while open, so every opening starts from a fresh form
+interface SaveSearchDialogProps {
+  onClose: () => void;
+  search: {
+    query: string;
+    pageType?: ContentType;
+    tags?: string[];
+    authorId?: string;
+  };
+}
+
+export default function SaveSearchDialog({
+  onClose,
+  search,
+}: SaveSearchDialogProps) {
+  const [name, setName] = useState(search.query);
+  const [notify, setNotify] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          ...(search.query && { query: search.query }),
+          ...(search.pageType && { pageType: search.pageType }),
+          tags: search.tags || [],
+          ...(search.authorId && { authorId: search.authorId }),
+          notify,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 409
+            ? 'Bu adla kayıtlı bir aramanız zaten var'
+            : data.error || 'Arama kaydedilemedi'
+        );
+      }
+
+      window.dispatchEvent(new Event(SAVED_SEARCHES_CHANGED_EVENT));
+      onClose();
+    } catch (error) {
+      console.error('Error saving search:', error);
+      setError(error instanceof Error ? error.message : 'Arama kaydedilemedi');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Aramayı Kaydet</DialogTitle>
+          <DialogDescription>
+            Kayıtlı aramalar kenar çubuğunda listelenir ve tek tıkla yeniden
+            çalıştırılabilir.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Arama adı *</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              placeholder="Örn. Gümrük prosedürleri"
+            />
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="saved-search-notify"
+              checked={notify}
+              onCheckedChange={(checked) => setNotify(checked === true)}
+              className="mt-0.5"
+            />
+            <Label
+              htmlFor="saved-search-notify"
+              className="text-sm font-normal leading-snug"
+            >
+              Bu aramayla eşleşen sayfalar yayınlandığında veya güncellendiğinde
+              bildirim gönder
+            </Label>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            İptal
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
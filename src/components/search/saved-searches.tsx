@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { SavedSearch } from '@prisma/client';
+import {
+  BellIcon,
+  BellSlashIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+interface SavedSearchesProps {
+  className?: string;
+}
+
+// Fired on window after a search is saved so the sidebar list reloads
+export const SAVED_SEARCHES_CHANGED_EVENT = 'saved-searches:changed';
+
+/**
+ * Link to the search page with the saved filters, in the URL format
+ * search-page.tsx reads
+ */
+export const buildSavedSearchHref = (
+  search: Pick<SavedSearch, 'query' | 'pageType' | 'tags' | 'authorId'>
+) => {
+  const params = new URLSearchParams();
+  if (search.query) params.set('q', search.query);
+  if (search.pageType) params.set('type', search.pageType);
+  if (search.tags.length > 0) params.set('tags', search.tags.join(','));
+  if (search.authorId) params.set('author', search.authorId);
+
+  return `/search?${params.toString()}`;
+};
+
+export function SavedSearches({ className = '' }: SavedSearchesProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSavedSearches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/saved-searches');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Kayıtlı aramalar yüklenemedi');
+      }
+
+      setSavedSearches(data.data);
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      setError(
+        error instanceof Error ? error.message : 'Kayıtlı aramalar yüklenemedi'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSavedSearches();
+
+    window.addEventListener(SAVED_SEARCHES_CHANGED_EVENT, fetchSavedSearches);
+    return () =>
+      window.removeEventListener(
+        SAVED_SEARCHES_CHANGED_EVENT,
+        fetchSavedSearches
+      );
+  }, [fetchSavedSearches]);
+
+  const toggleNotify = async (search: SavedSearch) => {
+    try {
+      setError('');
+      const response = await fetch(`/api/saved-searches/${search.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notify: !search.notify }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Bildirim ayarı güncellenemedi');
+      }
+
+      setSavedSearches((prev) =>
+        prev.map((item) => (item.id === search.id ? data.data : item))
+      );
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      setError(
+        error instanceof Error ? error.message : 'Bildirim ayarı güncellenemedi'
+      );
+    }
+  };
+
+  const deleteSearch = async (search: SavedSearch) => {
+    if (!confirm(`"${search.name}" kayıtlı araması silinsin mi?`)) return;
+
+    try {
+      setError('');
+      const response = await fetch(`/api/saved-searches/${search.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Kayıtlı arama silinemedi');
+      }
+
+      setSavedSearches((prev) => prev.filter((item) => item.id !== search.id));
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      setError(
+        error instanceof Error ? error.message : 'Kayıtlı arama silinemedi'
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div
+        className={`bg-card rounded-lg shadow-sm border border-border p-4 ${className}`}
+      >
+        <div className="animate-pulse space-y-2">
+          <div className="h-3 bg-border rounded w-1/2"></div>
+          <div className="h-2 bg-border rounded"></div>
+          <div className="h-2 bg-border rounded w-4/5"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-card rounded-lg shadow-sm border border-border p-4 ${className}`}
+    >
+      <h3 className="text-sm font-semibold text-foreground mb-3">
+        Kayıtlı Aramalar
+      </h3>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+      {savedSearches.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Arama sayfasından sık kullandığınız aramaları kaydedebilirsiniz.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {savedSearches.map((search) => (
+            <li
+              key={search.id}
+              className="flex items-center gap-1 rounded-md px-1 py-1 text-xs hover:bg-muted"
+            >
+              <Link
+                href={buildSavedSearchHref(search)}
+                className="flex-1 truncate text-foreground"
+                title={search.name}
+              >
+                {search.name}
+              </Link>
+              <button
+                type="button"
+                onClick={() => toggleNotify(search)}
+                className={`flex-shrink-0 ${search.notify ? 'text-blue-600 hover:text-blue-800' : 'text-muted-foreground hover:text-foreground'}`}
+                title={
+                  search.notify
+                    ? 'Eşleşen sayfalar için bildirim alınıyor'
+                    : 'Eşleşen sayfalar için bildirim al'
+                }
+              >
+                {search.notify ? (
+                  <BellIcon className="h-3.5 w-3.5" />
+                ) : (
+                  <BellSlashIcon className="h-3.5 w-3.5" />
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteSearch(search)}
+                className="flex-shrink-0 text-muted-foreground hover:text-red-600"
+                title="Sil"
+              >
+                <TrashIcon className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
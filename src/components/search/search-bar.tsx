@@ -11,6 +11,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { SearchDateRange } from '@/lib/page-search';
 
 interface SearchBarProps {
   onSearch: (params: SearchParams) => void;
@@ -18,6 +19,8 @@ interface SearchBarProps {
   initialFilters?: SearchFilters;
   showAdvancedFilters?: boolean;
   loading?: boolean;
+  // "Did you mean" query offered when the last search found nothing
+  suggestion?: string | null;
 }
 
 interface SearchParams {
@@ -29,6 +32,7 @@ interface SearchFilters {
   pageType?: ContentType;
   tags?: string[];
   authorId?: string;
+  dateRange?: SearchDateRange;
   sortBy?: 'relevance' | 'date' | 'title';
   sortOrder?: 'asc' | 'desc';
 }
@@ -51,6 +55,7 @@ export default function SearchBar({
   initialFilters = {},
   showAdvancedFilters = true,
   loading = false,
+  suggestion,
 }: SearchBarProps) {
   const [query, setQuery] = useState(initialQuery);
   const [filters, setFilters] = useState<SearchFilters>(initialFilters);
@@ -110,6 +115,18 @@ export default function SearchBar({
     });
   };
 
+  // Search again with the suggested spelling
+  const handleSuggestionClick = (suggestedQuery: string) => {
+    setQuery(suggestedQuery);
+    onSearch({
+      query: suggestedQuery,
+      filters: {
+        ...filters,
+        tags: selectedTags,
+      },
+    });
+  };
+
   // Handle tag selection
   const handleTagSelect = (tag: string) => {
     if (!selectedTags.includes(tag)) {
@@ -151,7 +168,11 @@ export default function SearchBar({
 
   // Check if any filters are active
   const hasActiveFilters =
-    query || filters.pageType || selectedTags.length > 0 || filters.authorId;
+    query ||
+    filters.pageType ||
+    selectedTags.length > 0 ||
+    filters.authorId ||
+    filters.dateRange;
 
   return (
     <div className="bg-card rounded-lg shadow-md p-6 mb-6">
@@ -183,6 +204,19 @@ export default function SearchBar({
           </div>
         </div>
 
+        {suggestion && (
+          <p className="text-sm text-muted-foreground">
+            Bunu mu demek istediniz:{' '}
+            <button
+              type="button"
+              onClick={() => handleSuggestionClick(suggestion)}
+              className="font-medium italic text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              {suggestion}
+            </button>
+          </p>
+        )}
+
         {/* Advanced filters toggle */}
         {showAdvancedFilters && (
           <div className="flex items-center justify-between">
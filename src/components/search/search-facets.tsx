@@ -0,0 +1,114 @@
+'use client';
+
+import { SearchFacetBucket, SearchFacets as SearchFacetsData } from '@/types';
+import { CheckIcon } from '@heroicons/react/24/outline';
+
+export type FacetKey = keyof SearchFacetsData;
+
+interface SearchFacetsProps {
+  facets: SearchFacetsData | null;
+  // Currently selected value(s) per facet
+  selected: Record<FacetKey, string[]>;
+  onToggle: (facet: FacetKey, value: string) => void;
+  className?: string;
+}
+
+const PAGE_TYPE_LABELS: Record<string, string> = {
+  INFO: 'Bilgi',
+  PROCEDURE: 'Prosedür',
+  ANNOUNCEMENT: 'Duyuru',
+  WARNING: 'Uyarı',
+};
+
+const DATE_RANGE_LABELS: Record<string, string> = {
+  '7d': 'Son 7 gün',
+  '30d': 'Son 30 gün',
+  '1y': 'Son 1 yıl',
+  older: '1 yıldan eski',
+};
+
+const FACET_SECTIONS: {
+  key: FacetKey;
+  title: string;
+  getLabel: (bucket: SearchFacetBucket) => string;
+}[] = [
+  {
+    key: 'pageType',
+    title: 'Sayfa Tipi',
+    getLabel: (bucket) => PAGE_TYPE_LABELS[bucket.value] || bucket.value,
+  },
+  {
+    key: 'tags',
+    title: 'Etiketler',
+    getLabel: (bucket) => `#${bucket.value}`,
+  },
+  {
+    key: 'authors',
+    title: 'Yazarlar',
+    getLabel: (bucket) => bucket.label || 'Bilinmiyor',
+  },
+  {
+    key: 'dateRange',
+    title: 'Oluşturulma Tarihi',
+    getLabel: (bucket) => DATE_RANGE_LABELS[bucket.value] || bucket.value,
+  },
+];
+
+export default function SearchFacets({
+  facets,
+  selected,
+  onToggle,
+  className = '',
+}: SearchFacetsProps) {
+  if (!facets) return null;
+
+  const sections = FACET_SECTIONS.filter(
+    (section) => facets[section.key].length > 0
+  );
+
+  if (sections.length === 0) return null;
+
+  return (
+    <div
+      className={`bg-card rounded-lg shadow-sm border border-border p-4 space-y-5 ${className}`}
+    >
+      {sections.map((section) => (
+        <div key={section.key}>
+          <h3 className="text-sm font-semibold text-foreground mb-2">
+            {section.title}
+          </h3>
+          <ul className="space-y-0.5">
+            {facets[section.key].map((bucket) => {
+              const isActive = selected[section.key].includes(bucket.value);
+              const label = section.getLabel(bucket);
+
+              return (
+                <li key={bucket.value}>
+                  <button
+                    type="button"
+                    onClick={() => onToggle(section.key, bucket.value)}
+                    className={`
+                      flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm transition-colors
+                      ${isActive ? 'bg-blue-50 text-blue-700' : 'text-foreground hover:bg-muted'}
+                    `}
+                    aria-pressed={isActive}
+                  >
+                    <span className="flex h-3.5 w-3.5 flex-shrink-0 items-center justify-center">
+                      {isActive && <CheckIcon className="h-3.5 w-3.5" />}
+                    </span>
+                    <span className="flex-1 truncate" title={label}>
+                      {label}
+                    </span>
+                    <span className="flex-shrink-0 text-xs text-muted-foreground">
+                      {bucket.count}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
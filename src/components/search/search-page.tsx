@@ -3,14 +3,20 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { ContentType } from '@prisma/client';
-import { PageWithRelations } from '@/types';
+import { PageSearchResult, SearchFacets as SearchFacetsData } from '@/types';
+import type { SearchDateRange } from '@/lib/page-search';
 import SearchBar from './search-bar';
 import SearchResults from './search-results';
+import SearchFacets, { FacetKey } from './search-facets';
+import SaveSearchDialog from './save-search-dialog';
+import { Button } from '@/components/ui/button';
+import { BookmarkIcon } from '@heroicons/react/24/outline';
 
 interface SearchFilters {
   pageType?: ContentType;
   tags?: string[];
   authorId?: string;
+  dateRange?: SearchDateRange;
   sortBy?: 'relevance' | 'date' | 'title';
   sortOrder?: 'asc' | 'desc';
 }
@@ -31,9 +37,12 @@ export default function SearchPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
 
-  const [results, setResults] = useState<PageWithRelations[]>([]);
+  const [results, setResults] = useState<PageSearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [facets, setFacets] = useState<SearchFacetsData | null>(null);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [pagination, setPagination] = useState<PaginationData>({
     page: 1,
     limit: 10,
@@ -47,6 +56,8 @@ export default function SearchPage() {
     const pageType = (searchParams.get('type') as ContentType) || undefined;
     const tags = searchParams.get('tags')?.split(',').filter(Boolean) || [];
     const authorId = searchParams.get('author') || undefined;
+    const dateRange =
+      (searchParams.get('date') as SearchDateRange) || undefined;
     const sortBy =
       (searchParams.get('sort') as 'relevance' | 'date' | 'title') ||
       'relevance';
@@ -58,6 +69,7 @@ export default function SearchPage() {
         pageType,
         tags: tags.length > 0 ? tags : undefined,
         authorId,
+        dateRange,
         sortBy,
         sortOrder,
       },
@@ -76,6 +88,8 @@ export default function SearchPage() {
         urlParams.set('tags', params.filters.tags.join(','));
       if (params.filters.authorId)
         urlParams.set('author', params.filters.authorId);
+      if (params.filters.dateRange)
+        urlParams.set('date', params.filters.dateRange);
       if (params.filters.sortBy && params.filters.sortBy !== 'relevance') {
         urlParams.set('sort', params.filters.sortBy);
       }
@@ -106,6 +120,8 @@ export default function SearchPage() {
           searchURL.set('tags', params.filters.tags.join(','));
         if (params.filters.authorId)
           searchURL.set('authorId', params.filters.authorId);
+        if (params.filters.dateRange)
+          searchURL.set('dateRange', params.filters.dateRange);
         if (params.filters.sortBy)
           searchURL.set('sortBy', params.filters.sortBy);
         if (params.filters.sortOrder)
@@ -124,6 +140,8 @@ export default function SearchPage() {
         if (result.success) {
           setResults(result.data);
           setPagination(result.pagination);
+          setSuggestion(result.suggestion ?? null);
+          setFacets(result.facets ?? null);
         } else {
           throw new Error(result.error || 'Bir hata oluştu');
         }
@@ -134,6 +152,8 @@ export default function SearchPage() {
         );
         setResults([]);
         setPagination({ page: 1, limit: 10, total: 0, totalPages: 0 });
+        setSuggestion(null);
+        setFacets(null);
       } finally {
         setLoading(false);
       }
@@ -170,34 +190,128 @@ export default function SearchPage() {
       params.query ||
       params.filters.pageType ||
       params.filters.tags?.length ||
-      params.filters.authorId
+      params.filters.authorId ||
+      params.filters.dateRange
     ) {
       performSearch(params, page);
     }
   }, [searchParams, getInitialParams, performSearch]);
 
   const initialParams = getInitialParams();
+  const hasSearchCriteria = !!(
+    initialParams.query ||
+    initialParams.filters.pageType ||
+    initialParams.filters.tags?.length ||
+    initialParams.filters.authorId ||
+    initialParams.filters.dateRange
+  );
+
+  // Clicking a facet selects its value, clicking it again clears it.
+  // Tags combine, the other facets hold a single value.
+  const handleFacetToggle = (facet: FacetKey, value: string) => {
+    const { query, filters } = getInitialParams();
+    const nextFilters = { ...filters };
+
+    switch (facet) {
+      case 'pageType':
+        nextFilters.pageType =
+          filters.pageType === value ? undefined : (value as ContentType);
+        break;
+      case 'tags': {
+        const tags = filters.tags || [];
+        const nextTags = tags.includes(value)
+          ? tags.filter((tag) => tag !== value)
+          : [...tags, value];
+        nextFilters.tags = nextTags.length > 0 ? nextTags : undefined;
+        break;
+      }
+      case 'authors':
+        nextFilters.authorId = filters.authorId === value ? undefined : value;
+        break;
+      case 'dateRange':
+        nextFilters.dateRange =
+          filters.dateRange === value ? undefined : (value as SearchDateRange);
+        break;
+    }
+
+    handleSearch({ query, filters: nextFilters });
+  };
 
   return (
     <div>
-      {/* Search Bar */}
+      {/* Search Bar, remounted when the URL changes so facet clicks show up in its filters */}
       <SearchBar
+        key={searchParams.toString()}
         onSearch={handleSearch}
         initialQuery={initialParams.query}
         initialFilters={initialParams.filters}
         showAdvancedFilters={true}
         loading={loading}
+        suggestion={!loading && results.length === 0 ? suggestion : null}
       />
 
-      {/* Search Results */}
-      <SearchResults
-        results={results}
-        loading={loading}
-        error={error}
-        pagination={pagination}
-        onPageChange={handlePageChange}
-        searchQuery={initialParams.query}
-      />
+      {hasSearchCriteria && (
+        <div className="flex justify-end mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowSaveDialog(true)}
+          >
+            <BookmarkIcon className="h-4 w-4 mr-1" />
+            Aramayı Kaydet
+          </Button>
+        </div>
+      )}
+
+      {showSaveDialog && (
+        <SaveSearchDialog
+          onClose={() => setShowSaveDialog(false)}
+          search={{
+            query: initialParams.query,
+            pageType: initialParams.filters.pageType,
+            tags: initialParams.filters.tags,
+            authorId: initialParams.filters.authorId,
+          }}
+        />
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+        {hasSearchCriteria && facets && (
+          <SearchFacets
+            facets={facets}
+            selected={{
+              pageType: initialParams.filters.pageType
+                ? [initialParams.filters.pageType]
+                : [],
+              tags: initialParams.filters.tags || [],
+              authors: initialParams.filters.authorId
+                ? [initialParams.filters.authorId]
+                : [],
+              dateRange: initialParams.filters.dateRange
+                ? [initialParams.filters.dateRange]
+                : [],
+            }}
+            onToggle={handleFacetToggle}
+            className="self-start"
+          />
+        )}
+
+        {/* Search Results */}
+        <div
+          className={
+            hasSearchCriteria && facets ? 'lg:col-span-3' : 'lg:col-span-4'
+          }
+        >
+          <SearchResults
+            results={results}
+            loading={loading}
+            error={error}
+            pagination={pagination}
+            onPageChange={handlePageChange}
+            searchQuery={initialParams.query}
+          />
+        </div>
+      </div>
     </div>
   );
 }
@@ -1,7 +1,8 @@
 'use client';
 
 import Link from 'next/link';
-import { PageWithRelations } from '@/types';
+import DOMPurify from 'dompurify';
+import { PageSearchResult } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import {
@@ -17,7 +18,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 
 interface SearchResultsProps {
-  results: PageWithRelations[];
+  results: PageSearchResult[];
   loading: boolean;
   error: string | null;
   pagination: {
@@ -92,25 +93,18 @@ export default function SearchResults({
     return plainText.substring(0, maxLength) + '...';
   };
 
-  const highlightSearchTerm = (text: string, searchTerm?: string) => {
-    if (!searchTerm || !text) return text;
-
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    const parts = text.split(regex);
-
-    return parts.map((part, index) =>
-      regex.test(part) ? (
-        <mark
-          key={index}
-          className="bg-yellow-200 dark:bg-yellow-900/30 px-1 rounded"
-        >
-          {part}
-        </mark>
-      ) : (
-        part
-      )
-    );
-  }; // <-- Properly close highlightSearchTerm function
+  // The API escapes everything except the <mark> tags around matched terms
+  const renderHighlight = (html: string) => (
+    <span
+      className="[&_mark]:bg-yellow-200 [&_mark]:dark:bg-yellow-900/30 [&_mark]:px-0.5 [&_mark]:rounded [&_mark]:text-inherit"
+      dangerouslySetInnerHTML={{
+        __html: DOMPurify.sanitize(html, {
+          ALLOWED_TAGS: ['mark'],
+          ALLOWED_ATTR: [],
+        }),
+      }}
+    />
+  );
 
   if (loading) {
     return (
@@ -190,15 +184,34 @@ export default function SearchResults({
                 href={`/pages/${result.id}`}
                 className="font-semibold text-lg text-card-foreground hover:underline"
               >
-                {highlightSearchTerm(result.title, searchQuery)}
+                {result.highlightedTitle
+                  ? renderHighlight(result.highlightedTitle)
+                  : result.title}
               </Link>
             </div>
             <div className="mb-2 text-muted-foreground">
-              {highlightSearchTerm(
-                truncateContent(result.content || ''),
-                searchQuery
-              )}
+              {result.snippet !== undefined
+                ? renderHighlight(result.snippet)
+                : truncateContent(result.content || '')}
             </div>
+            {result.attachmentHits && result.attachmentHits.length > 0 && (
+              <ul className="mb-2 space-y-2 border-l-2 border-border pl-3">
+                {result.attachmentHits.map((hit) => (
+                  <li key={hit.fileId} className="text-sm">
+                    <Link
+                      href={`/pages/${result.id}`}
+                      className="flex items-center gap-1 font-medium text-card-foreground hover:underline"
+                    >
+                      <PaperClipIcon className="h-4 w-4" />
+                      {hit.originalName}
+                    </Link>
+                    <div className="text-muted-foreground">
+                      {renderHighlight(hit.snippet)}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
             <div className="flex gap-4 text-sm text-muted-foreground mt-2">
               <span className="flex items-center gap-1">
                 <UserIcon className="h-4 w-4" />
@@ -8,6 +8,9 @@ import {
   ExclamationTriangleIcon,
   InformationCircleIcon,
   ChatBubbleLeftIcon,
+  ClipboardDocumentCheckIcon,
+  MagnifyingGlassIcon,
+  AtSymbolIcon,
   TrashIcon,
   EyeIcon,
   EyeSlashIcon,
@@ -21,7 +24,7 @@ interface NotificationHistoryProps {
   showFilters?: boolean;
 }
 
-type NotificationFilter = 'all' | 'unread' | 'announcement' | 'warning' | 'comment' | 'update';
+type NotificationFilter = 'all' | 'unread' | 'announcement' | 'warning' | 'comment' | 'mention' | 'update';
 
 export function NotificationHistory({
   limit = 50,
@@ -150,6 +153,12 @@ export function NotificationHistory({
         return <ChatBubbleLeftIcon className="h-5 w-5 text-green-600" />;
       case 'update':
         return <InformationCircleIcon className="h-5 w-5 text-yellow-600" />;
+      case 'review':
+        return <ClipboardDocumentCheckIcon className="h-5 w-5 text-purple-600" />;
+      case 'saved_search':
+        return <MagnifyingGlassIcon className="h-5 w-5 text-teal-600" />;
+      case 'mention':
+        return <AtSymbolIcon className="h-5 w-5 text-indigo-600" />;
       default:
         return <BellIcon className="h-5 w-5 text-muted-foreground" />;
     }
@@ -165,6 +174,12 @@ export function NotificationHistory({
         return 'Yorum';
       case 'update':
         return 'Güncelleme';
+      case 'review':
+        return 'İnceleme';
+      case 'saved_search':
+        return 'Kayıtlı Arama';
+      case 'mention':
+        return 'Bahsetme';
       default:
         return 'Bildirim';
     }
@@ -183,6 +198,7 @@ export function NotificationHistory({
             { key: 'announcement', label: 'Duyurular' },
             { key: 'warning', label: 'Uyarılar' },
             { key: 'comment', label: 'Yorumlar' },
+            { key: 'mention', label: 'Bahsetmeler' },
             { key: 'update', label: 'Güncellemeler' },
           ].map(({ key, label }) => (
             <button
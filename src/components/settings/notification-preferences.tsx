@@ -3,15 +3,62 @@
 import { useState, useEffect } from 'react';
 import { Switch } from '@headlessui/react';
 import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  minutesToTime,
+  NOTIFICATION_CATEGORIES,
+  QUIET_HOURS_TIME_ZONE,
+  timeToMinutes,
+} from '@/lib/notification-utils-client';
 
+type EmailFrequency = 'OFF' | 'IMMEDIATE' | 'DAILY' | 'WEEKLY';
 
 interface NotificationPreferencesData {
   inAppNotifications: boolean;
+  emailFrequency: EmailFrequency;
+  mutedInAppTypes: string[];
+  mutedEmailTypes: string[];
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
 }
 
+// Suggested quiet hours when they are first turned on: 22:00–07:00
+const DEFAULT_QUIET_HOURS = { start: 22 * 60, end: 7 * 60 };
+
+const EMAIL_FREQUENCY_OPTIONS: {
+  value: EmailFrequency;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'OFF',
+    label: 'Kapalı',
+    description: 'E-posta gönderilmez',
+  },
+  {
+    value: 'IMMEDIATE',
+    label: 'Anında',
+    description: 'Her yeni bildirim birkaç dakika içinde e-postayla gelir',
+  },
+  {
+    value: 'DAILY',
+    label: 'Günlük özet',
+    description: 'Okunmamış bildirimler günde bir kez tek e-postada gelir',
+  },
+  {
+    value: 'WEEKLY',
+    label: 'Haftalık özet',
+    description: 'Okunmamış bildirimler haftada bir kez tek e-postada gelir',
+  },
+];
+
 export function NotificationPreferences() {
   const [preferences, setPreferences] = useState<NotificationPreferencesData>({
     inAppNotifications: true,
+    emailFrequency: 'OFF',
+    mutedInAppTypes: [],
+    mutedEmailTypes: [],
+    quietHoursStart: null,
+    quietHoursEnd: null,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -34,6 +81,11 @@ export function NotificationPreferences() {
       if (data.success && data.data) {
         setPreferences({
           inAppNotifications: data.data.inAppNotifications,
+          emailFrequency: data.data.emailFrequency,
+          mutedInAppTypes: data.data.mutedInAppTypes,
+          mutedEmailTypes: data.data.mutedEmailTypes,
+          quietHoursStart: data.data.quietHoursStart,
+          quietHoursEnd: data.data.quietHoursEnd,
         });
       }
     } catch (error) {
@@ -77,7 +129,7 @@ export function NotificationPreferences() {
     }
   };
 
-  const handleToggle = (key: keyof NotificationPreferencesData) => {
+  const handleToggle = (key: 'inAppNotifications') => {
     const newPreferences = {
       ...preferences,
       [key]: !preferences[key],
@@ -85,6 +137,42 @@ export function NotificationPreferences() {
     updatePreferences(newPreferences);
   };
 
+  const handleEmailFrequencyChange = (emailFrequency: EmailFrequency) => {
+    if (emailFrequency === preferences.emailFrequency) return;
+    updatePreferences({ ...preferences, emailFrequency });
+  };
+
+  const handleCategoryToggle = (
+    key: 'mutedInAppTypes' | 'mutedEmailTypes',
+    type: string
+  ) => {
+    const muted = preferences[key];
+    updatePreferences({
+      ...preferences,
+      [key]: muted.includes(type)
+        ? muted.filter((mutedType) => mutedType !== type)
+        : [...muted, type],
+    });
+  };
+
+  const quietHoursEnabled = preferences.quietHoursStart !== null;
+
+  const handleQuietHoursToggle = () => {
+    updatePreferences({
+      ...preferences,
+      quietHoursStart: quietHoursEnabled ? null : DEFAULT_QUIET_HOURS.start,
+      quietHoursEnd: quietHoursEnabled ? null : DEFAULT_QUIET_HOURS.end,
+    });
+  };
+
+  const handleQuietHoursChange = (
+    key: 'quietHoursStart' | 'quietHoursEnd',
+    time: string
+  ) => {
+    if (!time) return;
+    updatePreferences({ ...preferences, [key]: timeToMinutes(time) });
+  };
+
   // Clear message after 5 seconds
   useEffect(() => {
     if (message) {
@@ -155,6 +243,161 @@ export function NotificationPreferences() {
           </Switch>
         </div>
 
+        {/* Email Notifications */}
+        <div className="py-4 border-b border-border">
+          <h3 className="text-base font-medium text-foreground">
+            E-posta Bildirimleri
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Uygulamayı açmadığınızda okunmamış bildirimlerinizi e-postayla alın
+          </p>
+          <div className="mt-4 grid gap-2 sm:grid-cols-2">
+            {EMAIL_FREQUENCY_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className={`flex items-start space-x-3 rounded-md border p-3 cursor-pointer ${
+                  preferences.emailFrequency === option.value
+                    ? 'border-blue-600 bg-blue-50 dark:bg-blue-950/30'
+                    : 'border-border'
+                } ${saving ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <input
+                  type="radio"
+                  name="emailFrequency"
+                  value={option.value}
+                  checked={preferences.emailFrequency === option.value}
+                  onChange={() => handleEmailFrequencyChange(option.value)}
+                  disabled={saving}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-foreground">
+                    {option.label}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {option.description}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Per-category channels */}
+        <div className="py-4 border-b border-border">
+          <h3 className="text-base font-medium text-foreground">
+            Bildirim Türleri
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Hangi bildirimleri hangi kanaldan almak istediğinizi seçin
+          </p>
+          <table className="mt-4 w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 font-medium">Olay</th>
+                <th className="py-2 font-medium text-center w-28">
+                  Uygulama içi
+                </th>
+                <th className="py-2 font-medium text-center w-28">E-posta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {NOTIFICATION_CATEGORIES.map((category) => (
+                <tr key={category.type} className="border-t border-border">
+                  <td className="py-2 text-foreground">{category.label}</td>
+                  <td className="py-2 text-center">
+                    <input
+                      type="checkbox"
+                      aria-label={`${category.label} - uygulama içi`}
+                      checked={
+                        !preferences.mutedInAppTypes.includes(category.type)
+                      }
+                      onChange={() =>
+                        handleCategoryToggle('mutedInAppTypes', category.type)
+                      }
+                      disabled={saving || !preferences.inAppNotifications}
+                    />
+                  </td>
+                  <td className="py-2 text-center">
+                    <input
+                      type="checkbox"
+                      aria-label={`${category.label} - e-posta`}
+                      checked={
+                        !preferences.mutedEmailTypes.includes(category.type)
+                      }
+                      onChange={() =>
+                        handleCategoryToggle('mutedEmailTypes', category.type)
+                      }
+                      disabled={saving || preferences.emailFrequency === 'OFF'}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Quiet Hours */}
+        <div className="py-4 border-b border-border space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              <h3 className="text-base font-medium text-foreground">
+                Sessiz Saatler
+              </h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Bu saatlerde yalnızca önemli uyarılar anında bildirilir. Diğer
+                bildirimler listede birikir, e-postalar sessiz saatler
+                bittikten sonra gönderilir.
+              </p>
+            </div>
+            <Switch
+              checked={quietHoursEnabled}
+              onChange={handleQuietHoursToggle}
+              disabled={saving}
+              className={`${
+                quietHoursEnabled ? 'bg-blue-600' : 'bg-border'
+              } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50`}
+            >
+              <span
+                className={`${
+                  quietHoursEnabled ? 'translate-x-6' : 'translate-x-1'
+                } inline-block h-4 w-4 transform rounded-full bg-card transition-transform`}
+              />
+            </Switch>
+          </div>
+          {quietHoursEnabled && (
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">Başlangıç</span>
+                <input
+                  type="time"
+                  value={minutesToTime(preferences.quietHoursStart ?? 0)}
+                  onChange={(e) =>
+                    handleQuietHoursChange('quietHoursStart', e.target.value)
+                  }
+                  disabled={saving}
+                  className="rounded-md border border-input bg-background px-2 py-1 text-foreground"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">Bitiş</span>
+                <input
+                  type="time"
+                  value={minutesToTime(preferences.quietHoursEnd ?? 0)}
+                  onChange={(e) =>
+                    handleQuietHoursChange('quietHoursEnd', e.target.value)
+                  }
+                  disabled={saving}
+                  className="rounded-md border border-input bg-background px-2 py-1 text-foreground"
+                />
+              </label>
+              <span className="text-xs text-muted-foreground">
+                Saatler {QUIET_HOURS_TIME_ZONE} saatine göredir.
+              </span>
+            </div>
+          )}
+        </div>
+
         {/* Information Section */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-start space-x-3">
@@ -173,14 +416,17 @@ export function NotificationPreferences() {
             </div>
             <div className="flex-1">
               <h4 className="text-sm font-medium text-blue-900">
-                Bildirim Türleri
+                Diğer Bildirimler
               </h4>
               <div className="mt-2 text-sm text-blue-800">
-                <ul className="list-disc list-inside space-y-1">
-                  <li>Yeni duyurular yayınlandığında</li>
-                  <li>Önemli uyarılar paylaşıldığında</li>
-                  <li>Sayfalarınıza yorum eklendiğinde</li>
-                  <li>İçerikler güncellendiğinde</li>
+                <p>
+                  Aşağıdaki bildirimler yalnızca genel uygulama içi ve e-posta
+                  ayarlarınıza göre gönderilir:
+                </p>
+                <ul className="mt-1 list-disc list-inside space-y-1">
+                  <li>İnceleme talepleri ve inceleme sonuçları</li>
+                  <li>Kayıtlı aramalarınızla eşleşen sayfalar</li>
+                  <li>Yöneticilerin gönderdiği bildirimler</li>
                 </ul>
               </div>
             </div>
@@ -193,9 +439,10 @@ export function NotificationPreferences() {
             Bildirim Ayarları Hakkında
           </h4>
           <p className="text-sm text-muted-foreground">
-            Bu ayarlar sadece uygulama içi bildirimleri etkiler. Sistem,
-            güvenlik nedeniyle e-posta bildirimleri göndermez. Tüm bildirimler
-            gerçek zamanlı olarak uygulama içinde görüntülenir.
+            E-postalar yalnızca henüz okumadığınız bildirimleri içerir. Her
+            e-postadaki bağlantıyla giriş yapmadan e-posta bildirimlerinden
+            çıkabilirsiniz. Tüm bildirimler gerçek zamanlı olarak uygulama
+            içinde de görüntülenir.
           </p>
         </div>
       </div>
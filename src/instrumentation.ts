@@ -0,0 +1,17 @@
+/**
+ * Next.js server startup hook. Starts background jobs in the Node.js runtime.
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME !== 'nodejs' ||
+    process.env.NEXT_PHASE === 'phase-production-build'
+  ) {
+    return;
+  }
+
+  const { startPageScheduler } = await import('@/lib/page-schedule');
+  startPageScheduler();
+
+  const { startFileScanner } = await import('@/lib/file-scanning');
+  startFileScanner();
+}
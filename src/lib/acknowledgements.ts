@@ -0,0 +1,333 @@
+import { AcknowledgementCampaign, Prisma, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { AuthorizationError, NotFoundError } from '@/lib/errors';
+import { AcknowledgementCampaignInput } from '@/lib/validations';
+import { AcknowledgementStatus } from '@/types';
+
+// Pending users are reminded once when the deadline is this close
+export const ACKNOWLEDGEMENT_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ComplianceReportEntry {
+  userId: string;
+  name: string | null;
+  email: string;
+  role: UserRole;
+  status: AcknowledgementStatus;
+  acknowledgedAt: Date | null;
+  // Confirmed, but after the deadline
+  late: boolean;
+}
+
+type CampaignAudience = Pick<
+  AcknowledgementCampaign,
+  'targetRoles' | 'targetUserIds'
+>;
+
+interface CampaignUser {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Where clause for the users a campaign targets
+ */
+export function getAudienceWhere(
+  campaign: CampaignAudience
+): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { role: { in: campaign.targetRoles } },
+      { id: { in: campaign.targetUserIds } },
+    ],
+  };
+}
+
+export function isInAudience(campaign: CampaignAudience, user: CampaignUser) {
+  return (
+    campaign.targetRoles.includes(user.role) ||
+    campaign.targetUserIds.includes(user.id)
+  );
+}
+
+/**
+ * Authors and editors manage the acknowledgement campaign of a page
+ */
+export function canManageAcknowledgements(
+  page: { authorId: string },
+  user: CampaignUser
+) {
+  return (
+    page.authorId === user.id ||
+    ['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'].includes(user.role)
+  );
+}
+
+async function getManageablePage(pageId: string, user: CampaignUser) {
+  const page = await prisma.page.findUnique({
+    where: { id: pageId },
+    select: { id: true, authorId: true, published: true },
+  });
+
+  if (!page) {
+    throw new NotFoundError('Page not found');
+  }
+
+  if (!canManageAcknowledgements(page, user)) {
+    throw new AuthorizationError(
+      'You do not have permission to manage acknowledgements for this page'
+    );
+  }
+
+  return page;
+}
+
+/**
+ * The page's campaign with the given user's own acknowledgement, if any
+ */
+export async function getPageAcknowledgement(
+  pageId: string,
+  user: CampaignUser
+) {
+  const campaign = await prisma.acknowledgementCampaign.findUnique({
+    where: { pageId },
+    include: {
+      acknowledgements: {
+        where: { userId: user.id },
+        select: { acknowledgedAt: true, revisionNumber: true },
+      },
+    },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  const { acknowledgements, ...rest } = campaign;
+
+  return {
+    ...rest,
+    inAudience: isInAudience(campaign, user),
+    acknowledgement: acknowledgements[0] ?? null,
+  };
+}
+
+/**
+ * Create or change the campaign of a page. A moved deadline re-arms the
+ * reminder. Returns the previous campaign so only users who joined the
+ * audience get notified.
+ */
+export async function setAcknowledgementCampaign(
+  pageId: string,
+  data: AcknowledgementCampaignInput,
+  user: CampaignUser
+) {
+  await getManageablePage(pageId, user);
+
+  const previous = await prisma.acknowledgementCampaign.findUnique({
+    where: { pageId },
+  });
+
+  const campaign = await prisma.acknowledgementCampaign.upsert({
+    where: { pageId },
+    create: { pageId, ...data, createdById: user.id },
+    update: {
+      ...data,
+      ...(previous?.deadline.getTime() !== data.deadline.getTime() && {
+        reminderSentAt: null,
+      }),
+    },
+  });
+
+  return { campaign, previous };
+}
+
+export async function removeAcknowledgementCampaign(
+  pageId: string,
+  user: CampaignUser
+) {
+  await getManageablePage(pageId, user);
+
+  const { count } = await prisma.acknowledgementCampaign.deleteMany({
+    where: { pageId },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError('Acknowledgement campaign not found');
+  }
+}
+
+/**
+ * Record that the user read and understood the current revision of a
+ * published page
+ */
+export async function acknowledgePage(pageId: string, user: CampaignUser) {
+  const campaign = await prisma.acknowledgementCampaign.findFirst({
+    where: { pageId, page: { published: true } },
+  });
+
+  if (!campaign) {
+    throw new NotFoundError('Acknowledgement campaign not found');
+  }
+
+  if (!isInAudience(campaign, user)) {
+    throw new AuthorizationError(
+      'This page does not require your acknowledgement'
+    );
+  }
+
+  const latest = await prisma.pageRevision.aggregate({
+    where: { pageId },
+    _max: { revisionNumber: true },
+  });
+
+  // The first confirmation counts, repeated clicks keep it
+  return prisma.pageAcknowledgement.upsert({
+    where: { campaignId_userId: { campaignId: campaign.id, userId: user.id } },
+    create: {
+      campaignId: campaign.id,
+      userId: user.id,
+      revisionNumber: latest._max.revisionNumber,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Every user in the campaign audience with their acknowledgement status
+ */
+export async function getComplianceReport(
+  pageId: string,
+  user: CampaignUser,
+  now = new Date()
+) {
+  await getManageablePage(pageId, user);
+
+  const campaign = await prisma.acknowledgementCampaign.findUnique({
+    where: { pageId },
+    include: {
+      page: { select: { id: true, title: true } },
+      acknowledgements: {
+        select: { userId: true, acknowledgedAt: true },
+      },
+    },
+  });
+
+  if (!campaign) {
+    throw new NotFoundError('Acknowledgement campaign not found');
+  }
+
+  // Users who acknowledged and later left the audience are still listed
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        getAudienceWhere(campaign),
+        { id: { in: campaign.acknowledgements.map((ack) => ack.userId) } },
+      ],
+    },
+    select: { id: true, name: true, email: true, role: true },
+    orderBy: [{ name: 'asc' }, { email: 'asc' }],
+  });
+
+  const acknowledgedAt = new Map(
+    campaign.acknowledgements.map((ack) => [ack.userId, ack.acknowledgedAt])
+  );
+  const isOverdue = now > campaign.deadline;
+
+  const entries: ComplianceReportEntry[] = users.map((user) => {
+    const confirmedAt = acknowledgedAt.get(user.id) ?? null;
+
+    return {
+      userId: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      status: confirmedAt ? 'acknowledged' : isOverdue ? 'overdue' : 'pending',
+      acknowledgedAt: confirmedAt,
+      late: confirmedAt !== null && confirmedAt > campaign.deadline,
+    };
+  });
+
+  return {
+    page: campaign.page,
+    deadline: campaign.deadline,
+    summary: {
+      total: entries.length,
+      acknowledged: entries.filter((e) => e.status === 'acknowledged').length,
+      pending: entries.filter((e) => e.status === 'pending').length,
+      overdue: entries.filter((e) => e.status === 'overdue').length,
+    },
+    entries,
+  };
+}
+
+const STATUS_LABELS: Record<AcknowledgementStatus, string> = {
+  acknowledged: 'Onaylandı',
+  pending: 'Bekliyor',
+  overdue: 'Süresi geçti',
+};
+
+// Quote when needed and keep spreadsheet apps from running formulas
+const toCsvField = (raw: string) => {
+  const value = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Compliance report as CSV, with a BOM so Excel reads Turkish letters
+ */
+export function buildComplianceCsv(entries: ComplianceReportEntry[]) {
+  const header = ['Ad', 'E-posta', 'Rol', 'Durum', 'Onay Tarihi', 'Gecikmeli'];
+  const rows = entries.map((entry) => [
+    entry.name || '',
+    entry.email,
+    entry.role,
+    STATUS_LABELS[entry.status],
+    entry.acknowledgedAt ? entry.acknowledgedAt.toISOString() : '',
+    entry.late ? 'Evet' : 'Hayır',
+  ]);
+
+  return (
+    '\uFEFF' +
+    [header, ...rows].map((row) => row.map(toCsvField).join(',')).join('\r\n')
+  );
+}
+
+/**
+ * Campaigns with their acknowledgement counts, nearest deadline first
+ */
+export async function listAcknowledgementCampaigns() {
+  const campaigns = await prisma.acknowledgementCampaign.findMany({
+    include: {
+      page: { select: { id: true, title: true } },
+      _count: { select: { acknowledgements: true } },
+    },
+    orderBy: { deadline: 'asc' },
+  });
+
+  return Promise.all(
+    campaigns.map(async ({ _count, ...campaign }) => ({
+      ...campaign,
+      audienceCount: await prisma.user.count({
+        where: getAudienceWhere(campaign),
+      }),
+      acknowledgedCount: _count.acknowledgements,
+    }))
+  );
+}
+
+/**
+ * Campaigns of published pages whose deadline is within the reminder window
+ * and that have not been reminded yet
+ */
+export async function findCampaignsDueForReminder(now = new Date()) {
+  return prisma.acknowledgementCampaign.findMany({
+    where: {
+      reminderSentAt: null,
+      deadline: {
+        gt: now,
+        lte: new Date(now.getTime() + ACKNOWLEDGEMENT_REMINDER_WINDOW_MS),
+      },
+      page: { published: true },
+    },
+  });
+}
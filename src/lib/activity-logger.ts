@@ -19,16 +19,25 @@ export enum ActivityAction {
   PAGE_UPDATED = 'PAGE_UPDATED',
   PAGE_DELETED = 'PAGE_DELETED',
   PAGE_VIEWED = 'PAGE_VIEWED',
+  PAGE_REVISION_RESTORED = 'PAGE_REVISION_RESTORED',
+  PAGE_STATUS_CHANGED = 'PAGE_STATUS_CHANGED',
+  PAGE_MOVED = 'PAGE_MOVED',
 
   // File actions
   FILE_UPLOADED = 'FILE_UPLOADED',
   FILE_DOWNLOADED = 'FILE_DOWNLOADED',
   FILE_DELETED = 'FILE_DELETED',
+  FILE_QUARANTINED = 'FILE_QUARANTINED',
 
   // Comment actions
   COMMENT_CREATED = 'COMMENT_CREATED',
   COMMENT_UPDATED = 'COMMENT_UPDATED',
   COMMENT_DELETED = 'COMMENT_DELETED',
+  COMMENT_REPORTED = 'COMMENT_REPORTED',
+  COMMENT_HIDDEN = 'COMMENT_HIDDEN',
+  COMMENT_RESTORED = 'COMMENT_RESTORED',
+  COMMENT_RESOLVED = 'COMMENT_RESOLVED',
+  COMMENT_REOPENED = 'COMMENT_REOPENED',
 
   // Search actions
   SEARCH_PERFORMED = 'SEARCH_PERFORMED',
@@ -0,0 +1,137 @@
+import { prisma } from '@/lib/prisma';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { ActivityAction, logCommentActivity } from '@/lib/activity-logger';
+import { toPlainCommentText } from '@/lib/comment-utils-client';
+import { CommentModeration } from '@/lib/validations';
+import { CommentModerationItem } from '@/types';
+
+const DECISION_ACTIONS = {
+  hide: ActivityAction.COMMENT_HIDDEN,
+  restore: ActivityAction.COMMENT_RESTORED,
+  delete: ActivityAction.COMMENT_DELETED,
+} as const;
+
+/**
+ * Report a comment on a published page for moderation. Reporting again
+ * updates the reason and reopens a resolved report.
+ */
+export async function reportComment(
+  commentId: string,
+  reporterId: string,
+  reason?: string
+) {
+  const comment = await prisma.comment.findFirst({
+    where: { id: commentId, page: { published: true } },
+    select: { id: true, userId: true, pageId: true },
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  if (comment.userId === reporterId) {
+    throw new ValidationError('You cannot report your own comment');
+  }
+
+  const report = await prisma.commentReport.upsert({
+    where: { commentId_reporterId: { commentId, reporterId } },
+    create: { commentId, reporterId, reason },
+    update: { reason, resolvedAt: null },
+  });
+
+  await logCommentActivity(
+    reporterId,
+    ActivityAction.COMMENT_REPORTED,
+    commentId,
+    { pageId: comment.pageId, reason }
+  );
+
+  return report;
+}
+
+/**
+ * Comments with open reports, plus hidden comments so they can be restored.
+ * Most recently reported first.
+ */
+export async function getModerationQueue(): Promise<CommentModerationItem[]> {
+  const comments = await prisma.comment.findMany({
+    where: {
+      OR: [
+        { reports: { some: { resolvedAt: null } } },
+        { hiddenAt: { not: null } },
+      ],
+    },
+    include: {
+      user: { select: { id: true, name: true, email: true, role: true } },
+      page: { select: { id: true, title: true } },
+      reports: {
+        where: { resolvedAt: null },
+        select: {
+          id: true,
+          reason: true,
+          createdAt: true,
+          reporter: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  });
+
+  const latestActivity = (comment: (typeof comments)[number]) =>
+    (
+      comment.reports[0]?.createdAt ??
+      comment.hiddenAt ??
+      comment.createdAt
+    ).getTime();
+
+  return comments.sort((a, b) => latestActivity(b) - latestActivity(a));
+}
+
+/**
+ * Hide, restore or delete a comment. Hiding and restoring resolve the open
+ * reports, deleting removes them with the comment. Every decision is written
+ * to the activity log.
+ */
+export async function moderateComment(
+  commentId: string,
+  action: CommentModeration['action'],
+  moderatorId: string
+) {
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: {
+      page: { select: { id: true, title: true } },
+      _count: { select: { reports: { where: { resolvedAt: null } } } },
+    },
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  const now = new Date();
+
+  if (action === 'delete') {
+    await prisma.comment.delete({ where: { id: commentId } });
+  } else {
+    await prisma.$transaction([
+      prisma.comment.update({
+        where: { id: commentId },
+        data: { hiddenAt: action === 'hide' ? now : null },
+      }),
+      prisma.commentReport.updateMany({
+        where: { commentId, resolvedAt: null },
+        data: { resolvedAt: now },
+      }),
+    ]);
+  }
+
+  await logCommentActivity(moderatorId, DECISION_ACTIONS[action], commentId, {
+    moderation: true,
+    pageId: comment.page.id,
+    pageTitle: comment.page.title,
+    commentAuthorId: comment.userId,
+    commentPreview: toPlainCommentText(comment.comment).substring(0, 100),
+    openReports: comment._count.reports,
+  });
+}
@@ -0,0 +1,69 @@
+// Client-safe comment utilities (no database access)
+
+// Replies can nest this many levels below a top-level comment
+export const MAX_REPLY_DEPTH = 3;
+
+// Mentions are stored in the comment text as @[Display Name](userId): the
+// name is what readers see, the id is what notifications go to
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([a-z0-9]+)\)/g;
+
+export type CommentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; userId: string };
+
+/**
+ * Mention token for a user, with characters that would break the token removed
+ */
+export function formatMention(user: {
+  id: string;
+  name: string | null;
+  email: string;
+}) {
+  const name = (user.name || user.email).replace(/[[\]()\n]/g, '').trim();
+  return `@[${name}](${user.id})`;
+}
+
+/**
+ * Unique ids of the users mentioned in a comment
+ */
+export function extractMentionedUserIds(text: string) {
+  return [
+    ...new Set(
+      Array.from(text.matchAll(MENTION_PATTERN), (match) => match[2] as string)
+    ),
+  ];
+}
+
+/**
+ * Split a comment into plain text and mention segments for rendering
+ */
+export function parseCommentText(text: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({
+      type: 'mention',
+      name: match[1] as string,
+      userId: match[2] as string,
+    });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Comment text with mention tokens reduced to @Name, for previews and
+ * notifications
+ */
+export function toPlainCommentText(text: string) {
+  return text.replace(MENTION_PATTERN, (_match, name: string) => `@${name}`);
+}
@@ -0,0 +1,265 @@
+import { Prisma, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import {
+  AnchoredCommentThread,
+  CommentRevisionWithEditor,
+  CommentThread,
+} from '@/types';
+import { MAX_REPLY_DEPTH } from '@/lib/comment-utils-client';
+import { ActivityAction, logCommentActivity } from '@/lib/activity-logger';
+
+const commentUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+} as const;
+
+/**
+ * Withhold the text of hidden comments from everyone but moderators
+ */
+export function maskHiddenComment<
+  T extends { comment: string; hiddenAt: Date | null },
+>(comment: T, canModerate: boolean): T {
+  return comment.hiddenAt && !canModerate
+    ? { ...comment, comment: '' }
+    : comment;
+}
+
+/**
+ * Check that a reply targets a comment on the same page and does not nest
+ * deeper than MAX_REPLY_DEPTH
+ */
+export async function validateReplyParent(pageId: string, parentId: string) {
+  let currentId: string | null = parentId;
+  let depth = 0;
+
+  while (currentId) {
+    const current: { pageId: string; parentId: string | null } | null =
+      await prisma.comment.findUnique({
+        where: { id: currentId },
+        select: { pageId: true, parentId: true },
+      });
+
+    if (!current || current.pageId !== pageId) {
+      throw new ValidationError('Parent comment not found on this page');
+    }
+
+    depth++;
+    currentId = current.parentId;
+  }
+
+  if (depth > MAX_REPLY_DEPTH) {
+    throw new ValidationError('Replies cannot be nested any deeper');
+  }
+}
+
+// Comments outside inline threads: not anchored, and no ancestor is either.
+// Replies nest at most MAX_REPLY_DEPTH levels, so the chain is bounded.
+function getPageLevelChainWhere(depth: number): Prisma.CommentWhereInput {
+  return depth === 0
+    ? { parentId: null }
+    : {
+        OR: [
+          { parentId: null },
+          {
+            parent: {
+              anchorQuote: null,
+              ...getPageLevelChainWhere(depth - 1),
+            },
+          },
+        ],
+      };
+}
+
+/**
+ * Load the replies of the given top-level comments and nest them oldest
+ * first, one level per query
+ */
+async function attachReplies<T extends CommentThread>(
+  threads: T[],
+  canModerate: boolean
+) {
+  const byId = new Map<string, CommentThread>(
+    threads.map((thread) => [thread.id, thread])
+  );
+  let parentIds = [...byId.keys()];
+
+  for (
+    let level = 0;
+    level < MAX_REPLY_DEPTH && parentIds.length > 0;
+    level++
+  ) {
+    const replies = await prisma.comment.findMany({
+      where: { parentId: { in: parentIds } },
+      include: { user: { select: commentUserSelect } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    parentIds = [];
+    for (const reply of replies) {
+      const thread: CommentThread = {
+        ...maskHiddenComment(reply, canModerate),
+        replies: [],
+      };
+      byId.get(reply.parentId as string)?.replies.push(thread);
+      byId.set(thread.id, thread);
+      parentIds.push(thread.id);
+    }
+  }
+
+  return threads;
+}
+
+/**
+ * A page of top-level comments on the page as a whole, newest first, with
+ * their replies nested oldest first. Inline threads are listed separately.
+ */
+export async function getCommentThreads(
+  pageId: string,
+  { skip, take }: { skip: number; take: number },
+  canModerate = false
+) {
+  const rootWhere = { pageId, parentId: null, anchorQuote: null };
+
+  const [roots, total, totalComments] = await Promise.all([
+    prisma.comment.findMany({
+      where: rootWhere,
+      include: { user: { select: commentUserSelect } },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take,
+    }),
+    prisma.comment.count({ where: rootWhere }),
+    prisma.comment.count({
+      where: {
+        pageId,
+        anchorQuote: null,
+        ...getPageLevelChainWhere(MAX_REPLY_DEPTH),
+      },
+    }),
+  ]);
+
+  const threads = await attachReplies(
+    roots.map((root) => ({
+      ...maskHiddenComment(root, canModerate),
+      replies: [],
+    })),
+    canModerate
+  );
+
+  return { threads, total, totalComments };
+}
+
+/**
+ * Every inline thread of a page in document order, with replies
+ */
+export async function getAnchoredCommentThreads(
+  pageId: string,
+  canModerate = false
+): Promise<AnchoredCommentThread[]> {
+  const roots = await prisma.comment.findMany({
+    where: { pageId, parentId: null, anchorQuote: { not: null } },
+    include: {
+      user: { select: commentUserSelect },
+      resolvedBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: [{ anchorStart: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return attachReplies(
+    roots.map((root) => ({
+      ...maskHiddenComment(root, canModerate),
+      replies: [],
+    })),
+    canModerate
+  );
+}
+
+/**
+ * Mark an inline thread as resolved or open it again. Page authors and
+ * editors decide.
+ */
+export async function setCommentThreadResolved(
+  commentId: string,
+  resolved: boolean,
+  user: { id: string; role: UserRole }
+) {
+  const comment = await prisma.comment.findFirst({
+    where: { id: commentId, page: { published: true } },
+    include: { page: { select: { id: true, title: true, authorId: true } } },
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  if (comment.parentId || !comment.anchorQuote) {
+    throw new ValidationError('Only inline comment threads can be resolved');
+  }
+
+  if (
+    comment.page.authorId !== user.id &&
+    !['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'].includes(user.role)
+  ) {
+    throw new AuthorizationError(
+      'You do not have permission to resolve comments on this page'
+    );
+  }
+
+  const updated = await prisma.comment.update({
+    where: { id: commentId },
+    data: resolved
+      ? { resolvedAt: new Date(), resolvedById: user.id }
+      : { resolvedAt: null, resolvedById: null },
+  });
+
+  await logCommentActivity(
+    user.id,
+    resolved
+      ? ActivityAction.COMMENT_RESOLVED
+      : ActivityAction.COMMENT_REOPENED,
+    commentId,
+    { pageId: comment.page.id, pageTitle: comment.page.title }
+  );
+
+  return updated;
+}
+
+/**
+ * Earlier versions of a comment, newest first. Versions of hidden comments
+ * are only shown to moderators.
+ */
+export async function getCommentRevisions(
+  commentId: string,
+  canModerate: boolean
+): Promise<CommentRevisionWithEditor[]> {
+  const comment = await prisma.comment.findFirst({
+    where: { id: commentId, page: { published: true } },
+    select: { hiddenAt: true },
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  if (comment.hiddenAt && !canModerate) {
+    throw new AuthorizationError('This comment has been hidden by a moderator');
+  }
+
+  return prisma.commentRevision.findMany({
+    where: { commentId },
+    select: {
+      id: true,
+      content: true,
+      createdAt: true,
+      editedBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -1,6 +1,27 @@
 import { Resend } from 'resend'
 import nodemailer from 'nodemailer'
 
+export interface NotificationEmailItem {
+  title: string
+  message: string
+  createdAt: Date
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const formatNotificationDate = (date: Date) =>
+  date.toLocaleString('tr-TR', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'Europe/Istanbul',
+  })
+
 // Email service that switches between Resend (production) and Ethereal/SMTP (development)
 class EmailService {
   private resend: Resend | null = null
@@ -45,12 +66,14 @@ class EmailService {
     html,
     text,
     from,
+    headers,
   }: {
     to: string | string[]
     subject: string
     html?: string
     text?: string
     from?: string
+    headers?: Record<string, string>
   }) {
     const fromAddress = from || process.env.EMAIL_FROM || 'noreply@verida.dgmgumruk.com'
     const recipients = Array.isArray(to) ? to : [to]
@@ -73,6 +96,7 @@ class EmailService {
           subject,
           html: html || text || '',
           text: text || undefined,
+          headers,
         }
 
         console.log('📤 Resend payload:', {
@@ -112,6 +136,7 @@ class EmailService {
           subject,
           html: html || text,
           text: text || undefined,
+          headers,
         }
 
         console.log('📤 SMTP payload:', {
@@ -304,6 +329,111 @@ class EmailService {
     })
   }
 
+  // Immediate notification emails and daily/weekly digests
+  async sendNotificationEmail({
+    to,
+    name,
+    notifications,
+    digest,
+    appUrl,
+    unsubscribeUrl,
+    oneClickUnsubscribeUrl,
+  }: {
+    to: string
+    name?: string | null
+    notifications: NotificationEmailItem[]
+    digest: 'daily' | 'weekly' | null
+    appUrl: string
+    unsubscribeUrl: string
+    oneClickUnsubscribeUrl: string
+  }) {
+    const displayName = name || to.split('@')[0]
+    const heading = digest === 'daily'
+      ? 'Günlük Bildirim Özeti'
+      : digest === 'weekly'
+        ? 'Haftalık Bildirim Özeti'
+        : 'Yeni Bildirimler'
+    const subject = !digest && notifications.length === 1
+      ? `Verida: ${notifications[0]?.title}`
+      : `Verida: ${heading} (${notifications.length})`
+
+    const items = notifications
+      .map(notification => `
+            <div style="background: white; padding: 15px 20px; border-radius: 8px; border-left: 4px solid #667eea; margin-bottom: 12px;">
+              <p style="margin: 0; font-weight: 600;">${escapeHtml(notification.title)}</p>
+              <p style="margin: 5px 0; font-size: 15px;">${escapeHtml(notification.message)}</p>
+              <p style="margin: 0; font-size: 12px; color: #666;">${formatNotificationDate(notification.createdAt)}</p>
+            </div>`)
+      .join('')
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${heading}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px; text-align: center; margin-bottom: 30px;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">${heading}</h1>
+          </div>
+
+          <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 30px;">
+            <p style="font-size: 16px; margin-top: 0;">
+              Merhaba ${escapeHtml(displayName || '')}, Verida'da okumadığınız ${notifications.length} bildirim var.
+            </p>
+            ${items}
+            <div style="text-align: center; margin: 30px 0 0;">
+              <a href="${appUrl}"
+                 style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                        color: white;
+                        padding: 15px 30px;
+                        text-decoration: none;
+                        border-radius: 8px;
+                        font-weight: 600;
+                        font-size: 16px;
+                        display: inline-block;">
+                Verida'yı Aç
+              </a>
+            </div>
+          </div>
+
+          <div style="text-align: center; font-size: 12px; color: #666;">
+            <p>Bu e-posta ${escapeHtml(to)} adresine bildirim tercihleriniz doğrultusunda gönderilmiştir.</p>
+            <p><a href="${unsubscribeUrl}" style="color: #667eea;">E-posta bildirimlerinden çık</a></p>
+            <p>© ${new Date().getFullYear()} Verida. Tüm hakları saklıdır.</p>
+          </div>
+        </body>
+      </html>
+    `
+
+    const text = [
+      heading,
+      '',
+      `Merhaba ${displayName}, Verida'da okumadığınız ${notifications.length} bildirim var.`,
+      '',
+      ...notifications.map(notification =>
+        `- ${notification.title}: ${notification.message} (${formatNotificationDate(notification.createdAt)})`
+      ),
+      '',
+      `Verida'yı açın: ${appUrl}`,
+      '',
+      `E-posta bildirimlerinden çıkmak için: ${unsubscribeUrl}`,
+    ].join('\n')
+
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      headers: {
+        'List-Unsubscribe': `<${oneClickUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    })
+  }
+
   getProvider(): 'resend' | 'smtp' | 'none' {
     if (this.resend) return 'resend'
     if (this.transporter) return 'smtp'
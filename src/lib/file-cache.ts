@@ -4,7 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { readFile, stat } from 'fs/promises';
+import {
+  getContentDispositionHeader,
+  StorageDriver,
+} from '@/lib/file-storage';
 
 
 /**
@@ -106,22 +109,26 @@ export function checkClientCache(
  * Create optimized file response
  */
 export async function createFileResponse(
-  filePath: string,
+  storage: StorageDriver,
+  location: string,
   mimeType: string,
   originalName: string,
   download = false
 ): Promise<NextResponse> {
   try {
     // Get file stats
-    const stats = await stat(filePath);
+    const stats = await storage.stat(location);
+    if (!stats) {
+      return new NextResponse('File not found', { status: 404 });
+    }
     const fileSize = stats.size;
-    const lastModified = stats.mtime;
+    const lastModified = stats.lastModified;
 
     // Generate cache headers
     const cacheHeaders = generateCacheHeaders(mimeType, fileSize);
 
     // Read file
-    const fileBuffer = await readFile(filePath);
+    const fileBuffer = await storage.get(location);
 
     // Create response headers
     const headers = new Headers();
@@ -137,10 +144,9 @@ export async function createFileResponse(
     });
 
     // Set content disposition
-    const disposition = download ? 'attachment' : 'inline';
     headers.set(
       'Content-Disposition',
-      `${disposition}; filename="${originalName}"`
+      getContentDispositionHeader(originalName, download)
     );
 
     // Security headers for file serving
@@ -196,16 +202,20 @@ export function getImageOptimizationHeaders(
  */
 export async function serveFileWithCache(
   request: NextRequest,
-  filePath: string,
+  storage: StorageDriver,
+  location: string,
   mimeType: string,
   originalName: string,
   download = false
 ): Promise<NextResponse> {
   try {
     // Get file stats for cache validation
-    const stats = await stat(filePath);
-    const lastModified = stats.mtime;
-    const etag = `"${stats.mtime.getTime()}-${stats.size}"`;
+    const stats = await storage.stat(location);
+    if (!stats) {
+      return new NextResponse('File not found', { status: 404 });
+    }
+    const lastModified = stats.lastModified;
+    const etag = `"${stats.lastModified.getTime()}-${stats.size}"`;
 
     // Check if client has cached version
     if (checkClientCache(request, etag, lastModified)) {
@@ -213,7 +223,13 @@ export async function serveFileWithCache(
     }
 
     // Serve file with optimized headers
-    return createFileResponse(filePath, mimeType, originalName, download);
+    return createFileResponse(
+      storage,
+      location,
+      mimeType,
+      originalName,
+      download
+    );
   } catch {
     console.error('Error serving file');
     return new NextResponse('File not found', { status: 404 });
@@ -0,0 +1,218 @@
+/**
+ * Server-side previews of attachments so they can be checked without
+ * downloading: PDF pages rendered to PNG, DOCX converted to HTML and XLSX
+ * converted to tables. Results are stored next to the original file and
+ * tracked in file_previews.
+ */
+
+import { FileVersion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getStorageDriver } from '@/lib/file-storage';
+import { isImageFile } from '@/lib/file-utils-client';
+import { FilePreviewData, FilePreviewSheet } from '@/types';
+
+const PDF_TYPE = 'application/pdf';
+const DOCX_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Previews stored per version: the converted document, then each PDF page
+const DOCUMENT_PAGE = 0;
+
+const PDF_PAGE_WIDTH = 1200;
+const MAX_SHEET_ROWS = 200;
+const MAX_SHEET_COLUMNS = 50;
+
+type PreviewSource = Pick<
+  FileVersion,
+  'id' | 'filename' | 'filePath' | 'storageBackend' | 'mimeType'
+>;
+
+interface GeneratedPreview {
+  body: Buffer;
+  mimeType: string;
+  extension: string;
+}
+
+const readOriginal = (version: PreviewSource) =>
+  getStorageDriver(version.storageBackend).get(version.filePath);
+
+async function loadPdf(version: PreviewSource) {
+  const { getDocumentProxy } = await import('unpdf');
+  return getDocumentProxy(new Uint8Array(await readOriginal(version)));
+}
+
+const json = (value: unknown): GeneratedPreview => ({
+  body: Buffer.from(JSON.stringify(value)),
+  mimeType: 'application/json',
+  extension: 'json',
+});
+
+async function convertDocx(version: PreviewSource): Promise<GeneratedPreview> {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.convertToHtml({
+    buffer: await readOriginal(version),
+  });
+
+  return {
+    body: Buffer.from(value),
+    mimeType: 'text/html',
+    extension: 'html',
+  };
+}
+
+async function convertXlsx(version: PreviewSource): Promise<GeneratedPreview> {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  // exceljs declares its own Buffer type that Node's Buffer doesn't satisfy
+  await workbook.xlsx.load(
+    (await readOriginal(version)) as unknown as ArrayBuffer
+  );
+
+  const sheets: FilePreviewSheet[] = [];
+  workbook.eachSheet((sheet) => {
+    const columnCount = Math.min(sheet.columnCount, MAX_SHEET_COLUMNS);
+    const rows: string[][] = [];
+
+    for (
+      let rowNumber = 1;
+      rowNumber <= Math.min(sheet.rowCount, MAX_SHEET_ROWS);
+      rowNumber++
+    ) {
+      const row = sheet.getRow(rowNumber);
+      rows.push(
+        Array.from(
+          { length: columnCount },
+          (_, index) => row.getCell(index + 1).text ?? ''
+        )
+      );
+    }
+
+    sheets.push({
+      name: sheet.name,
+      rows,
+      truncated:
+        sheet.rowCount > MAX_SHEET_ROWS ||
+        sheet.columnCount > MAX_SHEET_COLUMNS,
+    });
+  });
+
+  return json(sheets);
+}
+
+/**
+ * Stored preview of a version, generated and stored on first request
+ */
+async function getStoredPreview(
+  version: PreviewSource,
+  page: number,
+  generate: () => Promise<GeneratedPreview>
+) {
+  const where = { fileVersionId_page: { fileVersionId: version.id, page } };
+
+  const existing = await prisma.filePreview.findUnique({ where });
+
+  // The stored copy can be gone, e.g. when it was written to the local disk
+  // of another instance; it is generated again then
+  if (
+    existing &&
+    (await getStorageDriver(existing.storageBackend).stat(existing.filePath))
+  ) {
+    return existing;
+  }
+
+  const { body, mimeType, extension } = await generate();
+  const storage = getStorageDriver();
+  const filePath = await storage.put(
+    `previews/${version.filename.replace(/\.[^.]+$/, '')}-${page}.${extension}`,
+    body,
+    mimeType
+  );
+
+  const stored = {
+    mimeType,
+    fileSize: BigInt(body.length),
+    filePath,
+    storageBackend: storage.backend,
+  };
+
+  // Requests racing to generate the same preview write the same key
+  return prisma.filePreview.upsert({
+    where,
+    create: { fileVersionId: version.id, page, ...stored },
+    update: stored,
+  });
+}
+
+async function readStoredPreview(
+  version: PreviewSource,
+  generate: () => Promise<GeneratedPreview>
+) {
+  const preview = await getStoredPreview(version, DOCUMENT_PAGE, generate);
+  const body = await getStorageDriver(preview.storageBackend).get(
+    preview.filePath
+  );
+  return body.toString('utf8');
+}
+
+/**
+ * Preview of a version for the browser, or null when its type has none.
+ * Images are shown from the file itself; PDF pages are fetched one by one
+ * with getPdfPagePreview.
+ */
+export async function getFilePreview(
+  version: PreviewSource
+): Promise<FilePreviewData | null> {
+  if (isImageFile(version.mimeType)) {
+    return { kind: 'image' };
+  }
+
+  switch (version.mimeType) {
+    case PDF_TYPE: {
+      const { pageCount } = JSON.parse(
+        await readStoredPreview(version, async () => {
+          const pdf = await loadPdf(version);
+          return json({ pageCount: pdf.numPages });
+        })
+      ) as { pageCount: number };
+
+      return { kind: 'pdf', pageCount };
+    }
+    case DOCX_TYPE:
+      return {
+        kind: 'html',
+        html: await readStoredPreview(version, () => convertDocx(version)),
+      };
+    case XLSX_TYPE:
+      return {
+        kind: 'table',
+        sheets: JSON.parse(
+          await readStoredPreview(version, () => convertXlsx(version))
+        ) as FilePreviewSheet[],
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * A PDF page rendered to PNG, numbered from 1. The caller checks the page
+ * exists against the page count from getFilePreview.
+ */
+export async function getPdfPagePreview(version: PreviewSource, page: number) {
+  return getStoredPreview(version, page, async () => {
+    const { renderPageAsImage } = await import('unpdf');
+    const pdf = await loadPdf(version);
+    const image = await renderPageAsImage(pdf, page, {
+      canvasImport: () => import('@napi-rs/canvas'),
+      width: PDF_PAGE_WIDTH,
+    });
+
+    return {
+      body: Buffer.from(image),
+      mimeType: 'image/png',
+      extension: 'png',
+    };
+  });
+}
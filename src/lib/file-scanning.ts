@@ -0,0 +1,249 @@
+/**
+ * Malware scanning of uploaded file versions. Every upload starts PENDING and
+ * cannot be downloaded until the scanner finds it CLEAN. Versions uploaded
+ * before scanning was introduced are UNSCANNED: they stay downloadable while
+ * the file scanner works through them in the background. INFECTED versions
+ * are moved to quarantine/ in their storage backend and admins are notified.
+ */
+
+import { ScanStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getQuarantineKey, getStorageDriver } from '@/lib/file-storage';
+import { getMalwareScanner } from '@/lib/malware-scanner';
+import { indexFileContent } from '@/lib/file-text-extraction';
+import { notifyFileQuarantined } from '@/lib/notification-utils';
+import { ActivityAction, logFileActivity } from '@/lib/activity-logger';
+
+// How long a process may scan a version before another one takes over
+const SCAN_LEASE_MS = 5 * 60 * 1000;
+
+// Versions scanned per file scanner pass
+const SCAN_BATCH_SIZE = 20;
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+let scannerTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+const leaseFree = (now: Date) => ({
+  OR: [{ scanLockedUntil: null }, { scanLockedUntil: { lt: now } }],
+});
+
+/**
+ * Why a version with the given scan status cannot be downloaded, with the
+ * HTTP status to answer with, or null when it is clean or has not been
+ * scanned yet because it predates scanning
+ */
+export function getDownloadBlock(scanStatus: ScanStatus) {
+  switch (scanStatus) {
+    case 'PENDING':
+      return {
+        status: 409,
+        error:
+          'Dosya henüz virüs taramasından geçmedi, lütfen biraz sonra tekrar deneyin',
+      };
+    case 'INFECTED':
+      return {
+        status: 403,
+        error: 'Dosyada zararlı içerik bulundu ve karantinaya alındı',
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Scan a pending or unscanned version and record the result, mirrored onto
+ * the File row when it is the latest version, whose text is then indexed for
+ * search once it is CLEAN. Returns null when the version
+ * has already been scanned or another process is scanning it. Scanner errors
+ * leave its status unchanged for the next file scanner pass.
+ */
+export async function scanFileVersion(versionId: string, now = new Date()) {
+  // Conditional update so each version is only scanned by one process
+  const { count } = await prisma.fileVersion.updateMany({
+    where: {
+      id: versionId,
+      scanStatus: { in: ['PENDING', 'UNSCANNED'] },
+      ...leaseFree(now),
+    },
+    data: { scanLockedUntil: new Date(now.getTime() + SCAN_LEASE_MS) },
+  });
+
+  if (count === 0) return null;
+
+  const version = await prisma.fileVersion.findUniqueOrThrow({
+    where: { id: versionId },
+  });
+  const storage = getStorageDriver(version.storageBackend);
+  // The File row mirrors its latest version, which is stored at the same place
+  const mirroredFile = {
+    id: version.fileId,
+    storageBackend: version.storageBackend,
+    filePath: version.filePath,
+  };
+
+  let body: Buffer;
+  let result;
+  try {
+    body = await storage.get(version.filePath);
+    result = await getMalwareScanner().scan(body);
+  } catch (error) {
+    await prisma.fileVersion.update({
+      where: { id: versionId },
+      data: { scanLockedUntil: null },
+    });
+    throw error;
+  }
+
+  if (!result.infected) {
+    const [, mirrored] = await prisma.$transaction([
+      prisma.fileVersion.update({
+        where: { id: versionId },
+        data: { scanStatus: 'CLEAN', scannedAt: now, scanLockedUntil: null },
+      }),
+      prisma.file.updateMany({
+        where: mirroredFile,
+        data: { scanStatus: 'CLEAN' },
+      }),
+    ]);
+
+    // Only now that the scanner has seen it is the file parsed for its text.
+    // Search covers the latest version only.
+    if (mirrored.count > 0) {
+      await indexFileContent(version.fileId, body, version.mimeType ?? '');
+    }
+
+    return 'CLEAN' as const;
+  }
+
+  const signature = result.signature || 'Unknown';
+  const quarantinePath = await storage.put(
+    getQuarantineKey(version.filename),
+    body,
+    'application/octet-stream'
+  );
+
+  await prisma.$transaction([
+    prisma.fileVersion.update({
+      where: { id: versionId },
+      data: {
+        scanStatus: 'INFECTED',
+        scanSignature: signature,
+        scannedAt: now,
+        scanLockedUntil: null,
+        filePath: quarantinePath,
+      },
+    }),
+    // Keeps the file out of search; runs before the File row below moves
+    // to the quarantine path
+    prisma.fileContent.deleteMany({ where: { file: mirroredFile } }),
+    prisma.file.updateMany({
+      where: mirroredFile,
+      data: { scanStatus: 'INFECTED', filePath: quarantinePath },
+    }),
+  ]);
+
+  await storage.delete(version.filePath);
+
+  await logFileActivity(
+    version.uploadedById,
+    ActivityAction.FILE_QUARANTINED,
+    version.fileId,
+    {
+      versionNumber: version.versionNumber,
+      originalName: version.originalName,
+      signature,
+    }
+  );
+
+  await notifyFileQuarantined(version.originalName, signature);
+
+  return 'INFECTED' as const;
+}
+
+/**
+ * Scan a newly uploaded version in the background
+ */
+export function queueFileScan(versionId: string) {
+  scanFileVersion(versionId).catch((error) =>
+    console.error(`Failed to scan file version ${versionId}:`, error)
+  );
+}
+
+/**
+ * Scan up to one batch of versions with the given status, oldest first
+ */
+async function scanBatch(scanStatus: ScanStatus, now: Date) {
+  const versions = await prisma.fileVersion.findMany({
+    where: { scanStatus, ...leaseFree(now) },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: SCAN_BATCH_SIZE,
+  });
+
+  let scanned = 0;
+
+  for (const { id } of versions) {
+    try {
+      if (await scanFileVersion(id, now)) scanned++;
+    } catch (error) {
+      console.error(`Failed to scan file version ${id}:`, error);
+    }
+  }
+
+  return scanned;
+}
+
+/**
+ * One file scanner pass. Pending uploads whose scan failed or was interrupted
+ * come first, since they cannot be downloaded until scanned. The backfill of
+ * versions uploaded before scanning was introduced only runs once none are
+ * left.
+ */
+export async function runFileScanner(now = new Date()) {
+  const pending = await scanBatch('PENDING', now);
+  const backfilled = pending > 0 ? 0 : await scanBatch('UNSCANNED', now);
+
+  if (pending > 0) {
+    logger.info(`File scanner: ${pending} pending file version(s) scanned`);
+  }
+
+  if (backfilled > 0) {
+    logger.info(`File scanner: ${backfilled} existing file version(s) scanned`);
+  }
+
+  return { pending, backfilled };
+}
+
+/**
+ * Start the file scanner in this process, separately from the page scheduler
+ * so slow scans cannot hold up publishing and notifications. Disable with
+ * FILE_SCANNER_ENABLED=false, e.g. on extra replicas.
+ */
+export function startFileScanner() {
+  if (scannerTimer || process.env.FILE_SCANNER_ENABLED === 'false') {
+    return;
+  }
+
+  const intervalMs =
+    Number(process.env.FILE_SCANNER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const tick = async () => {
+    // Skip if the previous run is still going
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runFileScanner();
+    } catch (error) {
+      console.error('File scanner run failed:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  scannerTimer = setInterval(tick, intervalMs);
+  scannerTimer.unref();
+  void tick();
+}
@@ -0,0 +1,407 @@
+/**
+ * Storage backends for uploaded files. File.filePath holds the location
+ * inside the backend named by File.storageBackend: a disk path for LOCAL, an
+ * object key for S3.
+ */
+
+import { dirname, join } from 'path';
+import { mkdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageBackend } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { UPLOAD_DIR } from '@/lib/file-utils';
+
+export interface StoredObjectInfo {
+  size: number;
+  lastModified: Date;
+}
+
+export interface DownloadUrlOptions {
+  fileName: string;
+  contentType: string;
+  download?: boolean;
+}
+
+export interface StorageDriver {
+  readonly backend: StorageBackend;
+  /** Store the contents under key and return the location to save */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  get(location: string): Promise<Buffer>;
+  /** Size and modification time, or null when nothing is stored there */
+  stat(location: string): Promise<StoredObjectInfo | null>;
+  delete(location: string): Promise<void>;
+  /**
+   * Short-lived URL the browser can download from directly, or null when the
+   * backend can only be read through the app
+   */
+  getDownloadUrl(
+    location: string,
+    options: DownloadUrlOptions
+  ): Promise<string | null>;
+}
+
+export const getContentDispositionHeader = (
+  fileName: string,
+  download = false
+) =>
+  `${download ? 'attachment' : 'inline'}; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+// Where infected versions are kept, out of the normal key space
+export const getQuarantineKey = (filename: string) => `quarantine/${filename}`;
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly backend = StorageBackend.LOCAL;
+
+  constructor(private readonly root = UPLOAD_DIR) {}
+
+  async put(key: string, body: Buffer) {
+    const location = join(this.root, key);
+    await mkdir(dirname(location), { recursive: true });
+    await writeFile(location, body);
+    return location;
+  }
+
+  async get(location: string) {
+    return readFile(location);
+  }
+
+  async stat(location: string) {
+    try {
+      const stats = await stat(location);
+      return { size: stats.size, lastModified: stats.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(location: string) {
+    try {
+      await unlink(location);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  async getDownloadUrl() {
+    return null;
+  }
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Needed for MinIO and most other S3-compatible servers
+  forcePathStyle: boolean;
+  prefix: string;
+  // Lifetime of presigned download URLs; 0 serves downloads through the app
+  presignExpiresIn: number;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly backend = StorageBackend.S3;
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    const location = `${this.config.prefix}${key}`;
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: location,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+    return location;
+  }
+
+  async get(location: string) {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: location })
+    );
+
+    if (!response.Body) {
+      throw new Error(`Empty object ${location}`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async stat(location: string) {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.config.bucket, Key: location })
+      );
+      return {
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      if ((error as Error).name === 'NotFound') return null;
+      throw error;
+    }
+  }
+
+  async delete(location: string) {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.config.bucket, Key: location })
+    );
+  }
+
+  async getDownloadUrl(
+    location: string,
+    { fileName, contentType, download = false }: DownloadUrlOptions
+  ) {
+    if (this.config.presignExpiresIn <= 0) {
+      return null;
+    }
+
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: location,
+        ResponseContentType: contentType,
+        ResponseContentDisposition: getContentDispositionHeader(
+          fileName,
+          download
+        ),
+      }),
+      { expiresIn: this.config.presignExpiresIn }
+    );
+  }
+}
+
+function getS3ConfigFromEnv(): S3StorageConfig {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required for S3 file storage');
+  }
+
+  return {
+    bucket,
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    prefix: process.env.S3_PREFIX || '',
+    presignExpiresIn: Number(process.env.S3_PRESIGN_EXPIRES_SECONDS ?? 300),
+  };
+}
+
+const drivers = new Map<StorageBackend, StorageDriver>();
+
+/**
+ * Backend new uploads go to, from STORAGE_DRIVER (local or s3)
+ */
+export function getDefaultStorageBackend(): StorageBackend {
+  return process.env.STORAGE_DRIVER?.toLowerCase() === 's3'
+    ? StorageBackend.S3
+    : StorageBackend.LOCAL;
+}
+
+/**
+ * Driver for a backend, by default the one new uploads go to
+ */
+export function getStorageDriver(
+  backend: StorageBackend = getDefaultStorageBackend()
+): StorageDriver {
+  let driver = drivers.get(backend);
+
+  if (!driver) {
+    driver =
+      backend === StorageBackend.S3
+        ? new S3StorageDriver(getS3ConfigFromEnv())
+        : new LocalStorageDriver();
+    drivers.set(backend, driver);
+  }
+
+  return driver;
+}
+
+export interface FileStorageMigrationResult {
+  moved: number;
+  failed: number;
+  // Resized image variants and previews dropped from the source backend
+  dropped: number;
+}
+
+/**
+ * Forget the resized image variants and previews stored in a backend. They
+ * are generated again on the current backend when next requested, so they
+ * are dropped instead of copied. Returns how many there were.
+ */
+async function dropDerivedFiles(
+  from: StorageBackend,
+  { deleteSource, dryRun }: { deleteSource: boolean; dryRun: boolean }
+) {
+  const where = { storageBackend: from };
+  const select = { id: true, filePath: true };
+
+  const [variants, previews] = await Promise.all([
+    prisma.fileVariant.findMany({ where, select }),
+    prisma.filePreview.findMany({ where, select }),
+  ]);
+
+  if (dryRun) {
+    return variants.length + previews.length;
+  }
+
+  await prisma.$transaction([
+    prisma.fileVariant.deleteMany({
+      where: { id: { in: variants.map((variant) => variant.id) } },
+    }),
+    prisma.filePreview.deleteMany({
+      where: { id: { in: previews.map((preview) => preview.id) } },
+    }),
+  ]);
+
+  if (deleteSource) {
+    const source = getStorageDriver(from);
+    for (const { filePath } of [...variants, ...previews]) {
+      await source.delete(filePath);
+    }
+  }
+
+  return variants.length + previews.length;
+}
+
+/**
+ * Copy every file version stored in one backend to another and point its
+ * rows at the new location. Versions that fail are left where they are and
+ * reported.
+ */
+export async function migrateFileStorage({
+  from,
+  to,
+  deleteSource = false,
+  dryRun = false,
+  batchSize = 50,
+  onProgress,
+}: {
+  from: StorageBackend;
+  to: StorageBackend;
+  deleteSource?: boolean;
+  dryRun?: boolean;
+  batchSize?: number;
+  onProgress?: (
+    file: { id: string; originalName: string; versionNumber: number },
+    error?: unknown
+  ) => void;
+}): Promise<FileStorageMigrationResult> {
+  if (from === to) {
+    throw new Error('Source and target storage backends are the same');
+  }
+
+  const source = getStorageDriver(from);
+  const target = getStorageDriver(to);
+  const result: FileStorageMigrationResult = {
+    moved: 0,
+    failed: 0,
+    dropped: 0,
+  };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const versions = await prisma.fileVersion.findMany({
+      where: { storageBackend: from, ...(cursor && { id: { gt: cursor } }) },
+      select: {
+        id: true,
+        fileId: true,
+        versionNumber: true,
+        filename: true,
+        originalName: true,
+        filePath: true,
+        mimeType: true,
+        scanStatus: true,
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+
+    if (versions.length === 0) break;
+    cursor = versions[versions.length - 1]?.id;
+
+    for (const version of versions) {
+      const file = {
+        id: version.fileId,
+        originalName: version.originalName,
+        versionNumber: version.versionNumber,
+      };
+
+      try {
+        if (!dryRun) {
+          const body = await source.get(version.filePath);
+          // Infected versions stay in quarantine on the new backend too
+          const location =
+            version.scanStatus === 'INFECTED'
+              ? await target.put(
+                  getQuarantineKey(version.filename),
+                  body,
+                  'application/octet-stream'
+                )
+              : await target.put(
+                  version.filename,
+                  body,
+                  version.mimeType || 'application/octet-stream'
+                );
+
+          // The File row mirrors its latest version
+          await prisma.$transaction([
+            prisma.fileVersion.update({
+              where: { id: version.id },
+              data: { storageBackend: to, filePath: location },
+            }),
+            prisma.file.updateMany({
+              where: {
+                id: version.fileId,
+                storageBackend: from,
+                filePath: version.filePath,
+              },
+              data: { storageBackend: to, filePath: location },
+            }),
+          ]);
+
+          if (deleteSource) {
+            await source.delete(version.filePath);
+          }
+        }
+
+        result.moved++;
+        onProgress?.(file);
+      } catch (error) {
+        result.failed++;
+        onProgress?.(file, error);
+      }
+    }
+  }
+
+  result.dropped = await dropDerivedFiles(from, { deleteSource, dryRun });
+
+  return result;
+}
@@ -0,0 +1,195 @@
+/**
+ * Text extraction for uploaded attachments so their contents are searchable.
+ * Extracted text is stored in file_contents and matched by /api/search.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { getStorageDriver } from '@/lib/file-storage';
+
+// to_tsvector rejects documents over 1MB; long files are indexed up to here
+const MAX_INDEXED_TEXT_LENGTH = 500_000;
+
+const PDF_TYPE = 'application/pdf';
+const DOCX_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const EXTRACTABLE_MIME_TYPES = [PDF_TYPE, DOCX_TYPE, XLSX_TYPE];
+
+async function extractPdfText(buffer: Buffer) {
+  const { extractText } = await import('unpdf');
+  const { text } = await extractText(new Uint8Array(buffer), {
+    mergePages: true,
+  });
+  return text;
+}
+
+async function extractDocxText(buffer: Buffer) {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ buffer });
+  return value;
+}
+
+async function extractXlsxText(buffer: Buffer) {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  // exceljs declares its own Buffer type that Node's Buffer doesn't satisfy
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const lines: string[] = [];
+  workbook.eachSheet((sheet) => {
+    lines.push(sheet.name);
+    sheet.eachRow((row) => {
+      const cells: string[] = [];
+      row.eachCell((cell) => {
+        const text = cell.text?.trim();
+        if (text) cells.push(text);
+      });
+      if (cells.length > 0) lines.push(cells.join(' '));
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Extract plain text from a PDF, DOCX or XLSX file. Returns null for other
+ * types and for files without any text (e.g. scanned PDFs).
+ */
+export async function extractFileText(
+  buffer: Buffer,
+  mimeType: string
+): Promise<string | null> {
+  let text: string;
+
+  switch (mimeType) {
+    case PDF_TYPE:
+      text = await extractPdfText(buffer);
+      break;
+    case DOCX_TYPE:
+      text = await extractDocxText(buffer);
+      break;
+    case XLSX_TYPE:
+      text = await extractXlsxText(buffer);
+      break;
+    default:
+      return null;
+  }
+
+  // Postgres text cannot hold NUL characters, which some PDFs contain
+  const normalized = text
+    .replace(/\0/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+
+  return normalized ? normalized.slice(0, MAX_INDEXED_TEXT_LENGTH) : null;
+}
+
+/**
+ * Extract and store the searchable text of an uploaded file. Failures are
+ * logged and swallowed: an unreadable document must not block the upload.
+ */
+export async function indexFileContent(
+  fileId: string,
+  buffer: Buffer,
+  mimeType: string
+) {
+  if (!EXTRACTABLE_MIME_TYPES.includes(mimeType)) return;
+
+  try {
+    const content = await extractFileText(buffer, mimeType);
+    if (!content) return;
+
+    await prisma.fileContent.upsert({
+      where: { fileId },
+      create: { fileId, content },
+      update: { content },
+    });
+  } catch (error) {
+    console.error(`Error extracting text from file ${fileId}:`, error);
+  }
+}
+
+export interface FileContentIndexResult {
+  indexed: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Extract and store the searchable text of files uploaded before text
+ * extraction existed, or of every file with reindex. Only files the malware
+ * scanner found clean are parsed; the scanner indexes the others once they
+ * are. Files that fail are reported and left unindexed.
+ */
+export async function indexExistingFileContents({
+  reindex = false,
+  batchSize = 50,
+  onProgress,
+}: {
+  reindex?: boolean;
+  batchSize?: number;
+  onProgress?: (
+    file: { id: string; originalName: string },
+    outcome: 'indexed' | 'skipped' | 'failed',
+    error?: unknown
+  ) => void;
+} = {}): Promise<FileContentIndexResult> {
+  const result: FileContentIndexResult = { indexed: 0, skipped: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const files = await prisma.file.findMany({
+      where: {
+        mimeType: { in: EXTRACTABLE_MIME_TYPES },
+        scanStatus: 'CLEAN',
+        ...(!reindex && { content: { is: null } }),
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      select: {
+        id: true,
+        originalName: true,
+        mimeType: true,
+        filePath: true,
+        storageBackend: true,
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+
+    if (files.length === 0) break;
+    cursor = files[files.length - 1]?.id;
+
+    for (const file of files) {
+      try {
+        const body = await getStorageDriver(file.storageBackend).get(
+          file.filePath
+        );
+        const content = await extractFileText(body, file.mimeType ?? '');
+
+        // Nothing to index, e.g. a scanned PDF without a text layer
+        if (!content) {
+          result.skipped++;
+          onProgress?.(file, 'skipped');
+          continue;
+        }
+
+        await prisma.fileContent.upsert({
+          where: { fileId: file.id },
+          create: { fileId: file.id, content },
+          update: { content },
+        });
+
+        result.indexed++;
+        onProgress?.(file, 'indexed');
+      } catch (error) {
+        result.failed++;
+        onProgress?.(file, 'failed', error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -1,4 +1,5 @@
 // Client-safe file utilities (no Node.js fs module)
+import type { ScanStatus } from '@prisma/client';
 
 export const MAX_FILE_SIZE =
   parseInt(process.env.NEXT_PUBLIC_MAX_FILE_SIZE_MB || '10') * 1024 * 1024;
@@ -153,6 +154,52 @@ export function isImageFile(mimeType: string | null): boolean {
   return mimeType ? mimeType.startsWith('image/') : false;
 }
 
+// Files can only be downloaded once the malware scan finds them clean, except
+// for files uploaded before scanning was introduced that are still unscanned
+export const isScanDownloadable = (scanStatus: ScanStatus) =>
+  scanStatus === 'CLEAN' || scanStatus === 'UNSCANNED';
+
+export const SCAN_STATUS_LABELS: Record<ScanStatus, string> = {
+  UNSCANNED: 'Taranmadı',
+  PENDING: 'Taranıyor',
+  CLEAN: 'Temiz',
+  INFECTED: 'Karantinada',
+};
+
+export const SCAN_STATUS_BADGE_CLASSES: Record<ScanStatus, string> = {
+  UNSCANNED: 'bg-gray-100 text-gray-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  CLEAN: 'bg-green-100 text-green-800',
+  INFECTED: 'bg-red-100 text-red-800',
+};
+
+// Widths resized image variants are generated at, served with ?w=
+export const IMAGE_VARIANT_WIDTHS = [320, 768, 1280];
+
+/**
+ * URL of an image file resized to the given width
+ */
+export function getImageVariantUrl(fileId: string, width: number): string {
+  return `/api/files/${fileId}?w=${width}`;
+}
+
+// Types that open in the preview dialog instead of only downloading
+const PREVIEWABLE_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/**
+ * Check if a file can be previewed in the browser
+ */
+export function isPreviewableFile(mimeType: string | null): boolean {
+  return (
+    isImageFile(mimeType) ||
+    (!!mimeType && PREVIEWABLE_MIME_TYPES.includes(mimeType))
+  );
+}
+
 /**
  * Get content disposition header for file download
  */
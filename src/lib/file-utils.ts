@@ -1,7 +1,3 @@
-import { join } from 'path'
-import { existsSync } from 'fs'
-import { unlink } from 'fs/promises'
-
 export const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads'
 export const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE_MB || '10') * 1024 * 1024
 
@@ -108,29 +104,6 @@ export function generateUniqueFilename(originalName: string): string {
   return `${timestamp}_${randomString}.${fileExtension}`
 }
 
-/**
- * Get file path
- */
-export function getFilePath(filename: string): string {
-  return join(UPLOAD_DIR, filename)
-}
-
-/**
- * Check if file exists on disk
- */
-export function fileExists(filePath: string): boolean {
-  return existsSync(filePath)
-}
-
-/**
- * Delete file from disk
- */
-export async function deleteFileFromDisk(filePath: string): Promise<void> {
-  if (fileExists(filePath)) {
-    await unlink(filePath)
-  }
-}
-
 /**
  * Get file type label for UI
  */
@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+import { FileVersion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getStorageDriver } from '@/lib/file-storage';
+import { IMAGE_VARIANT_WIDTHS } from '@/lib/file-utils-client';
+
+// Image types sharp can resize
+const RESIZABLE_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+
+const VARIANT_MIME_TYPE = 'image/webp';
+const VARIANT_QUALITY = 80;
+
+type VariantSource = Pick<
+  FileVersion,
+  'id' | 'filename' | 'filePath' | 'storageBackend'
+>;
+
+export function isResizableImage(mimeType: string | null) {
+  return !!mimeType && RESIZABLE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * The variant width served for a requested width: the narrowest one at least
+ * as wide, or the widest there is
+ */
+export function resolveVariantWidth(requested: number) {
+  return (
+    IMAGE_VARIANT_WIDTHS.find((width) => width >= requested) ??
+    Math.max(...IMAGE_VARIANT_WIDTHS)
+  );
+}
+
+/**
+ * Resized WebP copy of an image version, generated and stored on first
+ * request. Images are never enlarged. EXIF orientation is applied to the
+ * pixels and all metadata, including GPS coordinates, is left out.
+ */
+export async function getImageVariant(version: VariantSource, width: number) {
+  const where = {
+    fileVersionId_width: { fileVersionId: version.id, width },
+  };
+
+  const existing = await prisma.fileVariant.findUnique({ where });
+
+  // The stored copy can be gone, e.g. when it was written to the local disk
+  // of another instance; it is generated again then
+  if (
+    existing &&
+    (await getStorageDriver(existing.storageBackend).stat(existing.filePath))
+  ) {
+    return existing;
+  }
+
+  const original = await getStorageDriver(version.storageBackend).get(
+    version.filePath
+  );
+
+  // sharp only copies metadata over when asked to with keepMetadata()
+  const body = await sharp(original)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: VARIANT_QUALITY })
+    .toBuffer();
+
+  const storage = getStorageDriver();
+  const filePath = await storage.put(
+    `variants/${version.filename.replace(/\.[^.]+$/, '')}-${width}w.webp`,
+    body,
+    VARIANT_MIME_TYPE
+  );
+
+  const stored = {
+    mimeType: VARIANT_MIME_TYPE,
+    fileSize: BigInt(body.length),
+    filePath,
+    storageBackend: storage.backend,
+  };
+
+  // Requests racing to generate the same variant write the same key
+  return prisma.fileVariant.upsert({
+    where,
+    create: { fileVersionId: version.id, width, ...stored },
+    update: stored,
+  });
+}
@@ -0,0 +1,112 @@
+import { File, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+type VersionClient = Prisma.TransactionClient | typeof prisma;
+
+type VersionSource = Pick<
+  File,
+  | 'id'
+  | 'filename'
+  | 'originalName'
+  | 'mimeType'
+  | 'fileSize'
+  | 'filePath'
+  | 'storageBackend'
+>;
+
+export type FileContents = Omit<VersionSource, 'id'>;
+
+const versionUploaderSelect = {
+  id: true,
+  name: true,
+  email: true,
+} as const;
+
+/**
+ * Record the given file contents as the next version.
+ * Should be called inside the same transaction that writes the file so the
+ * newest version always mirrors the live row.
+ */
+export async function createFileVersion(
+  client: VersionClient,
+  file: VersionSource,
+  userId: string
+) {
+  const latest = await client.fileVersion.aggregate({
+    where: { fileId: file.id },
+    _max: { versionNumber: true },
+  });
+
+  return client.fileVersion.create({
+    data: {
+      fileId: file.id,
+      versionNumber: (latest._max.versionNumber ?? 0) + 1,
+      filename: file.filename,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      fileSize: file.fileSize,
+      filePath: file.filePath,
+      storageBackend: file.storageBackend,
+      uploadedById: userId,
+    },
+  });
+}
+
+/**
+ * Point a file at newly stored contents, keeping its id, and record them as
+ * its next version. Earlier versions stay in storage.
+ */
+export async function addFileVersion(
+  fileId: string,
+  contents: FileContents,
+  userId: string
+) {
+  return prisma.$transaction(async (tx) => {
+    // The new contents are downloadable once they are scanned
+    const file = await tx.file.update({
+      where: { id: fileId },
+      data: { ...contents, scanStatus: 'PENDING' },
+    });
+
+    return createFileVersion(tx, file, userId);
+  });
+}
+
+/**
+ * List versions of a file, newest first
+ */
+export async function getFileVersions(fileId: string) {
+  return prisma.fileVersion.findMany({
+    where: { fileId },
+    select: {
+      id: true,
+      versionNumber: true,
+      originalName: true,
+      mimeType: true,
+      fileSize: true,
+      scanStatus: true,
+      createdAt: true,
+      uploadedBy: { select: versionUploaderSelect },
+    },
+    orderBy: { versionNumber: 'desc' },
+  });
+}
+
+/**
+ * Get a single version of a file by its number
+ */
+export async function getFileVersion(fileId: string, versionNumber: number) {
+  return prisma.fileVersion.findUnique({
+    where: { fileId_versionNumber: { fileId, versionNumber } },
+  });
+}
+
+/**
+ * Get the newest version of a file, which mirrors the File row
+ */
+export async function getLatestFileVersion(fileId: string) {
+  return prisma.fileVersion.findFirst({
+    where: { fileId },
+    orderBy: { versionNumber: 'desc' },
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * Lightweight HTML diff utilities for comparing page revisions.
+ * Content is compared block by block (paragraphs, headings, list items...)
+ * and changed blocks get an additional word-level diff, so the result can
+ * be rendered as a side-by-side view with <del>/<ins> markers.
+ */
+
+import DOMPurify from 'dompurify';
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart<T> {
+  op: DiffOperation;
+  value: T;
+}
+
+export interface SideBySideRow {
+  left: string | null;
+  right: string | null;
+  changed: boolean;
+}
+
+/**
+ * Sanitize a rendered diff cell, keeping the <del>/<ins> markers
+ */
+export const sanitizeDiffHtml = (html: string) =>
+  DOMPurify.sanitize(html, {
+    ALLOWED_TAGS: [
+      'p', 'br', 'strong', 'em', 'u', 's',
+      'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+      'ul', 'ol', 'li', 'blockquote', 'a', 'img',
+      'table', 'thead', 'tbody', 'tr', 'th', 'td',
+      'div', 'span', 'hr', 'del', 'ins',
+    ],
+    ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'class'],
+  });
+
+const BLOCK_BOUNDARY =
+  /(<\/(?:p|h[1-6]|li|blockquote|tr|div|pre)>|<br\s*\/?>|<hr\s*\/?>)/i;
+
+/**
+ * Longest-common-subsequence diff between two token lists
+ */
+export function diffSequences<T>(
+  a: T[],
+  b: T[],
+  isEqual: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffPart<T>[] {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table: number[] = new Array(rows * cols).fill(0);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = isEqual(a[i] as T, b[j] as T)
+        ? (table[(i + 1) * cols + j + 1] ?? 0) + 1
+        : Math.max(
+            table[(i + 1) * cols + j] ?? 0,
+            table[i * cols + j + 1] ?? 0
+          );
+    }
+  }
+
+  const parts: DiffPart<T>[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (isEqual(a[i] as T, b[j] as T)) {
+      parts.push({ op: 'equal', value: a[i] as T });
+      i++;
+      j++;
+    } else if (
+      (table[(i + 1) * cols + j] ?? 0) >= (table[i * cols + j + 1] ?? 0)
+    ) {
+      parts.push({ op: 'delete', value: a[i] as T });
+      i++;
+    } else {
+      parts.push({ op: 'insert', value: b[j] as T });
+      j++;
+    }
+  }
+
+  while (i < a.length) {
+    parts.push({ op: 'delete', value: a[i++] as T });
+  }
+  while (j < b.length) {
+    parts.push({ op: 'insert', value: b[j++] as T });
+  }
+
+  return parts;
+}
+
+/**
+ * Split HTML into block-level chunks
+ */
+export function splitHtmlBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  let current = '';
+
+  html.split(BLOCK_BOUNDARY).forEach((piece, index) => {
+    current += piece;
+    // Odd indexes are the captured boundaries
+    if (index % 2 === 1) {
+      blocks.push(current);
+      current = '';
+    }
+  });
+  blocks.push(current);
+
+  // Fold markup-only leftovers (e.g. a closing </ul>) into the previous block
+  return blocks.reduce<string[]>((result, raw) => {
+    const block = raw.trim();
+    const hasText = block.replace(/<[^>]+>/g, '').trim().length > 0;
+    const hasMedia = /<(img|iframe|hr)\b/i.test(block);
+
+    if (!block) return result;
+    if (!hasText && !hasMedia && result.length > 0) {
+      result[result.length - 1] += block;
+    } else {
+      result.push(block);
+    }
+    return result;
+  }, []);
+}
+
+/**
+ * Split a block of HTML into tags, words and whitespace
+ */
+function tokenizeBlock(html: string): string[] {
+  return html.match(/<[^>]+>|[^<\s]+|\s+/g) || [];
+}
+
+const isTag = (token: string) => token.startsWith('<');
+
+/**
+ * Word-level diff of two blocks, returned as marked-up left/right HTML
+ */
+function diffBlock(oldBlock: string, newBlock: string) {
+  const parts = diffSequences(tokenizeBlock(oldBlock), tokenizeBlock(newBlock));
+  let left = '';
+  let right = '';
+
+  for (const part of parts) {
+    const marked =
+      isTag(part.value) || !part.value.trim()
+        ? part.value
+        : part.op === 'delete'
+          ? `<del class="diff-removed">${part.value}</del>`
+          : part.op === 'insert'
+            ? `<ins class="diff-added">${part.value}</ins>`
+            : part.value;
+
+    if (part.op !== 'insert') left += marked;
+    if (part.op !== 'delete') right += marked;
+  }
+
+  return { left, right };
+}
+
+/**
+ * Build side-by-side rows describing how oldHtml became newHtml
+ */
+export function buildSideBySideDiff(
+  oldHtml: string,
+  newHtml: string
+): SideBySideRow[] {
+  const parts = diffSequences(splitHtmlBlocks(oldHtml), splitHtmlBlocks(newHtml));
+  const rows: SideBySideRow[] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+
+  // Pair up consecutive removed/added blocks as modifications
+  const flush = () => {
+    const count = Math.max(deleted.length, inserted.length);
+    for (let k = 0; k < count; k++) {
+      const oldBlock = deleted[k];
+      const newBlock = inserted[k];
+
+      if (oldBlock !== undefined && newBlock !== undefined) {
+        rows.push({ ...diffBlock(oldBlock, newBlock), changed: true });
+      } else if (oldBlock !== undefined) {
+        rows.push({
+          left: `<del class="diff-removed">${oldBlock}</del>`,
+          right: null,
+          changed: true,
+        });
+      } else if (newBlock !== undefined) {
+        rows.push({
+          left: null,
+          right: `<ins class="diff-added">${newBlock}</ins>`,
+          changed: true,
+        });
+      }
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const part of parts) {
+    if (part.op === 'delete') {
+      deleted.push(part.value);
+    } else if (part.op === 'insert') {
+      inserted.push(part.value);
+    } else {
+      flush();
+      rows.push({ left: part.value, right: part.value, changed: false });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Page state as one HTML document, so title and tags are compared as part
+ * of the content
+ */
+export function toComparableHtml(page: {
+  title: string;
+  tags: string[];
+  content: string | null;
+}): string {
+  return (
+    `<h1>${escapeHtml(page.title)}</h1>` +
+    (page.tags.length > 0
+      ? `<p>${escapeHtml(page.tags.map((tag) => `#${tag}`).join(' '))}</p>`
+      : '') +
+    (page.content || '')
+  );
+}
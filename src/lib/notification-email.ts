@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { EmailFrequency } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { emailService } from '@/lib/email';
+import { ValidationError } from '@/lib/errors';
+import {
+  isWithinQuietHours,
+  QUIET_HOURS_EXEMPT_TYPE,
+} from '@/lib/notification-utils-client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIGEST_INTERVAL_MS: Partial<Record<EmailFrequency, number>> = {
+  DAILY: DAY_MS,
+  WEEKLY: 7 * DAY_MS,
+};
+
+// Most notifications listed in one email
+const MAX_NOTIFICATIONS_PER_EMAIL = 50;
+
+const getAppUrl = () =>
+  (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+function signUserId(userId: string) {
+  const secret = process.env.NEXTAUTH_SECRET;
+  // An empty key would make every token forgeable
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to sign unsubscribe links');
+  }
+
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`email-unsubscribe:${userId}`)
+    .digest('base64url');
+}
+
+/**
+ * Token for unsubscribing a user from notification emails without signing in
+ */
+export function createUnsubscribeToken(userId: string) {
+  return `${userId}.${signUserId(userId)}`;
+}
+
+/**
+ * The user id an unsubscribe token was issued for, or null if it is invalid
+ */
+export function verifyUnsubscribeToken(token: string) {
+  const [userId, signature] = token.split('.');
+  if (!userId || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signUserId(userId));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+    ? userId
+    : null;
+}
+
+/**
+ * The user an unsubscribe token was issued for, without changing anything
+ */
+export async function getUnsubscribeTokenUser(token: string) {
+  const userId = verifyUnsubscribeToken(token);
+  if (!userId) {
+    throw new ValidationError('Invalid unsubscribe link');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true },
+  });
+
+  if (!user) {
+    throw new ValidationError('Invalid unsubscribe link');
+  }
+
+  return user;
+}
+
+/**
+ * Turn off notification emails for the user a token was issued for
+ */
+export async function unsubscribeFromEmails(token: string) {
+  const user = await getUnsubscribeTokenUser(token);
+
+  await prisma.notificationPreference.upsert({
+    where: { userId: user.id },
+    update: { emailFrequency: 'OFF' },
+    create: { userId: user.id, emailFrequency: 'OFF' },
+  });
+
+  return user;
+}
+
+/**
+ * Email unread notifications to users who asked for them: right away for
+ * IMMEDIATE, once a day or week for digests. Each email covers the unread
+ * notifications created since the previous one. During a user's quiet hours
+ * digests wait and immediate emails only go out for warnings.
+ */
+export async function sendNotificationEmails(now = new Date()) {
+  if (emailService.getProvider() === 'none') {
+    return 0;
+  }
+
+  const digestDue = (frequency: 'DAILY' | 'WEEKLY') => ({
+    emailFrequency: frequency,
+    OR: [
+      { lastEmailedAt: null },
+      {
+        lastEmailedAt: {
+          lte: new Date(
+            now.getTime() - (DIGEST_INTERVAL_MS[frequency] as number)
+          ),
+        },
+      },
+    ],
+  });
+
+  const duePreferences = await prisma.notificationPreference.findMany({
+    where: {
+      OR: [
+        {
+          emailFrequency: 'IMMEDIATE',
+          user: {
+            notifications: {
+              some: {
+                read: false,
+                byEmail: true,
+                createdAt: { gt: new Date(now.getTime() - DAY_MS) },
+              },
+            },
+          },
+        },
+        digestDue('DAILY'),
+        digestDue('WEEKLY'),
+      ],
+    },
+    include: { user: { select: { email: true, name: true } } },
+  });
+
+  let sent = 0;
+
+  for (const preference of duePreferences) {
+    const isQuiet = isWithinQuietHours(
+      preference.quietHoursStart,
+      preference.quietHoursEnd,
+      now
+    );
+    const isImmediate = preference.emailFrequency === 'IMMEDIATE';
+
+    if (isQuiet && !isImmediate) continue;
+
+    const since = preference.lastEmailedAt ?? preference.updatedAt;
+    const notifications = await prisma.notification.findMany({
+      where: {
+        userId: preference.userId,
+        read: false,
+        byEmail: true,
+        createdAt: { gt: since, lte: now },
+      },
+      select: { title: true, message: true, type: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_NOTIFICATIONS_PER_EMAIL,
+    });
+
+    if (
+      isImmediate &&
+      (notifications.length === 0 ||
+        (isQuiet &&
+          !notifications.some(
+            (notification) => notification.type === QUIET_HOURS_EXEMPT_TYPE
+          )))
+    ) {
+      continue;
+    }
+
+    // Conditional update so each email is only sent once across instances.
+    // Digests advance even when there is nothing to send.
+    const { count } = await prisma.notificationPreference.updateMany({
+      where: {
+        userId: preference.userId,
+        lastEmailedAt: preference.lastEmailedAt,
+      },
+      data: { lastEmailedAt: now },
+    });
+
+    if (count === 0 || notifications.length === 0) continue;
+
+    const token = encodeURIComponent(createUnsubscribeToken(preference.userId));
+
+    try {
+      await emailService.sendNotificationEmail({
+        to: preference.user.email,
+        name: preference.user.name,
+        notifications,
+        digest:
+          preference.emailFrequency === 'DAILY'
+            ? 'daily'
+            : preference.emailFrequency === 'WEEKLY'
+              ? 'weekly'
+              : null,
+        appUrl: getAppUrl(),
+        unsubscribeUrl: `${getAppUrl()}/unsubscribe?token=${token}`,
+        oneClickUnsubscribeUrl: `${getAppUrl()}/api/notifications/unsubscribe?token=${token}`,
+      });
+      sent++;
+    } catch (error) {
+      console.error(
+        `Failed to send notification email to user ${preference.userId}:`,
+        error
+      );
+      // Retry on the next run
+      await prisma.notificationPreference.updateMany({
+        where: { userId: preference.userId, lastEmailedAt: now },
+        data: { lastEmailedAt: preference.lastEmailedAt },
+      });
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,165 @@
+import { EventEmitter } from 'events';
+import { Client } from 'pg';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+
+// A notification to hand to the user's open streams, on whichever server
+// process holds them
+export interface NotificationEvent {
+  userId: string;
+  notificationId: string;
+}
+
+export interface NotificationPubSub {
+  publish(events: NotificationEvent[]): Promise<void>;
+  subscribe(handler: (event: NotificationEvent) => void): Promise<void>;
+}
+
+const CHANNEL = 'notification_events';
+const RECONNECT_DELAY_MS = 5000;
+// NOTIFY payloads must stay under 8000 bytes
+const MAX_PAYLOAD_LENGTH = 7500;
+
+/**
+ * Fan-out within this process only. Enough for a single server or tests.
+ */
+export function createInProcessPubSub(): NotificationPubSub {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+
+  return {
+    async publish(events) {
+      events.forEach((event) => emitter.emit(CHANNEL, event));
+    },
+    async subscribe(handler) {
+      emitter.on(CHANNEL, handler);
+    },
+  };
+}
+
+/**
+ * Fan-out across server processes with PostgreSQL LISTEN/NOTIFY. Publishing
+ * goes through Prisma; listening needs a dedicated connection, which is
+ * reopened when it drops.
+ */
+export function createPostgresPubSub(
+  connectionString = process.env.DATABASE_URL
+): NotificationPubSub {
+  const handlers: ((event: NotificationEvent) => void)[] = [];
+  let listening: Promise<void> | null = null;
+
+  const listen = async () => {
+    const client = new Client({ connectionString });
+    const close = () => {
+      client.removeAllListeners();
+      client.end().catch(() => {
+        // Already closed
+      });
+    };
+
+    client.on('notification', (message) => {
+      if (message.channel !== CHANNEL || !message.payload) return;
+
+      try {
+        const events = JSON.parse(message.payload) as NotificationEvent[];
+        events.forEach((event) =>
+          handlers.forEach((handler) => handler(event))
+        );
+      } catch (error) {
+        console.error('Invalid notification event payload:', error);
+      }
+    });
+
+    let connected = false;
+    const reconnect = (reason: string) => {
+      // Failures while connecting are thrown below and retried by the caller
+      if (!connected) return;
+      logger.warn(`Notification listener connection lost: ${reason}`);
+      close();
+      scheduleReconnect();
+    };
+    client.on('error', (error) => reconnect(error.message));
+    // The server can also close the connection without an error
+    client.on('end', () => reconnect('connection closed'));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      close();
+      throw error;
+    }
+
+    connected = true;
+  };
+
+  const scheduleReconnect = () => {
+    setTimeout(() => {
+      listening = listen().catch((error) => {
+        console.error('Failed to listen for notification events:', error);
+        scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS).unref();
+  };
+
+  return {
+    async publish(events) {
+      // Events are sent in as few NOTIFY payloads as fit
+      let chunk: NotificationEvent[] = [];
+      let length = 2;
+
+      const flush = async () => {
+        if (chunk.length === 0) return;
+        await prisma.$executeRaw`SELECT pg_notify(${CHANNEL}, ${JSON.stringify(chunk)})`;
+        chunk = [];
+        length = 2;
+      };
+
+      for (const event of events) {
+        const eventLength = JSON.stringify(event).length + 1;
+        if (length + eventLength > MAX_PAYLOAD_LENGTH) {
+          await flush();
+        }
+        chunk.push(event);
+        length += eventLength;
+      }
+
+      await flush();
+    },
+    async subscribe(handler) {
+      listening ??= listen().catch((error) => {
+        listening = null;
+        throw error;
+      });
+      await listening;
+      // Only once listening works, so retried subscriptions are not
+      // registered twice
+      handlers.push(handler);
+    },
+  };
+}
+
+const globalForPubSub = globalThis as unknown as {
+  notificationPubSub: NotificationPubSub | undefined;
+};
+
+/**
+ * The pub/sub used for real-time notifications. NOTIFICATION_PUBSUB=memory
+ * keeps fan-out in this process, the default is PostgreSQL.
+ */
+export function getNotificationPubSub() {
+  globalForPubSub.notificationPubSub ??=
+    process.env.NOTIFICATION_PUBSUB === 'memory'
+      ? createInProcessPubSub()
+      : createPostgresPubSub();
+
+  return globalForPubSub.notificationPubSub;
+}
+
+/**
+ * Use another pub/sub, e.g. Redis. Must be called before the first
+ * notification stream opens.
+ */
+export function setNotificationPubSub(pubsub: NotificationPubSub) {
+  globalForPubSub.notificationPubSub = pubsub;
+}
@@ -1,34 +1,149 @@
 import { Notification } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  getNotificationPubSub,
+  NotificationEvent,
+} from '@/lib/notification-pubsub';
+import {
+  isWithinQuietHours,
+  QUIET_HOURS_EXEMPT_TYPE,
+} from '@/lib/notification-utils-client';
 
-// Shared connection registry for SSE controllers per user
-const connections = new Map<string, ReadableStreamDefaultController>();
+// Most missed notifications sent to a reconnecting stream
+const MAX_REPLAY = 50;
 
-export function registerConnection(userId: string, controller: ReadableStreamDefaultController) {
-  connections.set(userId, controller);
-}
+// Open SSE streams of this process per user, one per tab
+const connections = new Map<string, Set<ReadableStreamDefaultController>>();
 
-export function unregisterConnection(userId: string) {
-  connections.delete(userId);
-}
+let subscription: Promise<void> | null = null;
 
-export function sendNotificationToUser(userId: string, notification: Notification) {
-  const controller = connections.get(userId);
-  if (controller) {
+const formatEvent = (notification: Notification) =>
+  `id: ${notification.id}\ndata: ${JSON.stringify({ type: 'notification', data: notification })}\n\n`;
+
+function deliverLocally(userId: string, notification: Notification) {
+  connections.get(userId)?.forEach((controller) => {
     try {
-      controller.enqueue(`data: ${JSON.stringify({ type: 'notification', data: notification })}\n\n`);
+      controller.enqueue(formatEvent(notification));
     } catch {
       console.error('Error sending notification to user:');
-      connections.delete(userId);
+      unregisterConnection(userId, controller);
     }
+  });
+}
+
+async function handleEvent({ userId, notificationId }: NotificationEvent) {
+  if (!connections.has(userId)) return;
+
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+  });
+
+  if (notification) {
+    deliverLocally(userId, notification);
   }
 }
 
-export function broadcastNotification(notification: Notification) {
-  connections.forEach((controller) => {
-    try {
-      controller.enqueue(`data: ${JSON.stringify({ type: 'notification', data: notification })}\n\n`);
-    } catch {
-      console.error('Error broadcasting notification:');
-    }
+/**
+ * Start receiving notification events for streams of this process
+ */
+function ensureSubscribed() {
+  subscription ??= getNotificationPubSub()
+    .subscribe((event) => {
+      handleEvent(event).catch((error) =>
+        console.error('Error delivering notification event:', error)
+      );
+    })
+    .catch((error) => {
+      subscription = null;
+      console.error('Failed to subscribe to notification events:', error);
+    });
+
+  return subscription;
+}
+
+export async function registerConnection(
+  userId: string,
+  controller: ReadableStreamDefaultController
+) {
+  const userConnections = connections.get(userId) ?? new Set();
+  userConnections.add(controller);
+  connections.set(userId, userConnections);
+
+  await ensureSubscribed();
+}
+
+export function unregisterConnection(
+  userId: string,
+  controller: ReadableStreamDefaultController
+) {
+  const userConnections = connections.get(userId);
+  userConnections?.delete(controller);
+  if (userConnections?.size === 0) {
+    connections.delete(userId);
+  }
+}
+
+/**
+ * Send the notifications a reconnecting stream missed after the one it saw
+ * last (the SSE Last-Event-ID). During quiet hours only warnings are replayed.
+ */
+export async function replayMissedNotifications(
+  userId: string,
+  controller: ReadableStreamDefaultController,
+  lastEventId: string
+) {
+  const [last, preferences] = await Promise.all([
+    prisma.notification.findFirst({
+      where: { id: lastEventId, userId },
+      select: { id: true, createdAt: true },
+    }),
+    prisma.notificationPreference.findUnique({
+      where: { userId },
+      select: { quietHoursStart: true, quietHoursEnd: true },
+    }),
+  ]);
+
+  if (!last) return;
+
+  const isQuiet =
+    !!preferences &&
+    isWithinQuietHours(preferences.quietHoursStart, preferences.quietHoursEnd);
+
+  const missed = await prisma.notification.findMany({
+    where: {
+      userId,
+      inApp: true,
+      read: false,
+      OR: [
+        { createdAt: { gt: last.createdAt } },
+        { createdAt: last.createdAt, id: { gt: last.id } },
+      ],
+      ...(isQuiet && { type: QUIET_HOURS_EXEMPT_TYPE }),
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: MAX_REPLAY,
   });
-}
\ No newline at end of file
+
+  missed.forEach((notification) =>
+    controller.enqueue(formatEvent(notification))
+  );
+}
+
+/**
+ * Push stored notifications to every open stream of their users, on any
+ * server process
+ */
+export function sendNotificationsToUsers(notifications: Notification[]) {
+  if (notifications.length === 0) return;
+
+  getNotificationPubSub()
+    .publish(
+      notifications.map((notification) => ({
+        userId: notification.userId,
+        notificationId: notification.id,
+      }))
+    )
+    .catch((error) =>
+      console.error('Error publishing notification events:', error)
+    );
+}
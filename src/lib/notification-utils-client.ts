@@ -0,0 +1,64 @@
+// Client-safe notification preference helpers (no Node.js dependencies)
+
+// Notification types users can turn off per channel
+export const NOTIFICATION_CATEGORIES = [
+  { type: 'announcement', label: 'Yeni duyuru' },
+  { type: 'warning', label: 'Yeni uyarı' },
+  { type: 'update', label: 'Sayfa güncellemesi' },
+  { type: 'comment', label: 'Sayfama yorum' },
+  { type: 'mention', label: 'Bir yorumda anılmam' },
+  { type: 'acknowledgement', label: 'Okuma onayı talebi' },
+] as const;
+
+export const NOTIFICATION_CATEGORY_TYPES: string[] =
+  NOTIFICATION_CATEGORIES.map((category) => category.type);
+
+// The only notification type that interrupts during quiet hours
+export const QUIET_HOURS_EXEMPT_TYPE = 'warning';
+
+// Quiet hours are entered and evaluated in the organisation's time zone
+export const QUIET_HOURS_TIME_ZONE = 'Europe/Istanbul';
+
+/**
+ * Format minutes after midnight as HH:MM
+ */
+export function minutesToTime(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Parse HH:MM into minutes after midnight
+ */
+export function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Whether the current time of day falls within the quiet hours. The range may
+ * wrap past midnight, e.g. 22:00–07:00.
+ */
+export function isWithinQuietHours(
+  start: number | null,
+  end: number | null,
+  now = new Date()
+) {
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+    timeZone: QUIET_HOURS_TIME_ZONE,
+  }).formatToParts(now);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value || 0);
+  const current = part('hour') * 60 + part('minute');
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
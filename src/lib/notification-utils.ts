@@ -1,5 +1,13 @@
+import { Notification, NotificationBroadcast, Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { sendNotificationToUser } from '@/lib/notification-stream';
+import { sendNotificationsToUsers } from '@/lib/notification-stream';
+import { findSavedSearchesMatchingPage } from '@/lib/saved-searches';
+import { getAudienceWhere } from '@/lib/acknowledgements';
+import { NotificationPreferences } from '@/types';
+import {
+  isWithinQuietHours,
+  QUIET_HOURS_EXEMPT_TYPE,
+} from '@/lib/notification-utils-client';
 
 export interface NotificationData {
   title: string;
@@ -8,48 +16,217 @@ export interface NotificationData {
   userId?: string; // If specified, send to specific user, otherwise broadcast
 }
 
-// Create and send notification
-export async function createAndSendNotification(data: NotificationData) {
-  try {
-    if (data.userId) {
-      // Send to specific user
-      const notification = await prisma.notification.create({
-        data: {
-          userId: data.userId,
-          title: data.title,
-          message: data.message,
-          type: data.type,
-        },
-      });
+interface NotificationContent {
+  title: string;
+  message: string;
+  type: string;
+}
 
-      // Send real-time notification
-      sendNotificationToUser(data.userId, notification);
-      return notification;
-    } else {
-      // Broadcast to all users
-      const users = await prisma.user.findMany({
-        select: { id: true },
+// How a notification of the given type reaches each user: listed in the app,
+// included in emails, and pushed right away unless quiet hours hold it back
+async function getDeliveryChannels(
+  userIds: string[],
+  type: string,
+  now = new Date()
+) {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds } },
+  });
+  const byUser = new Map(preferences.map((pref) => [pref.userId, pref]));
+
+  return new Map(
+    userIds.map((userId) => {
+      const pref = byUser.get(userId);
+      const inApp =
+        (pref?.inAppNotifications ?? true) &&
+        !pref?.mutedInAppTypes.includes(type);
+      const byEmail =
+        !!pref &&
+        pref.emailFrequency !== 'OFF' &&
+        !pref.mutedEmailTypes.includes(type);
+      const quiet =
+        type !== QUIET_HOURS_EXEMPT_TYPE &&
+        !!pref &&
+        isWithinQuietHours(pref.quietHoursStart, pref.quietHoursEnd, now);
+
+      return [userId, { inApp, byEmail, push: inApp && !quiet }];
+    })
+  );
+}
+
+// Users written per query when delivering to many users
+const DELIVERY_BATCH_SIZE = 500;
+
+// How long a process may work on a broadcast before another one takes over
+const BROADCAST_LEASE_MS = 5 * 60 * 1000;
+
+// Store a notification for each user whose preferences allow it and push it
+// to those who are connected. onBatch runs in the same transaction as each
+// batch's insert, e.g. to record progress.
+async function deliverNotification(
+  userIds: string[],
+  content: NotificationContent,
+  onBatch?: (tx: Prisma.TransactionClient) => Promise<void>
+) {
+  const delivered: Notification[] = [];
+
+  for (let i = 0; i < userIds.length; i += DELIVERY_BATCH_SIZE) {
+    const batch = userIds.slice(i, i + DELIVERY_BATCH_SIZE);
+    const channels = await getDeliveryChannels(batch, content.type);
+
+    const notifications = await prisma.$transaction(async (tx) => {
+      const created = await tx.notification.createManyAndReturn({
+        data: batch.flatMap((userId) => {
+          const channel = channels.get(userId);
+          return channel?.inApp || channel?.byEmail
+            ? [
+                {
+                  userId,
+                  ...content,
+                  inApp: channel.inApp,
+                  byEmail: channel.byEmail,
+                },
+              ]
+            : [];
+        }),
       });
 
-      const notifications = await Promise.all(
-        users.map(user =>
-          prisma.notification.create({
-            data: {
-              userId: user.id,
-              title: data.title,
-              message: data.message,
-              type: data.type,
-            },
-          })
-        )
+      await onBatch?.(tx);
+      return created;
+    });
+
+    sendNotificationsToUsers(
+      notifications.filter(
+        (notification) => channels.get(notification.userId)?.push
+      )
+    );
+    delivered.push(...notifications);
+  }
+
+  return delivered;
+}
+
+// Write one claimed broadcast, resuming after the last user already written
+async function runBroadcast(broadcast: NotificationBroadcast) {
+  const { title, message, type, excludeUserId } = broadcast;
+  let cursor = broadcast.cursor;
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      where: {
+        ...(cursor && { id: { gt: cursor } }),
+        ...(excludeUserId && { NOT: { id: excludeUserId } }),
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: DELIVERY_BATCH_SIZE,
+    });
+
+    if (users.length === 0) break;
+
+    const nextCursor = users[users.length - 1]?.id ?? null;
+
+    // The cursor moves in the same transaction as the insert, and only while
+    // nobody else has moved it, so no batch is ever written twice
+    await deliverNotification(
+      users.map((user) => user.id),
+      { title, message, type },
+      async (tx) => {
+        const { count } = await tx.notificationBroadcast.updateMany({
+          where: { id: broadcast.id, cursor },
+          data: {
+            cursor: nextCursor,
+            lockedUntil: new Date(Date.now() + BROADCAST_LEASE_MS),
+          },
+        });
+
+        if (count === 0) {
+          throw new Error(
+            `Notification broadcast ${broadcast.id} was taken over by another process`
+          );
+        }
+      }
+    );
+
+    cursor = nextCursor;
+  }
+
+  await prisma.notificationBroadcast.update({
+    where: { id: broadcast.id },
+    data: { completedAt: new Date(), lockedUntil: null },
+  });
+}
+
+/**
+ * Write pending broadcasts. Runs right after a broadcast is queued and on
+ * every scheduler pass, which picks up broadcasts an interrupted process
+ * left unfinished once their lease expires.
+ */
+export async function processNotificationBroadcasts(now = new Date()) {
+  const leaseFree = {
+    OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+  };
+
+  const pending = await prisma.notificationBroadcast.findMany({
+    where: { completedAt: null, ...leaseFree },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let completed = 0;
+
+  for (const broadcast of pending) {
+    // Conditional update so a broadcast is only written by one process
+    const { count } = await prisma.notificationBroadcast.updateMany({
+      where: { id: broadcast.id, completedAt: null, ...leaseFree },
+      data: { lockedUntil: new Date(now.getTime() + BROADCAST_LEASE_MS) },
+    });
+
+    if (count === 0) continue;
+
+    try {
+      await runBroadcast(broadcast);
+      completed++;
+    } catch (error) {
+      console.error(
+        `Failed to write notification broadcast ${broadcast.id}:`,
+        error
       );
+    }
+  }
 
-      // Send real-time notifications
-      notifications.forEach(notification => {
-        sendNotificationToUser(notification.userId, notification);
-      });
+  return completed;
+}
+
+// Queue a notification for every user (except excludeUserId) and start
+// writing it in the background
+async function queueBroadcast(
+  content: NotificationContent,
+  excludeUserId?: string
+) {
+  const broadcast = await prisma.notificationBroadcast.create({
+    data: { ...content, excludeUserId },
+  });
+
+  processNotificationBroadcasts().catch((error) =>
+    console.error('Error processing notification broadcasts:', error)
+  );
+
+  return broadcast;
+}
+
+// Create and send notification, respecting each recipient's preferences.
+// Broadcasts are queued and written in the background.
+export async function createAndSendNotification(data: NotificationData) {
+  try {
+    const { userId, ...content } = data;
 
-      return notifications;
+    if (userId) {
+      // Send to specific user
+      const [notification] = await deliverNotification([userId], content);
+      return notification;
+    } else {
+      // Broadcast to all users
+      return await queueBroadcast(content);
     }
   } catch (error) {
     console.error('Error creating and sending notification:', error);
@@ -67,38 +244,19 @@ export async function notifyNewAnnouncement(pageId: string, authorId: string) {
       include: { author: true },
     });
 
-    if (!page || page.pageType !== 'ANNOUNCEMENT') {
+    if (!page || page.pageType !== 'ANNOUNCEMENT' || !page.published) {
       return;
     }
 
-    // Get all users except the author
-    const users = await prisma.user.findMany({
-      where: {
-        id: { not: authorId },
+    // Notify all users except the author
+    return await queueBroadcast(
+      {
+        title: 'Yeni Duyuru',
+        message: `"${page.title}" başlıklı yeni bir duyuru yayınlandı.`,
+        type: 'announcement',
       },
-      select: { id: true },
-    });
-
-    // Create notifications for all users
-    const notifications = await Promise.all(
-      users.map(user =>
-        prisma.notification.create({
-          data: {
-            userId: user.id,
-            title: 'Yeni Duyuru',
-            message: `"${page.title}" başlıklı yeni bir duyuru yayınlandı.`,
-            type: 'announcement',
-          },
-        })
-      )
+      authorId
     );
-
-    // Send real-time notifications
-    notifications.forEach(notification => {
-      sendNotificationToUser(notification.userId, notification);
-    });
-
-    return notifications;
   } catch (error) {
     console.error('Error notifying new announcement:', error);
     throw error;
@@ -113,93 +271,310 @@ export async function notifyNewWarning(pageId: string, authorId: string) {
       include: { author: true },
     });
 
-    if (!page || page.pageType !== 'WARNING') {
+    if (!page || page.pageType !== 'WARNING' || !page.published) {
+      return;
+    }
+
+    // Notify all users except the author
+    return await queueBroadcast(
+      {
+        title: 'Önemli Uyarı',
+        message: `"${page.title}" başlıklı önemli bir uyarı yayınlandı.`,
+        type: 'warning',
+      },
+      authorId
+    );
+  } catch (error) {
+    console.error('Error notifying new warning:', error);
+    throw error;
+  }
+}
+
+// Trigger when a page is updated
+export async function notifyPageUpdate(pageId: string, authorId: string) {
+  try {
+    const page = await prisma.page.findUnique({
+      where: { id: pageId },
+      include: { author: true },
+    });
+
+    // Drafts, pages under review and scheduled pages are not visible yet
+    if (!page || !page.published) {
+      return;
+    }
+
+    let broadcast;
+
+    // Only notify for announcements and warnings
+    if (['ANNOUNCEMENT', 'WARNING'].includes(page.pageType)) {
+      const pageTypeText =
+        page.pageType === 'ANNOUNCEMENT' ? 'duyuru' : 'uyarı';
+
+      // Notify all users except the author
+      broadcast = await queueBroadcast(
+        {
+          title: 'İçerik Güncellendi',
+          message: `"${page.title}" başlıklı ${pageTypeText} güncellendi.`,
+          type: 'update',
+        },
+        authorId
+      );
+    }
+
+    // Sent last and never rethrown, so saved-search alerts cannot hold back
+    // the update broadcast
+    try {
+      await notifySavedSearchMatches(pageId, 'updated');
+    } catch (error) {
+      console.error('Error notifying saved search matches:', error);
+    }
+
+    return broadcast;
+  } catch (error) {
+    console.error('Error notifying page update:', error);
+    throw error;
+  }
+}
+
+// Trigger when a page transitions to PUBLISHED
+export async function notifyPagePublished(pageId: string, authorId: string) {
+  const page = await prisma.page.findUnique({
+    where: { id: pageId },
+    select: { pageType: true },
+  });
+
+  if (page?.pageType === 'ANNOUNCEMENT') {
+    await notifyNewAnnouncement(pageId, authorId);
+  } else if (page?.pageType === 'WARNING') {
+    await notifyNewWarning(pageId, authorId);
+  }
+
+  await notifyAcknowledgementRequested(pageId);
+
+  // Sent last and never rethrown, so saved-search alerts cannot hold back
+  // the announcement or acknowledgement requests
+  try {
+    await notifySavedSearchMatches(pageId, 'published');
+  } catch (error) {
+    console.error('Error notifying saved search matches:', error);
+  }
+}
+
+const formatDeadline = (date: Date) =>
+  date.toLocaleString('tr-TR', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: 'Europe/Istanbul',
+  });
+
+// Trigger when a published page requires acknowledgement. Users matching
+// `exclude` (e.g. the previous audience) are skipped.
+export async function notifyAcknowledgementRequested(
+  pageId: string,
+  exclude?: Prisma.UserWhereInput
+) {
+  try {
+    const campaign = await prisma.acknowledgementCampaign.findUnique({
+      where: { pageId },
+      include: { page: { select: { title: true, published: true } } },
+    });
+
+    if (!campaign?.page.published) {
       return;
     }
 
-    // Get all users except the author
     const users = await prisma.user.findMany({
       where: {
-        id: { not: authorId },
+        AND: [
+          getAudienceWhere(campaign),
+          ...(exclude ? [{ NOT: exclude }] : []),
+        ],
+        acknowledgements: { none: { campaignId: campaign.id } },
       },
       select: { id: true },
     });
 
-    // Create notifications for all users
-    const notifications = await Promise.all(
-      users.map(user =>
-        prisma.notification.create({
-          data: {
-            userId: user.id,
-            title: 'Önemli Uyarı',
-            message: `"${page.title}" başlıklı önemli bir uyarı yayınlandı.`,
-            type: 'warning',
-          },
-        })
-      )
+    return await deliverNotification(
+      users.map(user => user.id),
+      {
+        title: 'Okuma Onayı Gerekli',
+        message: `"${campaign.page.title}" sayfasını okuyup ${formatDeadline(campaign.deadline)} tarihine kadar onaylamanız gerekiyor.`,
+        type: 'acknowledgement',
+      }
     );
+  } catch (error) {
+    console.error('Error notifying acknowledgement request:', error);
+    throw error;
+  }
+}
 
-    // Send real-time notifications
-    notifications.forEach(notification => {
-      sendNotificationToUser(notification.userId, notification);
+// Trigger shortly before an acknowledgement deadline, for users who have not
+// confirmed yet
+export async function notifyAcknowledgementReminder(campaignId: string) {
+  try {
+    const campaign = await prisma.acknowledgementCampaign.findUnique({
+      where: { id: campaignId },
+      include: { page: { select: { title: true } } },
     });
 
-    return notifications;
+    if (!campaign) {
+      return;
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        ...getAudienceWhere(campaign),
+        acknowledgements: { none: { campaignId: campaign.id } },
+      },
+      select: { id: true },
+    });
+
+    return await deliverNotification(
+      users.map(user => user.id),
+      {
+        title: 'Okuma Onayı Hatırlatması',
+        message: `"${campaign.page.title}" sayfası için okuma onayınızın son tarihi ${formatDeadline(campaign.deadline)}.`,
+        type: 'acknowledgement',
+      }
+    );
   } catch (error) {
-    console.error('Error notifying new warning:', error);
+    console.error('Error sending acknowledgement reminders:', error);
     throw error;
   }
 }
 
-// Trigger when a page is updated
-export async function notifyPageUpdate(pageId: string, authorId: string) {
+// Trigger when a published or updated page matches users' saved searches
+export async function notifySavedSearchMatches(
+  pageId: string,
+  event: 'published' | 'updated'
+) {
   try {
     const page = await prisma.page.findUnique({
       where: { id: pageId },
-      include: { author: true },
+      select: { title: true },
     });
 
     if (!page) {
       return;
     }
 
-    // Only notify for announcements and warnings
-    if (!['ANNOUNCEMENT', 'WARNING'].includes(page.pageType)) {
+    const matches = await findSavedSearchesMatchingPage(pageId);
+    const eventText = event === 'published' ? 'yayınlandı' : 'güncellendi';
+
+    // The message names the search, so users are grouped by search name
+    const userIdsByName = new Map<string, string[]>();
+    for (const search of matches) {
+      userIdsByName.set(search.name, [
+        ...(userIdsByName.get(search.name) ?? []),
+        search.userId,
+      ]);
+    }
+
+    const delivered: Notification[] = [];
+    for (const [name, userIds] of userIdsByName) {
+      delivered.push(
+        ...(await deliverNotification(userIds, {
+          title: 'Kayıtlı Arama Eşleşmesi',
+          message: `"${name}" aramanızla eşleşen "${page.title}" sayfası ${eventText}.`,
+          type: 'saved_search',
+        }))
+      );
+    }
+
+    return delivered;
+  } catch (error) {
+    console.error('Error notifying saved search matches:', error);
+    throw error;
+  }
+}
+
+// Trigger when a page is submitted for review
+export async function notifyReviewRequested(
+  pageId: string,
+  submitterId: string
+) {
+  try {
+    const page = await prisma.page.findUnique({
+      where: { id: pageId },
+    });
+
+    if (!page) {
       return;
     }
 
-    // Get all users except the author
-    const users = await prisma.user.findMany({
+    // Notify all reviewers except the submitter
+    const reviewers = await prisma.user.findMany({
       where: {
-        id: { not: authorId },
+        id: { not: submitterId },
+        role: { in: ['ADMIN', 'SYSTEM_ADMIN'] },
       },
       select: { id: true },
     });
 
-    const pageTypeText = page.pageType === 'ANNOUNCEMENT' ? 'duyuru' : 'uyarı';
-
-    // Create notifications for all users
-    const notifications = await Promise.all(
-      users.map(user =>
-        prisma.notification.create({
-          data: {
-            userId: user.id,
-            title: 'İçerik Güncellendi',
-            message: `"${page.title}" başlıklı ${pageTypeText} güncellendi.`,
-            type: 'update',
-          },
-        })
-      )
+    return await deliverNotification(
+      reviewers.map(user => user.id),
+      {
+        title: 'İnceleme Bekleniyor',
+        message: `"${page.title}" başlıklı sayfa onayınızı bekliyor.`,
+        type: 'review',
+      }
     );
+  } catch (error) {
+    console.error('Error notifying review request:', error);
+    throw error;
+  }
+}
 
-    // Send real-time notifications
-    notifications.forEach(notification => {
-      sendNotificationToUser(notification.userId, notification);
+// Trigger when a reviewer approves or rejects a page
+export async function notifyReviewDecision(
+  pageId: string,
+  reviewerId: string,
+  approved: boolean
+) {
+  try {
+    const page = await prisma.page.findUnique({
+      where: { id: pageId },
     });
 
-    return notifications;
+    if (!page || page.authorId === reviewerId) {
+      return;
+    }
+
+    return await createAndSendNotification({
+      userId: page.authorId,
+      title: approved ? 'Sayfa Onaylandı' : 'Sayfa Reddedildi',
+      message: approved
+        ? `"${page.title}" başlıklı sayfanız onaylandı ve yayınlandı.`
+        : `"${page.title}" başlıklı sayfanız reddedildi: ${page.reviewComment || ''}`.trim(),
+      type: 'review',
+    });
   } catch (error) {
-    console.error('Error notifying page update:', error);
+    console.error('Error notifying review decision:', error);
+    throw error;
+  }
+}
+
+// Trigger when the malware scan finds an uploaded file infected
+export async function notifyFileQuarantined(
+  fileName: string,
+  signature: string
+) {
+  try {
+    const admins = await prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'SYSTEM_ADMIN'] } },
+      select: { id: true },
+    });
+
+    return await deliverNotification(
+      admins.map(user => user.id),
+      {
+        title: 'Zararlı Dosya Karantinaya Alındı',
+        message: `"${fileName}" dosyasında zararlı içerik bulundu (${signature}). Dosya karantinaya alındı ve indirilemez.`,
+        type: 'security',
+      }
+    );
+  } catch (error) {
+    console.error('Error notifying file quarantine:', error);
     throw error;
   }
 }
@@ -221,21 +596,59 @@ export async function notifyNewComment(pageId: string, commentAuthorId: string)
       return;
     }
 
-    const notification = await prisma.notification.create({
-      data: {
-        userId: page.authorId,
-        title: 'Yeni Yorum',
-        message: `"${page.title}" başlıklı sayfanıza yeni bir yorum eklendi.`,
-        type: 'comment',
-      },
+    return await createAndSendNotification({
+      userId: page.authorId,
+      title: 'Yeni Yorum',
+      message: `"${page.title}" başlıklı sayfanıza yeni bir yorum eklendi.`,
+      type: 'comment',
     });
+  } catch (error) {
+    console.error('Error notifying new comment:', error);
+    throw error;
+  }
+}
 
-    // Send real-time notification
-    sendNotificationToUser(page.authorId, notification);
+// Trigger when users are @mentioned in a comment
+export async function notifyMentions(
+  pageId: string,
+  commentAuthorId: string,
+  mentionedUserIds: string[]
+) {
+  try {
+    const recipientIds = mentionedUserIds.filter((id) => id !== commentAuthorId);
+    if (recipientIds.length === 0) {
+      return [];
+    }
 
-    return notification;
+    const [page, author, recipients] = await Promise.all([
+      prisma.page.findUnique({
+        where: { id: pageId },
+        select: { title: true },
+      }),
+      prisma.user.findUnique({
+        where: { id: commentAuthorId },
+        select: { name: true, email: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: recipientIds } },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!page || !author) {
+      return [];
+    }
+
+    return await deliverNotification(
+      recipients.map((user) => user.id),
+      {
+        title: 'Bir Yorumda Anıldınız',
+        message: `${author.name || author.email}, "${page.title}" sayfasındaki bir yorumda sizden bahsetti.`,
+        type: 'mention',
+      }
+    );
   } catch (error) {
-    console.error('Error notifying new comment:', error);
+    console.error('Error notifying mentions:', error);
     throw error;
   }
 }
@@ -264,18 +677,31 @@ export async function getUserNotificationPreferences(userId: string) {
   }
 }
 
-// Update notification preferences
+// Update notification preferences. Changing the email frequency starts the
+// next email's window now, so earlier notifications are not emailed.
 export async function updateNotificationPreferences(
   userId: string,
-  preferences: { inAppNotifications: boolean }
+  preferences: Partial<NotificationPreferences>
 ) {
   try {
+    const current = await prisma.notificationPreference.findUnique({
+      where: { userId },
+      select: { emailFrequency: true },
+    });
+    const frequencyChanged =
+      preferences.emailFrequency !== undefined &&
+      preferences.emailFrequency !== (current?.emailFrequency ?? 'OFF');
+    const data = {
+      ...preferences,
+      ...(frequencyChanged && { lastEmailedAt: new Date() }),
+    };
+
     const updatedPreferences = await prisma.notificationPreference.upsert({
       where: { userId },
-      update: preferences,
+      update: data,
       create: {
         userId,
-        ...preferences,
+        ...data,
       },
     });
 
@@ -0,0 +1,133 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getLivePageWhere } from '@/lib/page-schedule';
+
+type ReadClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Where clause for live pages the user has not read, or has read before a
+ * significant update. Prisma turns the relation filter into a subquery on
+ * page_reads, so nothing per read page is loaded into memory or sent as
+ * parameters.
+ */
+export function getUnreadPageWhere(
+  userId: string,
+  now = new Date()
+): Prisma.PageWhereInput {
+  return {
+    ...getLivePageWhere(now),
+    reads: { none: { userId, stale: false } },
+  };
+}
+
+/**
+ * Record that the user has read the current revision of a page.
+ * Returns true when this is the user's first read of the page.
+ */
+export async function markPageRead(userId: string, pageId: string) {
+  const [latest, existing] = await Promise.all([
+    prisma.pageRevision.aggregate({
+      where: { pageId },
+      _max: { revisionNumber: true },
+    }),
+    prisma.pageRead.findUnique({
+      where: { userId_pageId: { userId, pageId } },
+      select: { id: true },
+    }),
+  ]);
+
+  const revisionNumber = latest._max.revisionNumber;
+
+  await prisma.pageRead.upsert({
+    where: { userId_pageId: { userId, pageId } },
+    create: { userId, pageId, revisionNumber },
+    update: { revisionNumber, stale: false, readAt: new Date() },
+  });
+
+  return existing === null;
+}
+
+/**
+ * Show a significantly updated page as unread again to everyone who read it,
+ * except the editor. The reads are kept so readers can see what changed
+ * since their last read.
+ */
+export async function markPageReadsStale(
+  client: ReadClient,
+  pageId: string,
+  editorId: string
+) {
+  const { count } = await client.pageRead.updateMany({
+    where: { pageId, userId: { not: editorId }, stale: false },
+    data: { stale: true },
+  });
+
+  return count;
+}
+
+/**
+ * The revision each of the given pages was at when the user last read it,
+ * for pages that were significantly updated since
+ */
+export async function getStaleReads(userId: string, pageIds: string[]) {
+  const reads = await prisma.pageRead.findMany({
+    where: { userId, pageId: { in: pageIds }, stale: true },
+    select: { pageId: true, revisionNumber: true, readAt: true },
+  });
+
+  const revisions = await prisma.pageRevision.findMany({
+    where: {
+      OR: reads
+        .filter((read) => read.revisionNumber !== null)
+        .map((read) => ({
+          pageId: read.pageId,
+          revisionNumber: read.revisionNumber as number,
+        })),
+    },
+    select: {
+      pageId: true,
+      revisionNumber: true,
+      title: true,
+      content: true,
+      tags: true,
+    },
+  });
+
+  return new Map(
+    reads.map((read) => [
+      read.pageId,
+      {
+        readAt: read.readAt,
+        revision:
+          revisions.find(
+            (revision) =>
+              revision.pageId === read.pageId &&
+              revision.revisionNumber === read.revisionNumber
+          ) ?? null,
+      },
+    ])
+  );
+}
+
+/**
+ * Mark pages as unread again, for one user or everyone
+ */
+export async function resetPageReads(userId?: string) {
+  const { count } = await prisma.pageRead.deleteMany({
+    where: userId ? { userId } : {},
+  });
+
+  return count;
+}
+
+/**
+ * Totals for the read status admin panel
+ */
+export async function getReadStatusStats() {
+  const [totalReadEntries, readers] = await Promise.all([
+    prisma.pageRead.count(),
+    prisma.pageRead.groupBy({ by: ['userId'] }),
+  ]);
+
+  return { totalReadEntries, usersWithReads: readers.length };
+}
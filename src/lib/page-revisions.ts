@@ -0,0 +1,80 @@
+import { Page, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+type RevisionClient = Prisma.TransactionClient | typeof prisma;
+
+type RevisionSource = Pick<
+  Page,
+  'id' | 'title' | 'content' | 'pageType' | 'tags'
+>;
+
+const revisionAuthorSelect = {
+  id: true,
+  name: true,
+  email: true,
+} as const;
+
+/**
+ * Snapshot the given page state as the next revision.
+ * Should be called inside the same transaction that writes the page so the
+ * newest revision always mirrors the live row.
+ */
+export async function createPageRevision(
+  client: RevisionClient,
+  page: RevisionSource,
+  userId: string,
+  restoredFromId?: string
+) {
+  // Lock the page so concurrent saves number their revisions one after another
+  await client.$queryRaw`SELECT 1 FROM "pages" WHERE "id" = ${page.id} FOR UPDATE`;
+
+  const latest = await client.pageRevision.aggregate({
+    where: { pageId: page.id },
+    _max: { revisionNumber: true },
+  });
+
+  return client.pageRevision.create({
+    data: {
+      pageId: page.id,
+      revisionNumber: (latest._max.revisionNumber ?? 0) + 1,
+      title: page.title,
+      content: page.content,
+      pageType: page.pageType,
+      tags: page.tags,
+      createdById: userId,
+      restoredFromId,
+    },
+  });
+}
+
+/**
+ * List revisions of a page, newest first, without their content
+ */
+export async function getPageRevisions(pageId: string) {
+  return prisma.pageRevision.findMany({
+    where: { pageId },
+    select: {
+      id: true,
+      revisionNumber: true,
+      title: true,
+      pageType: true,
+      tags: true,
+      restoredFromId: true,
+      createdAt: true,
+      createdBy: { select: revisionAuthorSelect },
+    },
+    orderBy: { revisionNumber: 'desc' },
+  });
+}
+
+/**
+ * Get a single revision including its content
+ */
+export async function getPageRevision(pageId: string, revisionId: string) {
+  return prisma.pageRevision.findFirst({
+    where: { id: revisionId, pageId },
+    include: {
+      createdBy: { select: revisionAuthorSelect },
+    },
+  });
+}
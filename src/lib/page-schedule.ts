@@ -0,0 +1,241 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { CacheInvalidation } from '@/lib/cache';
+import { queueSearchWordsRefresh } from '@/lib/page-search';
+import {
+  ActivityLogger,
+  ActivityAction,
+  ResourceType,
+} from '@/lib/activity-logger';
+import {
+  notifyAcknowledgementReminder,
+  notifyPagePublished,
+  processNotificationBroadcasts,
+} from '@/lib/notification-utils';
+import { findCampaignsDueForReminder } from '@/lib/acknowledgements';
+import { sendNotificationEmails } from '@/lib/notification-email';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Where clause for pages readers can see right now. Page.published is kept
+ * up to date by the scheduler; the date checks cover the time between runs.
+ */
+export function getLivePageWhere(now = new Date()): Prisma.PageWhereInput {
+  return {
+    published: true,
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    ],
+  };
+}
+
+/**
+ * Make published pages whose publishAt has passed visible and send the
+ * announcement/warning notifications for them
+ */
+export async function publishScheduledPages(now = new Date()) {
+  const duePages = await prisma.page.findMany({
+    where: {
+      status: 'PUBLISHED',
+      published: false,
+      publishAt: { lte: now },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    select: { id: true, title: true, pageType: true, authorId: true },
+  });
+
+  const publishedIds: string[] = [];
+
+  for (const page of duePages) {
+    // Conditional update so a page is only claimed once across instances
+    const { count } = await prisma.page.updateMany({
+      where: { id: page.id, status: 'PUBLISHED', published: false },
+      data: { published: true },
+    });
+
+    if (count === 0) continue;
+    publishedIds.push(page.id);
+
+    await ActivityLogger.log({
+      userId: page.authorId,
+      action: ActivityAction.PAGE_STATUS_CHANGED,
+      resourceType: ResourceType.PAGE,
+      resourceId: page.id,
+      details: {
+        title: page.title,
+        pageType: page.pageType,
+        workflowAction: 'scheduled_publish',
+        fromStatus: 'PUBLISHED',
+        toStatus: 'PUBLISHED',
+      },
+    });
+
+    try {
+      await notifyPagePublished(page.id, page.authorId);
+    } catch (error) {
+      console.error('Error sending scheduled publish notifications:', error);
+      // Don't block the remaining pages if notifications fail
+    }
+  }
+
+  return publishedIds;
+}
+
+/**
+ * Archive published pages whose expiresAt has passed
+ */
+export async function archiveExpiredPages(now = new Date()) {
+  const expiredPages = await prisma.page.findMany({
+    where: {
+      status: 'PUBLISHED',
+      expiresAt: { lte: now },
+    },
+    select: { id: true, title: true, pageType: true, authorId: true },
+  });
+
+  const archivedIds: string[] = [];
+
+  for (const page of expiredPages) {
+    const { count } = await prisma.page.updateMany({
+      where: { id: page.id, status: 'PUBLISHED' },
+      data: { status: 'ARCHIVED', published: false },
+    });
+
+    if (count === 0) continue;
+    archivedIds.push(page.id);
+
+    await ActivityLogger.log({
+      userId: page.authorId,
+      action: ActivityAction.PAGE_STATUS_CHANGED,
+      resourceType: ResourceType.PAGE,
+      resourceId: page.id,
+      details: {
+        title: page.title,
+        pageType: page.pageType,
+        workflowAction: 'expire',
+        fromStatus: 'PUBLISHED',
+        toStatus: 'ARCHIVED',
+      },
+    });
+  }
+
+  return archivedIds;
+}
+
+/**
+ * Remind users who have not acknowledged a page yet when its deadline is
+ * close. Each campaign is reminded once.
+ */
+export async function sendAcknowledgementReminders(now = new Date()) {
+  const dueCampaigns = await findCampaignsDueForReminder(now);
+  let reminded = 0;
+
+  for (const campaign of dueCampaigns) {
+    // Conditional update so a campaign is only reminded once across instances
+    const { count } = await prisma.acknowledgementCampaign.updateMany({
+      where: { id: campaign.id, reminderSentAt: null },
+      data: { reminderSentAt: now },
+    });
+
+    if (count === 0) continue;
+
+    try {
+      await notifyAcknowledgementReminder(campaign.id);
+      reminded++;
+    } catch (error) {
+      console.error(
+        `Failed to send acknowledgement reminders for page ${campaign.pageId}:`,
+        error
+      );
+      // Release the claim so the next pass retries
+      await prisma.acknowledgementCampaign.updateMany({
+        where: { id: campaign.id, reminderSentAt: now },
+        data: { reminderSentAt: null },
+      });
+    }
+  }
+
+  return reminded;
+}
+
+/**
+ * Run one pass of the page scheduler
+ */
+export async function runPageSchedule(now = new Date()) {
+  const published = await publishScheduledPages(now);
+  const archived = await archiveExpiredPages(now);
+  const reminded = await sendAcknowledgementReminders(now);
+  const broadcasts = await processNotificationBroadcasts(now);
+  const emailed = await sendNotificationEmails(now);
+  const changed = [...published, ...archived];
+
+  if (changed.length > 0) {
+    changed.forEach((pageId) => CacheInvalidation.page(pageId));
+    CacheInvalidation.search();
+    CacheInvalidation.stats();
+    queueSearchWordsRefresh();
+    logger.info(
+      `Page scheduler: ${published.length} page(s) published, ${archived.length} page(s) archived`
+    );
+  }
+
+  if (reminded > 0) {
+    logger.info(
+      `Page scheduler: acknowledgement reminders sent for ${reminded} page(s)`
+    );
+  }
+
+  if (broadcasts > 0) {
+    logger.info(
+      `Page scheduler: ${broadcasts} notification broadcast(s) written`
+    );
+  }
+
+  if (emailed > 0) {
+    logger.info(`Page scheduler: ${emailed} notification email(s) sent`);
+  }
+
+  return {
+    published: published.length,
+    archived: archived.length,
+    reminded,
+    broadcasts,
+    emailed,
+  };
+}
+
+/**
+ * Start running the page scheduler periodically in this process.
+ * Disable with PAGE_SCHEDULER_ENABLED=false, e.g. on extra replicas.
+ */
+export function startPageScheduler() {
+  if (schedulerTimer || process.env.PAGE_SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+
+  const intervalMs =
+    Number(process.env.PAGE_SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const tick = async () => {
+    // Skip if the previous run is still going
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runPageSchedule();
+    } catch (error) {
+      console.error('Page scheduler run failed:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMs);
+  schedulerTimer.unref();
+  void tick();
+}
@@ -0,0 +1,439 @@
+/**
+ * PostgreSQL full-text search over pages.
+ * Matching and ranking use the weighted "searchVector" column
+ * (title > tags > content) kept up to date by a database trigger, with
+ * pg_trgm similarity on diacritic-folded text as a fallback for typos.
+ * Text extracted from attached documents counts towards the owning page.
+ */
+
+import { ContentType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// Created-date windows offered as filters and facets; "older" is past a year
+export const SEARCH_DATE_RANGES = ['7d', '30d', '1y', 'older'] as const;
+export type SearchDateRange = (typeof SEARCH_DATE_RANGES)[number];
+
+const DATE_RANGE_DAYS: Record<Exclude<SearchDateRange, 'older'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '1y': 365,
+};
+
+export interface PageSearchFilters {
+  query?: string;
+  pageType?: ContentType;
+  tags?: string[];
+  authorId?: string;
+  dateRange?: SearchDateRange;
+}
+
+interface PageSearchParams extends PageSearchFilters {
+  query: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  skip: number;
+  take: number;
+}
+
+export interface AttachmentSearchHit {
+  fileId: string;
+  originalName: string;
+  snippet: string;
+}
+
+export interface PageSearchHit {
+  id: string;
+  // HTML-escaped, with matched terms wrapped in <mark>
+  highlightedTitle: string;
+  snippet: string;
+  // Attachments of the page whose text matched, best match first
+  attachments: AttachmentSearchHit[];
+}
+
+// ts_rank weights for {D, C, B, A}: content is C, tags B, title A
+const RANK_WEIGHTS = '{0.1, 0.2, 0.4, 1.0}';
+
+// Attachment hits shown under each page result
+const MAX_ATTACHMENT_HITS = 3;
+
+// ts_headline marks matches with control characters that can't appear in
+// page text, so the rest of the text can be escaped before adding <mark>
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel="${MARK_START}", StopSel="${MARK_END}"`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel="${MARK_START}", StopSel="${MARK_END}", MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Turn ts_headline output into safe HTML where only <mark> is markup
+ */
+export function toHighlightHtml(headline: string): string {
+  return escapeHtml(headline)
+    .replaceAll(MARK_START, '<mark>')
+    .replaceAll(MARK_END, '</mark>');
+}
+
+const TURKISH_FOLD: Record<string, string> = {
+  İ: 'i',
+  I: 'i',
+  ı: 'i',
+  Ş: 's',
+  ş: 's',
+  Ğ: 'g',
+  ğ: 'g',
+  Ü: 'u',
+  ü: 'u',
+  Ö: 'o',
+  ö: 'o',
+  Ç: 'c',
+  ç: 'c',
+};
+
+// Words below this trigram similarity are not offered as "did you mean"
+const SUGGESTION_MIN_SIMILARITY = 0.3;
+
+/**
+ * Lowercase and fold Turkish letters to ASCII ("Gümrük" → "gumruk").
+ * Mirrors the turkish_fold() SQL function.
+ */
+export function foldTurkish(text: string): string {
+  return text
+    .replace(/[İIıŞşĞğÜüÖöÇç]/g, (char) => TURKISH_FOLD[char] ?? char)
+    .toLowerCase();
+}
+
+/**
+ * Split free text into lowercase search terms. Only letters and digits are
+ * kept, which keeps user input from being parsed as tsquery syntax.
+ */
+export function getSearchTerms(query: string): string[] {
+  return query
+    .toLocaleLowerCase('tr')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Turn free text into a prefix tsquery ("gümrük beyan" → "gümrük:* & beyan:*")
+ * so partially typed words still match
+ */
+export function buildPrefixTsQuery(query: string): string | null {
+  const terms = getSearchTerms(query);
+
+  if (terms.length === 0) return null;
+
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/**
+ * SQL for matching pages (aliased "p") against free text: a full-text match
+ * on the page or one of its attachments, or every term close to a word of
+ * the folded page text (pg_trgm word similarity) to catch missing
+ * diacritics and typos. Null when the text has no searchable terms.
+ */
+export function buildQueryMatch(query: string) {
+  const tsQueryText = buildPrefixTsQuery(query);
+  if (!tsQueryText) return null;
+
+  const tsQuery = Prisma.sql`to_tsquery('turkish', ${tsQueryText})`;
+  const searchText = Prisma.sql`page_search_text(p."title", p."tags", p."content")`;
+  const fuzzyMatch = Prisma.join(
+    getSearchTerms(query).map(
+      (term) => Prisma.sql`${foldTurkish(term)} <% ${searchText}`
+    ),
+    ' AND '
+  );
+  const attachmentRank = Prisma.sql`(
+    SELECT max(ts_rank(fc."searchVector", ${tsQuery}, 1))
+    FROM "files" f
+    JOIN "file_contents" fc ON fc."fileId" = f."id"
+    WHERE f."pageId" = p."id"
+      AND f."scanStatus" <> 'INFECTED'
+      AND fc."searchVector" @@ ${tsQuery}
+  )`;
+
+  return {
+    tsQuery,
+    searchText,
+    attachmentRank,
+    match: Prisma.sql`(p."searchVector" @@ ${tsQuery} OR ${attachmentRank} IS NOT NULL OR (${fuzzyMatch}))`,
+  };
+}
+
+/**
+ * createdAt bounds for a date range filter
+ */
+export function getDateRangeBounds(
+  range: SearchDateRange,
+  now = new Date()
+): { gte?: Date; lt?: Date } {
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  return range === 'older'
+    ? { lt: daysAgo(DATE_RANGE_DAYS['1y']) }
+    : { gte: daysAgo(DATE_RANGE_DAYS[range]) };
+}
+
+/**
+ * WHERE conditions (pages aliased "p") for live pages matching the filters.
+ * `match` is the free-text condition from buildQueryMatch(), if any; facets
+ * leave out their own filter through `exclude`.
+ */
+export function buildSearchConditions(
+  filters: PageSearchFilters,
+  match: Prisma.Sql | null,
+  exclude?: 'pageType' | 'tags' | 'authorId' | 'dateRange'
+): Prisma.Sql[] {
+  const { pageType, tags, authorId, dateRange } = filters;
+  const now = new Date();
+
+  // Same visibility rules as getLivePageWhere()
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`p."published" = true`,
+    Prisma.sql`(p."publishAt" IS NULL OR p."publishAt" <= ${now})`,
+    Prisma.sql`(p."expiresAt" IS NULL OR p."expiresAt" > ${now})`,
+  ];
+
+  if (match) {
+    conditions.push(match);
+  }
+
+  if (pageType && exclude !== 'pageType') {
+    conditions.push(Prisma.sql`p."pageType" = ${pageType}::"ContentType"`);
+  }
+
+  if (tags && tags.length > 0 && exclude !== 'tags') {
+    conditions.push(Prisma.sql`p."tags" && ${tags}::text[]`);
+  }
+
+  if (authorId && exclude !== 'authorId') {
+    conditions.push(Prisma.sql`p."authorId" = ${authorId}`);
+  }
+
+  if (dateRange && exclude !== 'dateRange') {
+    const { gte, lt } = getDateRangeBounds(dateRange, now);
+    if (gte) conditions.push(Prisma.sql`p."createdAt" >= ${gte}`);
+    if (lt) conditions.push(Prisma.sql`p."createdAt" < ${lt}`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Whether a single page matches the free text the same way /api/search
+ * would match it. Text without searchable terms matches every page.
+ */
+export async function pageMatchesQuery(
+  pageId: string,
+  query: string
+): Promise<boolean> {
+  const queryMatch = buildQueryMatch(query);
+  if (!queryMatch) return true;
+
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT p."id"
+    FROM "pages" p
+    WHERE p."id" = ${pageId} AND ${queryMatch.match}
+  `;
+
+  return rows.length > 0;
+}
+
+/**
+ * Attachments of the given pages whose extracted text matches the query,
+ * with a highlighted snippet, grouped by page id
+ */
+async function findAttachmentHits(pageIds: string[], tsQuery: Prisma.Sql) {
+  const hitsByPage = new Map<string, AttachmentSearchHit[]>();
+  if (pageIds.length === 0) return hitsByPage;
+
+  const rows = await prisma.$queryRaw<
+    (AttachmentSearchHit & { pageId: string })[]
+  >`
+    WITH matches AS (
+      SELECT
+        f."id",
+        f."pageId",
+        f."originalName",
+        row_number() OVER (
+          PARTITION BY f."pageId"
+          ORDER BY ts_rank(fc."searchVector", ${tsQuery}, 1) DESC
+        ) AS "order"
+      FROM "files" f
+      JOIN "file_contents" fc ON fc."fileId" = f."id"
+      WHERE f."pageId" IN (${Prisma.join(pageIds)})
+        AND f."scanStatus" <> 'INFECTED'
+        AND fc."searchVector" @@ ${tsQuery}
+    )
+    SELECT
+      m."id" AS "fileId",
+      m."pageId",
+      m."originalName",
+      ts_headline('turkish', fc."content", ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet"
+    FROM matches m
+    JOIN "file_contents" fc ON fc."fileId" = m."id"
+    WHERE m."order" <= ${MAX_ATTACHMENT_HITS}
+    ORDER BY m."pageId", m."order"
+  `;
+
+  for (const { pageId, ...hit } of rows) {
+    const hits = hitsByPage.get(pageId) ?? [];
+    hits.push({ ...hit, snippet: toHighlightHtml(hit.snippet) });
+    hitsByPage.set(pageId, hits);
+  }
+
+  return hitsByPage;
+}
+
+/**
+ * Find the live pages matching the query, ordered by relevance (or
+ * date/title) and paginated, together with the total match count. Each hit
+ * carries the highlighted title and a snippet around the best match.
+ */
+export async function searchPages({
+  sortBy = 'relevance',
+  sortOrder = 'desc',
+  skip,
+  take,
+  ...filters
+}: PageSearchParams): Promise<{ hits: PageSearchHit[]; total: number }> {
+  const { query } = filters;
+  const queryMatch = buildQueryMatch(query);
+
+  if (!queryMatch) {
+    return { hits: [], total: 0 };
+  }
+
+  const { tsQuery, searchText, attachmentRank, match } = queryMatch;
+  const conditions = buildSearchConditions(filters, match);
+
+  const where = Prisma.join(conditions, ' AND ');
+  const direction = sortOrder === 'asc' ? Prisma.sql`ASC` : Prisma.sql`DESC`;
+
+  let orderBy: Prisma.Sql;
+  switch (sortBy) {
+    case 'date':
+      orderBy = Prisma.sql`p."createdAt" ${direction}`;
+      break;
+    case 'title':
+      orderBy = Prisma.sql`p."title" ${direction}`;
+      break;
+    case 'relevance':
+    default:
+      // Normalization 1 divides by document length so long procedures
+      // don't outrank short pages just by repeating a word. Fuzzy-only
+      // matches have no rank and sort by closeness after the others.
+      orderBy = Prisma.sql`GREATEST(
+          ts_rank(${RANK_WEIGHTS}::float4[], p."searchVector", ${tsQuery}, 1),
+          coalesce(${attachmentRank}, 0)
+        ) DESC,
+        word_similarity(${foldTurkish(query)}, ${searchText}) DESC, p."createdAt" DESC`;
+      break;
+  }
+
+  // Headlines are expensive, so they are only built for the current page
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<Omit<PageSearchHit, 'attachments'>[]>`
+      WITH ranked AS (
+        SELECT p."id", row_number() OVER (ORDER BY ${orderBy}) AS "order"
+        FROM "pages" p
+        WHERE ${where}
+        ORDER BY ${orderBy}
+        LIMIT ${take} OFFSET ${skip}
+      )
+      SELECT
+        p."id",
+        ts_headline('turkish', p."title", ${tsQuery}, ${TITLE_HEADLINE_OPTIONS}) AS "highlightedTitle",
+        ts_headline('turkish', page_plain_text(p."content"), ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet"
+      FROM ranked
+      JOIN "pages" p ON p."id" = ranked."id"
+      ORDER BY ranked."order"
+    `,
+    prisma.$queryRaw<{ count: number }[]>`
+      SELECT COUNT(*)::int AS "count"
+      FROM "pages" p
+      WHERE ${where}
+    `,
+  ]);
+
+  const attachments = await findAttachmentHits(
+    rows.map((row) => row.id),
+    tsQuery
+  );
+
+  return {
+    hits: rows.map((row) => ({
+      id: row.id,
+      highlightedTitle: toHighlightHtml(row.highlightedTitle),
+      snippet: toHighlightHtml(row.snippet),
+      attachments: attachments.get(row.id) ?? [],
+    })),
+    total: countRows[0]?.count ?? 0,
+  };
+}
+
+/**
+ * Rebuild the word list used for "did you mean" suggestions. Should be called
+ * whenever the content of live pages changes.
+ */
+export async function refreshSearchWords() {
+  await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY "page_search_words"`;
+}
+
+/**
+ * Rebuild the suggestion word list in the background
+ */
+export function queueSearchWordsRefresh() {
+  refreshSearchWords().catch((error) =>
+    console.error('Failed to refresh search words:', error)
+  );
+}
+
+/**
+ * "Did you mean" for a query without results: each term is replaced by the
+ * closest word found in live pages, ignoring diacritics. Returns null when
+ * there is nothing better to offer.
+ */
+export async function getSearchSuggestion(
+  query: string
+): Promise<string | null> {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return null;
+
+  const suggested: string[] = [];
+
+  // A missing suggestion must never fail the search itself
+  try {
+    for (const term of terms) {
+      const folded = foldTurkish(term);
+      // % narrows down candidates through the trigram index
+      const rows = await prisma.$queryRaw<{ word: string }[]>`
+        SELECT word
+        FROM "page_search_words"
+        WHERE "folded" % ${folded}
+          AND similarity("folded", ${folded}) >= ${SUGGESTION_MIN_SIMILARITY}
+        ORDER BY "folded" = ${folded} DESC,
+          similarity("folded", ${folded}) DESC,
+          nentry DESC
+        LIMIT 1
+      `;
+
+      suggested.push(rows[0]?.word ?? term);
+    }
+  } catch (error) {
+    console.error('Failed to look up search suggestion:', error);
+    return null;
+  }
+
+  const suggestion = suggested.join(' ');
+  return suggestion === terms.join(' ') ? null : suggestion;
+}
@@ -0,0 +1,221 @@
+// Client-safe page lifecycle rules shared by the API and the UI
+import type { ContentType, PageStatus, UserRole } from '@prisma/client';
+
+export type WorkflowAction =
+  | 'submit'
+  | 'withdraw'
+  | 'approve'
+  | 'reject'
+  | 'publish'
+  | 'archive'
+  | 'reopen';
+
+export const PAGE_STATUS_LABELS: Record<PageStatus, string> = {
+  DRAFT: 'Taslak',
+  IN_REVIEW: 'İncelemede',
+  PUBLISHED: 'Yayında',
+  ARCHIVED: 'Arşivlendi',
+};
+
+export const PAGE_STATUS_COLORS = {
+  DRAFT: 'gray',
+  IN_REVIEW: 'yellow',
+  PUBLISHED: 'green',
+  ARCHIVED: 'red',
+} as const satisfies Record<PageStatus, string>;
+
+export const WORKFLOW_ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit: 'İncelemeye Gönder',
+  withdraw: 'İncelemeden Geri Çek',
+  approve: 'Onayla ve Yayınla',
+  reject: 'Reddet',
+  publish: 'Yayınla',
+  archive: 'Arşivle',
+  reopen: 'Taslağa Al',
+};
+
+// Shown instead of the status label while a published page waits for publishAt
+export const SCHEDULED_LABEL = 'Zamanlandı';
+
+// Page types that must be approved by a reviewer before going live
+export const REVIEW_REQUIRED_TYPES: ContentType[] = ['WARNING', 'PROCEDURE'];
+
+const TRANSITIONS: Record<
+  WorkflowAction,
+  { from: PageStatus[]; to: PageStatus }
+> = {
+  submit: { from: ['DRAFT'], to: 'IN_REVIEW' },
+  withdraw: { from: ['IN_REVIEW'], to: 'DRAFT' },
+  approve: { from: ['IN_REVIEW'], to: 'PUBLISHED' },
+  reject: { from: ['IN_REVIEW'], to: 'DRAFT' },
+  publish: { from: ['DRAFT', 'ARCHIVED'], to: 'PUBLISHED' },
+  archive: { from: ['PUBLISHED'], to: 'ARCHIVED' },
+  reopen: { from: ['ARCHIVED'], to: 'DRAFT' },
+};
+
+const EDITOR_ROLES: UserRole[] = ['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'];
+const REVIEWER_ROLES: UserRole[] = ['ADMIN', 'SYSTEM_ADMIN'];
+
+interface WorkflowPage {
+  status: PageStatus;
+  pageType: ContentType;
+  authorId: string;
+}
+
+interface WorkflowUser {
+  id: string;
+  role: UserRole;
+}
+
+export function requiresReview(pageType: ContentType): boolean {
+  return REVIEW_REQUIRED_TYPES.includes(pageType);
+}
+
+export function isReviewer(role: UserRole): boolean {
+  return REVIEWER_ROLES.includes(role);
+}
+
+export function getNextStatus(action: WorkflowAction): PageStatus {
+  return TRANSITIONS[action].to;
+}
+
+/**
+ * Check whether the action is a valid transition from the page's status
+ */
+export function isValidTransition(
+  action: WorkflowAction,
+  page: WorkflowPage
+): boolean {
+  if (!TRANSITIONS[action].from.includes(page.status)) {
+    return false;
+  }
+
+  // Reviewed types can only go live through approval
+  if (action === 'publish' && requiresReview(page.pageType)) {
+    return false;
+  }
+
+  // Reviews only make sense for types that need one
+  if (action === 'submit' && !requiresReview(page.pageType)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check whether the user is allowed to perform the action on the page
+ */
+export function canPerformWorkflowAction(
+  action: WorkflowAction,
+  page: WorkflowPage,
+  user: WorkflowUser
+): boolean {
+  if (action === 'approve' || action === 'reject') {
+    return isReviewer(user.role);
+  }
+
+  return page.authorId === user.id || EDITOR_ROLES.includes(user.role);
+}
+
+interface PageContent {
+  title: string;
+  content: string | null;
+  pageType: ContentType;
+  tags: string[];
+}
+
+/**
+ * Check whether saving the changes sends a live page back to review. Live
+ * pages of reviewed types must not show readers unapproved content, so any
+ * change to it needs a new approval. Fields missing from changes are kept.
+ */
+export function requiresResubmission(
+  page: PageContent & { status: PageStatus },
+  changes: Partial<PageContent>
+): boolean {
+  const pageType = changes.pageType ?? page.pageType;
+  const contentChanged =
+    (!!changes.title && changes.title !== page.title) ||
+    (changes.content !== undefined && changes.content !== page.content) ||
+    pageType !== page.pageType ||
+    (!!changes.tags && changes.tags.join('\n') !== page.tags.join('\n'));
+
+  return (
+    page.status === 'PUBLISHED' && requiresReview(pageType) && contentChanged
+  );
+}
+
+/**
+ * List the workflow actions available to the user for the page
+ */
+export function getAvailableWorkflowActions(
+  page: WorkflowPage,
+  user: WorkflowUser
+): WorkflowAction[] {
+  return (Object.keys(TRANSITIONS) as WorkflowAction[]).filter(
+    (action) =>
+      isValidTransition(action, page) &&
+      canPerformWorkflowAction(action, page, user)
+  );
+}
+
+/**
+ * Resolve the status a newly created page starts in
+ */
+export function getInitialStatus(
+  pageType: ContentType,
+  requested?: PageStatus
+): PageStatus {
+  if (requiresReview(pageType)) {
+    return requested === 'IN_REVIEW' ? 'IN_REVIEW' : 'DRAFT';
+  }
+
+  return requested === 'DRAFT' ? 'DRAFT' : 'PUBLISHED';
+}
+
+interface SchedulablePage {
+  status: PageStatus;
+  publishAt?: Date | string | null;
+  expiresAt?: Date | string | null;
+}
+
+/**
+ * Check whether a published page is still waiting for its publishAt time
+ */
+export function isScheduled(page: SchedulablePage, now = new Date()): boolean {
+  return (
+    page.status === 'PUBLISHED' &&
+    !!page.publishAt &&
+    new Date(page.publishAt) > now
+  );
+}
+
+/**
+ * Check whether the page has passed its expiresAt time
+ */
+export function isExpired(page: SchedulablePage, now = new Date()): boolean {
+  return !!page.expiresAt && new Date(page.expiresAt) <= now;
+}
+
+/**
+ * Check that the page does not expire before it is published
+ */
+export function isValidSchedule(
+  publishAt?: Date | string | null,
+  expiresAt?: Date | string | null
+): boolean {
+  return !publishAt || !expiresAt || new Date(expiresAt) > new Date(publishAt);
+}
+
+/**
+ * Check whether the page is visible to readers right now. This is the value
+ * stored in Page.published.
+ */
+export function isPageLive(page: SchedulablePage, now = new Date()): boolean {
+  return (
+    page.status === 'PUBLISHED' &&
+    !isScheduled(page, now) &&
+    !isExpired(page, now)
+  );
+}
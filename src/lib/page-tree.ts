@@ -0,0 +1,312 @@
+import { Prisma, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CacheInvalidation } from '@/lib/cache';
+import {
+  ActivityLogger,
+  ActivityAction,
+  ResourceType,
+} from '@/lib/activity-logger';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { PageAncestor, PageTreeNode } from '@/types';
+
+// Deep enough for handbook → section → procedure style nesting
+export const MAX_PAGE_DEPTH = 8;
+
+const EDITOR_ROLES: UserRole[] = ['EDITOR', 'ADMIN', 'SYSTEM_ADMIN'];
+
+const treeNodeSelect = {
+  id: true,
+  title: true,
+  pageType: true,
+  status: true,
+  published: true,
+  parentId: true,
+  position: true,
+} satisfies Prisma.PageSelect;
+
+type PageTreeRow = Omit<PageTreeNode, 'children'>;
+
+interface MovePageRequest {
+  pageId: string;
+  parentId: string | null;
+  position: number;
+  user: { id: string; role: UserRole };
+}
+
+/**
+ * Nest a flat page list by parentId. Pages whose parent is not in the list
+ * (e.g. filtered out drafts) are shown at the root.
+ */
+export function buildPageTree(pages: PageTreeRow[]): PageTreeNode[] {
+  const nodes = new Map<string, PageTreeNode>(
+    pages.map((page) => [page.id, { ...page, children: [] }])
+  );
+  const roots: PageTreeNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sortNodes = (list: PageTreeNode[]) => {
+    list.sort(
+      (a, b) => a.position - b.position || a.title.localeCompare(b.title, 'tr')
+    );
+    list.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
+
+/**
+ * Load the page tree for the pages matching the filter
+ */
+export async function getPageTree(where: Prisma.PageWhereInput = {}) {
+  const pages = await prisma.page.findMany({
+    where,
+    select: treeNodeSelect,
+  });
+
+  return buildPageTree(pages);
+}
+
+/**
+ * Ancestors of a page from the root down, starting at the page's parent
+ */
+export async function getPageAncestors(
+  parentId: string | null
+): Promise<PageAncestor[]> {
+  const ancestors: PageAncestor[] = [];
+  let currentId = parentId;
+
+  while (currentId && ancestors.length < MAX_PAGE_DEPTH) {
+    const parent = await prisma.page.findUnique({
+      where: { id: currentId },
+      select: { id: true, title: true, published: true, parentId: true },
+    });
+
+    if (!parent) break;
+
+    ancestors.unshift({
+      id: parent.id,
+      title: parent.title,
+      published: parent.published,
+    });
+    currentId = parent.parentId;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Check that a new page can be created under the given parent
+ */
+export async function validateNewPageParent(parentId: string) {
+  const parent = await prisma.page.findUnique({
+    where: { id: parentId },
+    select: { id: true, parentId: true },
+  });
+
+  if (!parent) {
+    throw new NotFoundError('Parent page not found');
+  }
+
+  const ancestors = await getPageAncestors(parent.parentId);
+  if (ancestors.length + 2 > MAX_PAGE_DEPTH) {
+    throw new ValidationError(
+      `Pages cannot be nested more than ${MAX_PAGE_DEPTH} levels deep`
+    );
+  }
+}
+
+/**
+ * Position for a page appended to the end of the parent's children
+ */
+export async function getNextChildPosition(
+  client: Prisma.TransactionClient | typeof prisma,
+  parentId: string | null
+) {
+  const { _max } = await client.page.aggregate({
+    where: { parentId },
+    _max: { position: true },
+  });
+
+  return (_max.position ?? -1) + 1;
+}
+
+/**
+ * Hand a page's subpages over to its own parent, e.g. before deleting it.
+ * They keep their order and are appended after the existing siblings.
+ */
+export async function promoteChildPages(
+  client: Prisma.TransactionClient,
+  page: { id: string; parentId: string | null }
+) {
+  const children = await client.page.findMany({
+    where: { parentId: page.id },
+    select: { id: true },
+    orderBy: [{ position: 'asc' }, { title: 'asc' }],
+  });
+
+  let position = await getNextChildPosition(client, page.parentId);
+  for (const child of children) {
+    await client.page.update({
+      where: { id: child.id },
+      data: { parentId: page.parentId, position: position++ },
+    });
+  }
+}
+
+/**
+ * Check that moving the page under the parent creates neither a cycle nor a
+ * hierarchy deeper than MAX_PAGE_DEPTH
+ */
+function validateMove(
+  allPages: { id: string; parentId: string | null }[],
+  pageId: string,
+  parentId: string | null
+) {
+  const parentById = new Map(allPages.map((p) => [p.id, p.parentId]));
+
+  if (parentId) {
+    if (!parentById.has(parentId)) {
+      throw new NotFoundError('Parent page not found');
+    }
+
+    // Walk up from the new parent; reaching the page itself means a cycle
+    let currentId: string | null = parentId;
+    while (currentId) {
+      if (currentId === pageId) {
+        throw new ValidationError(
+          'A page cannot be moved under itself or one of its subpages'
+        );
+      }
+      currentId = parentById.get(currentId) ?? null;
+    }
+  }
+
+  const getDepth = (id: string | null) => {
+    let depth = 0;
+    for (let current = id; current; current = parentById.get(current) ?? null) {
+      depth++;
+    }
+    return depth;
+  };
+
+  const getSubtreeHeight = (id: string): number => {
+    const childHeights = allPages
+      .filter((p) => p.parentId === id)
+      .map((child) => getSubtreeHeight(child.id));
+    return 1 + Math.max(0, ...childHeights);
+  };
+
+  if (getDepth(parentId) + getSubtreeHeight(pageId) > MAX_PAGE_DEPTH) {
+    throw new ValidationError(
+      `Pages cannot be nested more than ${MAX_PAGE_DEPTH} levels deep`
+    );
+  }
+}
+
+/**
+ * Move a page under a new parent (or to the root) at the given position
+ * among its siblings. Moving a page under itself or one of its own subpages
+ * is rejected.
+ */
+export async function movePage({
+  pageId,
+  parentId,
+  position,
+  user,
+}: MovePageRequest) {
+  const page = await prisma.page.findUnique({
+    where: { id: pageId },
+    select: { id: true, title: true, parentId: true, authorId: true },
+  });
+
+  if (!page) {
+    throw new NotFoundError('Page not found');
+  }
+
+  if (page.authorId !== user.id && !EDITOR_ROLES.includes(user.role)) {
+    throw new AuthorizationError('You do not have permission to move this page.');
+  }
+
+  let movedPage;
+  try {
+    // Serializable so that concurrent moves cannot both pass the checks
+    // against the old hierarchy, e.g. A under B and B under A
+    movedPage = await prisma.$transaction(
+      async (tx) => {
+        // The whole hierarchy is small, so cycle and depth checks run in memory
+        const allPages = await tx.page.findMany({
+          select: { id: true, parentId: true },
+        });
+        validateMove(allPages, pageId, parentId);
+
+        const siblings = await tx.page.findMany({
+          where: { parentId, id: { not: pageId } },
+          select: { id: true, position: true },
+          orderBy: [{ position: 'asc' }, { title: 'asc' }],
+        });
+
+        const index = Math.min(position, siblings.length);
+        const ordered = [
+          ...siblings.slice(0, index).map((s) => s.id),
+          pageId,
+          ...siblings.slice(index).map((s) => s.id),
+        ];
+
+        // Renumber the new sibling list so positions stay contiguous
+        for (const [newPosition, id] of ordered.entries()) {
+          const sibling = siblings.find((s) => s.id === id);
+          if (!sibling || sibling.position === newPosition) continue;
+          await tx.page.update({
+            where: { id },
+            data: { position: newPosition },
+          });
+        }
+
+        return tx.page.update({
+          where: { id: pageId },
+          data: { parentId, position: index },
+          select: treeNodeSelect,
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2034'
+    ) {
+      throw new ConflictError(
+        'The page tree was changed in the meantime. Reload the page and try again.'
+      );
+    }
+    throw error;
+  }
+
+  CacheInvalidation.page(pageId);
+  CacheInvalidation.search();
+
+  await ActivityLogger.log({
+    userId: user.id,
+    action: ActivityAction.PAGE_MOVED,
+    resourceType: ResourceType.PAGE,
+    resourceId: pageId,
+    details: {
+      title: page.title,
+      fromParentId: page.parentId,
+      toParentId: parentId,
+      position: movedPage.position,
+    },
+  });
+
+  return movedPage;
+}
@@ -0,0 +1,166 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CacheInvalidation } from '@/lib/cache';
+import { queueSearchWordsRefresh } from '@/lib/page-search';
+import {
+  ActivityLogger,
+  ActivityAction,
+  ResourceType,
+} from '@/lib/activity-logger';
+import {
+  notifyPagePublished,
+  notifyReviewDecision,
+  notifyReviewRequested,
+} from '@/lib/notification-utils';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import {
+  WorkflowAction,
+  canPerformWorkflowAction,
+  getNextStatus,
+  isExpired,
+  isPageLive,
+  isValidTransition,
+  PAGE_STATUS_LABELS,
+} from '@/lib/page-status';
+
+interface TransitionRequest {
+  pageId: string;
+  action: WorkflowAction;
+  user: { id: string; role: UserRole };
+  comment?: string;
+}
+
+/**
+ * Move a page through its lifecycle (draft → review → published → archived).
+ * Announcement/warning notifications are only sent when the page actually
+ * becomes PUBLISHED; for scheduled pages the page scheduler sends them.
+ */
+export async function transitionPageStatus({
+  pageId,
+  action,
+  user,
+  comment,
+}: TransitionRequest) {
+  const page = await prisma.page.findUnique({
+    where: { id: pageId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      published: true,
+      pageType: true,
+      authorId: true,
+      publishAt: true,
+      expiresAt: true,
+    },
+  });
+
+  if (!page) {
+    throw new NotFoundError('Page not found');
+  }
+
+  if (!canPerformWorkflowAction(action, page, user)) {
+    throw new AuthorizationError(
+      'You do not have permission to change the status of this page.'
+    );
+  }
+
+  if (!isValidTransition(action, page)) {
+    throw new ValidationError(
+      `Action "${action}" is not allowed while the page is ${PAGE_STATUS_LABELS[page.status]}`
+    );
+  }
+
+  const isReviewDecision = action === 'approve' || action === 'reject';
+
+  if (action === 'reject' && !comment?.trim()) {
+    throw new ValidationError('A comment is required when rejecting a page');
+  }
+
+  const nextStatus = getNextStatus(action);
+
+  if (nextStatus === 'PUBLISHED' && isExpired(page)) {
+    throw new ValidationError(
+      'The page has already expired. Update its expiry date before publishing.'
+    );
+  }
+
+  // Only applies while the page still has the status checked above, so
+  // concurrent decisions on the same page cannot both go through
+  const { count } = await prisma.page.updateMany({
+    where: { id: pageId, status: page.status },
+    data: {
+      status: nextStatus,
+      // Stays hidden until publishAt when the page is scheduled
+      published: isPageLive({ ...page, status: nextStatus }),
+      ...(isReviewDecision && {
+        reviewedById: user.id,
+        reviewedAt: new Date(),
+        reviewComment: comment?.trim() || null,
+      }),
+      // A fresh submission clears the previous review outcome
+      ...(action === 'submit' && {
+        reviewedById: null,
+        reviewedAt: null,
+        reviewComment: null,
+      }),
+    },
+  });
+
+  if (count === 0) {
+    throw new ConflictError(
+      'The page status was changed in the meantime. Reload the page and try again.'
+    );
+  }
+
+  const updatedPage = await prisma.page.findUniqueOrThrow({
+    where: { id: pageId },
+  });
+
+  CacheInvalidation.page(pageId);
+  CacheInvalidation.search();
+  CacheInvalidation.stats();
+
+  if (page.published !== updatedPage.published) {
+    queueSearchWordsRefresh();
+  }
+
+  await ActivityLogger.log({
+    userId: user.id,
+    action: ActivityAction.PAGE_STATUS_CHANGED,
+    resourceType: ResourceType.PAGE,
+    resourceId: pageId,
+    details: {
+      title: page.title,
+      pageType: page.pageType,
+      workflowAction: action,
+      fromStatus: page.status,
+      toStatus: nextStatus,
+      ...(comment && { comment }),
+    },
+  });
+
+  try {
+    if (action === 'submit') {
+      await notifyReviewRequested(pageId, user.id);
+    }
+
+    if (isReviewDecision) {
+      await notifyReviewDecision(pageId, user.id, action === 'approve');
+    }
+
+    if (nextStatus === 'PUBLISHED') {
+      await notifyPagePublished(pageId, page.authorId);
+    }
+  } catch (error) {
+    console.error('Error sending workflow notifications:', error);
+    // Don't fail the transition if notifications fail
+  }
+
+  return updatedPage;
+}
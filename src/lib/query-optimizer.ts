@@ -14,6 +14,14 @@ import {
   userCache,
 } from '@/lib/cache';
 import { timedQuery } from '@/lib/performance-monitor';
+import { getLivePageWhere } from '@/lib/page-schedule';
+import {
+  SearchDateRange,
+  getDateRangeBounds,
+  getSearchSuggestion,
+  searchPages,
+} from '@/lib/page-search';
+import { getSearchFacets } from '@/lib/search-facets';
 
 /**
  * Optimized page queries with caching
@@ -51,22 +59,6 @@ export class PageQueries {
                   },
                   orderBy: { createdAt: 'desc' },
                 },
-                comments: {
-                  select: {
-                    id: true,
-                    comment: true,
-                    createdAt: true,
-                    user: {
-                      select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                      },
-                    },
-                  },
-                  orderBy: { createdAt: 'desc' },
-                  take: 10, // Limit initial comments load
-                },
                 _count: {
                   select: {
                     comments: true,
@@ -113,7 +105,7 @@ export class PageQueries {
         } = params;
 
         // Build optimized where clause
-        const where: Prisma.PageWhereInput = { published: true };
+        const where: Prisma.PageWhereInput = getLivePageWhere();
 
         if (query) {
           where.OR = [
@@ -267,13 +259,14 @@ export class PageQueries {
  */
 export class SearchQueries {
   /**
-   * Enhanced search with relevance scoring
+   * Search live pages, ranked by full-text relevance when a query is given
    */
   static async search(params: {
     query?: string;
     pageType?: ContentType;
     tags?: string[];
     authorId?: string;
+    dateRange?: SearchDateRange;
     page?: number;
     limit?: number;
     sortBy?: string;
@@ -289,96 +282,117 @@ export class SearchQueries {
           pageType,
           tags,
           authorId,
+          dateRange,
           page = 1,
           limit = 10,
           sortBy = 'relevance',
           sortOrder = 'desc',
         } = params;
 
-        const where: Prisma.PageWhereInput = { published: true };
+        const skip = (page - 1) * limit;
+        const include = {
+          author: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            },
+          },
+          _count: {
+            select: {
+              comments: true,
+              files: true,
+            },
+          },
+        } satisfies Prisma.PageInclude;
+
+        let pages;
+        let total: number;
+        let suggestion: string | null = null;
+
+        if (query?.trim()) {
+          // Full-text search picks and orders the pages, Prisma loads the rows
+          const ranked = await searchPages({
+            query,
+            pageType,
+            tags,
+            authorId,
+            dateRange,
+            sortBy,
+            sortOrder,
+            skip,
+            take: limit,
+          });
+          const rows = await prisma.page.findMany({
+            where: { id: { in: ranked.hits.map((hit) => hit.id) } },
+            include,
+          });
+          const rowById = new Map(rows.map((row) => [row.id, row]));
+
+          pages = ranked.hits.flatMap((hit) => {
+            const row = rowById.get(hit.id);
+            return row
+              ? [
+                  {
+                    ...row,
+                    highlightedTitle: hit.highlightedTitle,
+                    snippet: hit.snippet,
+                    attachmentHits: hit.attachments,
+                  },
+                ]
+              : [];
+          });
+          total = ranked.total;
 
-        // Enhanced search logic
-        if (query) {
-          const searchTerms = query.trim().split(' ').filter(Boolean);
+          if (total === 0) {
+            suggestion = await getSearchSuggestion(query);
+          }
+        } else {
+          const where: Prisma.PageWhereInput = getLivePageWhere();
 
-          where.OR = [
-            // Exact title match (highest priority)
-            { title: { contains: query, mode: 'insensitive' as const } },
-            // Content match
-            { content: { contains: query, mode: 'insensitive' as const } },
-            // Tag match
-            { tags: { hasSome: [query] } },
-            // Multiple term search
-            ...searchTerms.map((term) => ({
-              OR: [
-                { title: { contains: term, mode: 'insensitive' as const } },
-                { content: { contains: term, mode: 'insensitive' as const } },
-                { tags: { hasSome: [term] } },
-              ],
-            })),
-          ];
-        }
+          if (pageType) {
+            where.pageType = pageType;
+          }
 
-        if (pageType) {
-          where.pageType = pageType;
-        }
+          if (tags && tags.length > 0) {
+            where.tags = { hasSome: tags };
+          }
 
-        if (tags && tags.length > 0) {
-          where.tags = { hasSome: tags };
-        }
+          if (authorId) {
+            where.authorId = authorId;
+          }
 
-        if (authorId) {
-          where.authorId = authorId;
-        }
+          if (dateRange) {
+            where.createdAt = getDateRangeBounds(dateRange);
+          }
 
-        const skip = (page - 1) * limit;
-
-        // Determine sort order
-        let orderBy: Prisma.PageOrderByWithRelationInput = {
-          createdAt: 'desc',
-        };
+          // Without a query there is nothing to rank, so relevance is newest first
+          let orderBy: Prisma.PageOrderByWithRelationInput = {
+            createdAt: 'desc',
+          };
 
-        switch (sortBy) {
-          case 'date':
-            orderBy = { createdAt: sortOrder };
-            break;
-          case 'title':
-            orderBy = { title: sortOrder };
-            break;
-          case 'relevance':
-          default:
-            // For relevance, prioritize by creation date for now
-            // In production, you might want to implement proper relevance scoring
-            orderBy = { createdAt: 'desc' };
-            break;
+          switch (sortBy) {
+            case 'date':
+              orderBy = { createdAt: sortOrder };
+              break;
+            case 'title':
+              orderBy = { title: sortOrder };
+              break;
+          }
+
+          [pages, total] = await Promise.all([
+            prisma.page.findMany({
+              where,
+              include,
+              orderBy,
+              skip,
+              take: limit,
+            }),
+            prisma.page.count({ where }),
+          ]);
         }
 
-        const [pages, total] = await Promise.all([
-          prisma.page.findMany({
-            where,
-            include: {
-              author: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
-                  role: true,
-                },
-              },
-              _count: {
-                select: {
-                  comments: true,
-                  files: true,
-                },
-              },
-            },
-            orderBy,
-            skip,
-            take: limit,
-          }),
-          prisma.page.count({ where }),
-        ]);
-
         return {
           pages,
           pagination: {
@@ -387,6 +401,14 @@ export class SearchQueries {
             total,
             totalPages: Math.ceil(total / limit),
           },
+          suggestion,
+          facets: await getSearchFacets({
+            query,
+            pageType,
+            tags,
+            authorId,
+            dateRange,
+          }),
         };
       },
       searchCache,
@@ -0,0 +1,55 @@
+import { prisma } from '@/lib/prisma';
+import { pageMatchesQuery } from '@/lib/page-search';
+
+/**
+ * Saved searches with alerts enabled that match a live page, at most one per
+ * user. The page's author is not alerted about their own page.
+ */
+export async function findSavedSearchesMatchingPage(pageId: string) {
+  const page = await prisma.page.findUnique({
+    where: { id: pageId },
+    select: {
+      id: true,
+      pageType: true,
+      tags: true,
+      authorId: true,
+      published: true,
+    },
+  });
+
+  if (!page?.published) {
+    return [];
+  }
+
+  // Structured filters are checked in the query, free text per candidate
+  const candidates = await prisma.savedSearch.findMany({
+    where: {
+      notify: true,
+      userId: { not: page.authorId },
+      AND: [
+        { OR: [{ pageType: null }, { pageType: page.pageType }] },
+        { OR: [{ authorId: null }, { authorId: page.authorId }] },
+        {
+          OR: [{ tags: { isEmpty: true } }, { tags: { hasSome: page.tags } }],
+        },
+      ],
+    },
+    select: { id: true, name: true, userId: true, query: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const matches: typeof candidates = [];
+  const matchedUserIds = new Set<string>();
+
+  for (const search of candidates) {
+    if (matchedUserIds.has(search.userId)) continue;
+    if (search.query && !(await pageMatchesQuery(page.id, search.query))) {
+      continue;
+    }
+
+    matches.push(search);
+    matchedUserIds.add(search.userId);
+  }
+
+  return matches;
+}
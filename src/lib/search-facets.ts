@@ -0,0 +1,99 @@
+/**
+ * Facet counts for /api/search: how many live pages matching the current
+ * query fall under each page type, tag, author and created-date range.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  PageSearchFilters,
+  SEARCH_DATE_RANGES,
+  buildQueryMatch,
+  buildSearchConditions,
+  getDateRangeBounds,
+} from '@/lib/page-search';
+import { SearchFacetBucket, SearchFacets } from '@/types';
+
+const MAX_TAG_BUCKETS = 10;
+const MAX_AUTHOR_BUCKETS = 10;
+
+const EMPTY_FACETS: SearchFacets = {
+  pageType: [],
+  tags: [],
+  authors: [],
+  dateRange: [],
+};
+
+/**
+ * Facet buckets for the filters, each computed without its own filter
+ */
+export async function getSearchFacets(
+  filters: PageSearchFilters
+): Promise<SearchFacets> {
+  const queryMatch = filters.query ? buildQueryMatch(filters.query) : null;
+
+  // Text without searchable terms matches nothing, like searchPages()
+  if (filters.query?.trim() && !queryMatch) {
+    return EMPTY_FACETS;
+  }
+
+  const where = (exclude?: Parameters<typeof buildSearchConditions>[2]) =>
+    Prisma.join(
+      buildSearchConditions(filters, queryMatch?.match ?? null, exclude),
+      ' AND '
+    );
+
+  const now = new Date();
+  const dateRangeCounts = Prisma.join(
+    SEARCH_DATE_RANGES.map((range) => {
+      const { gte, lt } = getDateRangeBounds(range, now);
+      const condition = gte
+        ? Prisma.sql`p."createdAt" >= ${gte}`
+        : Prisma.sql`p."createdAt" < ${lt}`;
+      return Prisma.sql`COUNT(*) FILTER (WHERE ${condition})::int AS ${Prisma.raw(`"${range}"`)}`;
+    })
+  );
+
+  const [pageTypes, tags, authors, dateRanges] = await Promise.all([
+    prisma.$queryRaw<SearchFacetBucket[]>`
+      SELECT p."pageType"::text AS "value", COUNT(*)::int AS "count"
+      FROM "pages" p
+      WHERE ${where('pageType')}
+      GROUP BY p."pageType"
+      ORDER BY "count" DESC
+    `,
+    prisma.$queryRaw<SearchFacetBucket[]>`
+      SELECT tag AS "value", COUNT(*)::int AS "count"
+      FROM "pages" p, unnest(p."tags") AS tag
+      WHERE ${where('tags')}
+      GROUP BY tag
+      ORDER BY "count" DESC, tag ASC
+      LIMIT ${MAX_TAG_BUCKETS}
+    `,
+    prisma.$queryRaw<SearchFacetBucket[]>`
+      SELECT p."authorId" AS "value", coalesce(u."name", u."email") AS "label",
+        COUNT(*)::int AS "count"
+      FROM "pages" p
+      JOIN "users" u ON u."id" = p."authorId"
+      WHERE ${where('authorId')}
+      GROUP BY p."authorId", u."name", u."email"
+      ORDER BY "count" DESC, "label" ASC
+      LIMIT ${MAX_AUTHOR_BUCKETS}
+    `,
+    prisma.$queryRaw<Record<string, number>[]>`
+      SELECT ${dateRangeCounts}
+      FROM "pages" p
+      WHERE ${where('dateRange')}
+    `,
+  ]);
+
+  return {
+    pageType: pageTypes,
+    tags,
+    authors,
+    dateRange: SEARCH_DATE_RANGES.map((range) => ({
+      value: range,
+      count: dateRanges[0]?.[range] ?? 0,
+    })).filter((bucket) => bucket.count > 0),
+  };
+}
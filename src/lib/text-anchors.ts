@@ -0,0 +1,204 @@
+// Client-side helpers for comments anchored to a range of page text (DOM only).
+// Offsets count characters of the content's textContent, which does not
+// change when highlights are wrapped around parts of it.
+import { CommentAnchor } from '@/types';
+
+// Characters of context stored on each side of the quote
+const CONTEXT_LENGTH = 32;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const textOffset = (root: Node, container: Node, offset: number) => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(container, offset);
+  return range.toString().length;
+};
+
+/**
+ * Anchor for a selection inside root, without surrounding whitespace.
+ * Returns null for selections outside root or without text.
+ */
+export function describeSelection(
+  root: HTMLElement,
+  range: Range
+): CommentAnchor | null {
+  if (!root.contains(range.commonAncestorContainer)) {
+    return null;
+  }
+
+  const text = root.textContent || '';
+  let start = textOffset(root, range.startContainer, range.startOffset);
+  let end = textOffset(root, range.endContainer, range.endOffset);
+
+  while (start < end && /\s/.test(text.charAt(start))) start++;
+  while (end > start && /\s/.test(text.charAt(end - 1))) end--;
+
+  if (start === end) {
+    return null;
+  }
+
+  return {
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+    start,
+  };
+}
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+};
+
+// Collapse whitespace runs, keeping the original index of every character
+const normalizeWhitespace = (text: string) => {
+  let normalized = '';
+  const indexes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text.charAt(i));
+    if (isSpace && normalized.endsWith(' ')) continue;
+    normalized += isSpace ? ' ' : text.charAt(i);
+    indexes.push(i);
+  }
+
+  return { normalized, indexes };
+};
+
+const findAll = (text: string, quote: string) => {
+  const matches: number[] = [];
+  let index = text.indexOf(quote);
+
+  while (index !== -1) {
+    matches.push(index);
+    index = text.indexOf(quote, index + 1);
+  }
+
+  return matches;
+};
+
+/**
+ * Find an anchor in the current text. Among several occurrences of the quote
+ * the one whose surrounding text best matches the stored context wins, then
+ * the one closest to the original offset. When the quote no longer occurs
+ * verbatim, whitespace differences are ignored. Returns null when the quoted
+ * text is gone.
+ */
+export function locateAnchor(
+  text: string,
+  anchor: CommentAnchor
+): TextRange | null {
+  let quote = anchor.quote;
+  let haystack = text;
+  let toOriginal = (index: number) => index;
+
+  let matches = findAll(haystack, quote);
+
+  if (matches.length === 0) {
+    const { normalized, indexes } = normalizeWhitespace(text);
+    quote = normalizeWhitespace(anchor.quote).normalized;
+    haystack = normalized;
+    toOriginal = (index) =>
+      index < indexes.length ? (indexes[index] as number) : text.length;
+    matches = findAll(haystack, quote);
+  }
+
+  let best: { index: number; score: number; distance: number } | null = null;
+
+  for (const index of matches) {
+    const before = haystack.slice(
+      Math.max(0, index - anchor.prefix.length),
+      index
+    );
+    const after = haystack.slice(
+      index + quote.length,
+      index + quote.length + anchor.suffix.length
+    );
+    const score =
+      commonSuffixLength(before, anchor.prefix) +
+      commonPrefixLength(after, anchor.suffix);
+    const distance = Math.abs(toOriginal(index) - anchor.start);
+
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && distance < best.distance)
+    ) {
+      best = { index, score, distance };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const start = toOriginal(best.index);
+  const end = toOriginal(best.index + quote.length - 1) + 1;
+  return { start, end };
+}
+
+/**
+ * Wrap the text between two offsets of root in <mark> elements, one per text
+ * node, tagged with the thread id
+ */
+export function highlightRange(
+  root: HTMLElement,
+  range: TextRange,
+  threadId: string,
+  className: string
+) {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const targets: { node: Text; from: number; to: number }[] = [];
+  let offset = 0;
+
+  for (
+    let node = walker.nextNode() as Text | null;
+    node && offset < range.end;
+    node = walker.nextNode() as Text | null
+  ) {
+    const nodeStart = offset;
+    offset += node.data.length;
+
+    if (offset > range.start) {
+      targets.push({
+        node,
+        from: Math.max(range.start, nodeStart) - nodeStart,
+        to: Math.min(range.end, offset) - nodeStart,
+      });
+    }
+  }
+
+  for (const { node, from, to } of targets) {
+    let target = node;
+    if (from > 0) target = target.splitText(from);
+    if (to - from < target.data.length) target.splitText(to - from);
+
+    // Whitespace between table cells or list items is not worth marking
+    if (!target.data.trim() || !target.parentNode) continue;
+
+    const mark = document.createElement('mark');
+    mark.dataset.commentThread = threadId;
+    mark.className = className;
+    target.parentNode.insertBefore(mark, target);
+    mark.appendChild(target);
+  }
+}
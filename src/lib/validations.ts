@@ -42,20 +42,54 @@ export const pageSchema = z.object({
   authorId: secureIdSchema,
   tags: z.array(secureStringSchema(50)).max(10, 'En fazla 10 etiket eklenebilir').default([]),
   published: z.boolean().default(true),
+  status: z.enum(['DRAFT', 'IN_REVIEW', 'PUBLISHED', 'ARCHIVED']),
+  publishAt: z.coerce.date().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  parentId: secureIdSchema.nullable().optional(),
+  position: z.number().int().min(0),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+// Publishing state is driven by the workflow, only the initial status can be requested
 export const createPageSchema = pageSchema.omit({
   id: true,
   authorId: true,
+  published: true,
+  status: true,
+  position: true,
   createdAt: true,
   updatedAt: true
 }).extend({
-  fileIds: z.array(secureIdSchema).max(5, 'En fazla 5 dosya eklenebilir').optional()
+  fileIds: z.array(secureIdSchema).max(5, 'En fazla 5 dosya eklenebilir').optional(),
+  status: z.enum(['DRAFT', 'IN_REVIEW', 'PUBLISHED']).optional(),
 });
 
-export const updatePageSchema = createPageSchema.partial();
+// The page tree is changed through the move endpoint so cycles can be checked.
+// A significant update shows the page as unread again to everyone who read it.
+export const updatePageSchema = createPageSchema.omit({ status: true, parentId: true }).partial().extend({
+  significantUpdate: z.boolean().optional(),
+});
+
+export const movePageSchema = z.object({
+  parentId: secureIdSchema.nullable(),
+  position: z.number().int().min(0),
+});
+
+export const pageWorkflowSchema = z.object({
+  action: z.enum(['submit', 'withdraw', 'approve', 'reject', 'publish', 'archive', 'reopen']),
+  comment: secureStringSchema(1000).optional(),
+});
+
+// Acknowledgement campaigns target roles and/or individual users
+export const acknowledgementCampaignSchema = z.object({
+  deadline: z.coerce.date().refine((date) => date > new Date(), 'Son tarih gelecekte olmalıdır'),
+  targetRoles: z.array(z.enum(['SYSTEM_ADMIN', 'ADMIN', 'EDITOR', 'MEMBER'])).default([]),
+  targetUserIds: z.array(secureIdSchema).max(500, 'En fazla 500 kullanıcı seçilebilir').default([]),
+}).refine((data) => data.targetRoles.length > 0 || data.targetUserIds.length > 0, {
+  message: 'En az bir rol veya kullanıcı seçilmelidir',
+  path: ['targetRoles'],
+});
 
 // File validation schemas with enhanced security
 export const fileSchema = z.object({
@@ -81,14 +115,41 @@ export const commentSchema = z.object({
   id: secureIdSchema,
   pageId: secureIdSchema,
   userId: secureIdSchema,
+  parentId: secureIdSchema.nullable().optional(),
   comment: secureStringSchema(1000).min(1, 'Yorum boş olamaz'),
   createdAt: z.date(),
 });
 
-export const createCommentSchema = commentSchema.omit({
-  id: true,
-  userId: true,
-  createdAt: true
+// Page text is quoted verbatim, so apostrophes and quotes must be allowed
+export const commentAnchorSchema = z.object({
+  quote: z.string().min(1, 'Seçili metin boş olamaz').max(1000, 'Seçili metin çok uzun'),
+  prefix: z.string().max(64).default(''),
+  suffix: z.string().max(64).default(''),
+  start: z.number().int().min(0),
+});
+
+export const createCommentSchema = commentSchema
+  .omit({
+    id: true,
+    userId: true,
+    createdAt: true
+  })
+  .extend({ anchor: commentAnchorSchema.optional() })
+  .refine((data) => !(data.anchor && data.parentId), {
+    message: 'Yanıtlar metne bağlanamaz',
+    path: ['anchor'],
+  });
+
+export const commentResolutionSchema = z.object({
+  resolved: z.boolean(),
+});
+
+export const commentReportSchema = z.object({
+  reason: secureStringSchema(500).optional(),
+});
+
+export const commentModerationSchema = z.object({
+  action: z.enum(['hide', 'restore', 'delete']),
 });
 
 // Notification validation schemas with enhanced security
@@ -132,6 +193,21 @@ export const searchSchema = z.object({
   }).optional(),
 });
 
+// Saved search filters mirror the /api/search parameters
+export const savedSearchSchema = z.object({
+  name: secureStringSchema(100).min(1, 'Arama adı gereklidir'),
+  // Free text like /api/search accepts it, including Turkish letters
+  query: z.string().trim().max(200).optional(),
+  pageType: z.enum(['INFO', 'PROCEDURE', 'ANNOUNCEMENT', 'WARNING']).optional(),
+  tags: z.array(secureStringSchema(50)).max(5, 'En fazla 5 etiket filtreleyebilirsiniz').default([]),
+  authorId: secureIdSchema.optional(),
+  notify: z.boolean().default(false),
+});
+
+export const updateSavedSearchSchema = savedSearchSchema
+  .pick({ name: true, notify: true })
+  .partial();
+
 // API response schemas
 export const apiResponseSchema = z.object({
   success: z.boolean(),
@@ -169,14 +245,20 @@ export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type Page = z.infer<typeof pageSchema>;
 export type CreatePage = z.infer<typeof createPageSchema>;
 export type UpdatePage = z.infer<typeof updatePageSchema>;
+export type PageWorkflow = z.infer<typeof pageWorkflowSchema>;
+export type MovePage = z.infer<typeof movePageSchema>;
+export type AcknowledgementCampaignInput = z.infer<typeof acknowledgementCampaignSchema>;
 export type File = z.infer<typeof fileSchema>;
 export type CreateFile = z.infer<typeof createFileSchema>;
 export type Comment = z.infer<typeof commentSchema>;
 export type CreateComment = z.infer<typeof createCommentSchema>;
+export type CommentModeration = z.infer<typeof commentModerationSchema>;
 export type Notification = z.infer<typeof notificationSchema>;
 export type CreateNotification = z.infer<typeof createNotificationSchema>;
 export type Login = z.infer<typeof loginSchema>;
 export type Pagination = z.infer<typeof paginationSchema>;
 export type SearchPage = z.infer<typeof searchPageSchema>;
 export type Search = z.infer<typeof searchSchema>;
+export type SavedSearchInput = z.infer<typeof savedSearchSchema>;
+export type UpdateSavedSearch = z.infer<typeof updateSavedSearchSchema>;
 export type ApiResponse = z.infer<typeof apiResponseSchema>;
\ No newline at end of file
@@ -18,6 +18,11 @@ export default withAuth(
       return NextResponse.next()
     }
 
+    // Unsubscribe links in notification emails work without signing in
+    if (isEmailUnsubscribePath(pathname)) {
+      return NextResponse.next()
+    }
+
     // Allow access to CSRF token endpoint for authenticated users
     if (pathname === '/api/csrf-token') {
       return NextResponse.next()
@@ -67,7 +72,8 @@ export default withAuth(
             pathname.startsWith('/api/auth/') ||
             pathname === '/api/health' ||
             pathname.startsWith('/api/csrf-token') ||
-            pathname.startsWith('/api/pages/test')) {
+            pathname.startsWith('/api/pages/test') ||
+            isEmailUnsubscribePath(pathname)) {
           return true
         }
 
@@ -78,6 +84,10 @@ export default withAuth(
   }
 )
 
+function isEmailUnsubscribePath(pathname: string) {
+  return pathname === '/unsubscribe' || pathname === '/api/notifications/unsubscribe'
+}
+
 /**
  * Perform security checks on incoming requests
  */
@@ -4,13 +4,29 @@ import {
   Page,
   File,
   Comment,
+  CommentRevision,
+  CommentReport,
   Notification,
+  PageRevision,
+  AcknowledgementCampaign,
+  EmailFrequency,
   UserRole,
   ContentType,
+  PageStatus,
 } from '@prisma/client';
 
 // Re-export Prisma types
-export type { User, Page, File, Comment, Notification, UserRole, ContentType };
+export type {
+  User,
+  Page,
+  File,
+  Comment,
+  Notification,
+  PageRevision,
+  UserRole,
+  ContentType,
+  PageStatus,
+};
 
 // Extended types for API responses
 export interface UserWithRelations extends User {
@@ -26,21 +42,159 @@ export interface PageWithRelations extends Page {
     File,
     'id' | 'createdAt' | 'filename' | 'mimeType' | 'originalName' | 'fileSize'
   >[];
-  comments: CommentWithUser[];
+  // Not loaded with pages; comments are fetched from /api/comments, which
+  // masks hidden ones
+  comments?: CommentWithUser[];
+  reviewedBy?: Pick<User, 'id' | 'email' | 'name'> | null;
   _count?: {
     comments: number;
     files: number;
   };
 }
 
+// Search hits for a text query carry highlighted HTML (only <mark> tags)
+export interface PageSearchResult extends PageWithRelations {
+  highlightedTitle?: string;
+  snippet?: string;
+  attachmentHits?: {
+    fileId: string;
+    originalName: string;
+    snippet: string;
+  }[];
+}
+
+// Pages read before a significant update carry the state the user last read
+export interface UnreadPage extends PageWithRelations {
+  lastRead?: {
+    readAt: Date | string;
+    revision: Pick<
+      PageRevision,
+      'revisionNumber' | 'title' | 'content' | 'tags'
+    > | null;
+  };
+}
+
+export interface SearchFacetBucket {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+// Result counts per filter value for the current query; each facet
+// ignores its own filter so the other values stay selectable
+export interface SearchFacets {
+  pageType: SearchFacetBucket[];
+  tags: SearchFacetBucket[];
+  authors: SearchFacetBucket[];
+  dateRange: SearchFacetBucket[];
+}
+
+export interface PageRevisionSummary
+  extends Pick<
+    PageRevision,
+    'id' | 'revisionNumber' | 'title' | 'pageType' | 'tags' | 'restoredFromId'
+  > {
+  createdAt: string | Date;
+  createdBy: Pick<User, 'id' | 'email' | 'name'>;
+}
+
+export interface PageRevisionWithContent extends PageRevisionSummary {
+  content: string | null;
+}
+
+export type PageAncestor = Pick<Page, 'id' | 'title' | 'published'>;
+
+// Acknowledgement campaign of a page as seen by the current user
+export interface PageAcknowledgementInfo
+  extends Pick<
+    AcknowledgementCampaign,
+    'id' | 'pageId' | 'targetRoles' | 'targetUserIds'
+  > {
+  deadline: string | Date;
+  inAudience: boolean;
+  acknowledgement: {
+    acknowledgedAt: string | Date;
+    revisionNumber: number | null;
+  } | null;
+}
+
+export interface AcknowledgementCampaignSummary
+  extends Pick<AcknowledgementCampaign, 'id' | 'pageId'> {
+  deadline: string | Date;
+  page: Pick<Page, 'id' | 'title'>;
+  audienceCount: number;
+  acknowledgedCount: number;
+}
+
+export type AcknowledgementStatus = 'acknowledged' | 'pending' | 'overdue';
+
+export interface ComplianceReport {
+  page: Pick<Page, 'id' | 'title'>;
+  deadline: string | Date;
+  summary: Record<AcknowledgementStatus | 'total', number>;
+  entries: {
+    userId: string;
+    name: string | null;
+    email: string;
+    role: UserRole;
+    status: AcknowledgementStatus;
+    acknowledgedAt: string | Date | null;
+    late: boolean;
+  }[];
+}
+
+export interface PageTreeNode
+  extends Pick<
+    Page,
+    'id' | 'title' | 'pageType' | 'status' | 'published' | 'parentId' | 'position'
+  > {
+  children: PageTreeNode[];
+}
+
 export interface CommentWithUser extends Comment {
   user: Pick<User, 'id' | 'email' | 'name' | 'role'>;
 }
 
+export interface CommentThread extends CommentWithUser {
+  replies: CommentThread[];
+}
+
+// A thread anchored to a text range of the page
+export interface AnchoredCommentThread extends CommentThread {
+  resolvedBy: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export interface CommentRevisionWithEditor
+  extends Pick<CommentRevision, 'id' | 'content' | 'createdAt'> {
+  editedBy: Pick<User, 'id' | 'name' | 'email'>;
+}
+
+export interface CommentModerationItem extends CommentWithUser {
+  page: Pick<Page, 'id' | 'title'>;
+  // Open reports, newest first
+  reports: (Pick<CommentReport, 'id' | 'reason' | 'createdAt'> & {
+    reporter: Pick<User, 'id' | 'name' | 'email'>;
+  })[];
+}
+
 export interface FileWithUser extends File {
   uploadedBy: User;
 }
 
+export interface FilePreviewSheet {
+  name: string;
+  rows: string[][];
+  // More rows or columns than the preview shows
+  truncated: boolean;
+}
+
+// In-browser preview of an attachment, converted on the server
+export type FilePreviewData =
+  | { kind: 'image' }
+  | { kind: 'pdf'; pageCount: number }
+  | { kind: 'html'; html: string }
+  | { kind: 'table'; sheets: FilePreviewSheet[] };
+
 // API Request/Response types
 export interface CreatePageRequest {
   title: string;
@@ -48,9 +202,22 @@ export interface CreatePageRequest {
   pageType: ContentType;
   tags: string[];
   fileIds?: string[];
+  parentId?: string | null;
+  status?: Exclude<PageStatus, 'ARCHIVED'>;
+  publishAt?: string | null;
+  expiresAt?: string | null;
 }
 
-export type UpdatePageRequest = Partial<CreatePageRequest>;
+export type UpdatePageRequest = Partial<
+  Omit<CreatePageRequest, 'status' | 'parentId'>
+> & {
+  significantUpdate?: boolean;
+};
+
+export interface MovePageRequest {
+  parentId: string | null;
+  position: number;
+}
 
 export interface SearchPageRequest {
   query?: string;
@@ -63,7 +230,17 @@ export interface SearchPageRequest {
 
 export interface CreateCommentRequest {
   pageId: string;
+  parentId?: string | null;
   comment: string;
+  anchor?: CommentAnchor;
+}
+
+// Selected text with context, as sent when commenting on a text range
+export interface CommentAnchor {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
 }
 
 export interface CreateNotificationRequest {
@@ -79,6 +256,13 @@ export interface NotificationWithUser extends Notification {
 
 export interface NotificationPreferences {
   inAppNotifications: boolean;
+  emailFrequency: EmailFrequency;
+  // Notification types turned off per channel
+  mutedInAppTypes: string[];
+  mutedEmailTypes: string[];
+  // Minutes after midnight, null when quiet hours are off
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
 }
 
 export interface NotificationStreamData {